@@ -1,39 +1,80 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Tab } from './types';
 import Header from './components/Header';
 import ImageGenerator from './components/ImageGenerator';
 import VideoCreator from './components/VideoCreator';
 import Chatbot from './components/Chatbot';
 import ImageEditor from './components/ImageEditor';
+import MediaLibrary from './components/MediaLibrary';
+import VideoJobNotifications from './components/VideoJobNotifications';
+import { useAIProvider } from './hooks/useAIProvider';
+import { VideoJobsContext, useVideoJobManager } from './hooks/useVideoJobs';
+import { hasSharedPersona } from './services/personaTransfer';
+
+// An asset sent from the media library to another tool, consumed once that tool has loaded it.
+interface AssetHandoff {
+  assetId: string;
+  target: Tab.ImageEditor | Tab.Chat | Tab.Video;
+}
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<Tab>(Tab.Image);
+  // Persona share links open the chat, which imports the persona from the link.
+  const [activeTab, setActiveTab] = useState<Tab>(() => (hasSharedPersona(window.location.hash) ? Tab.Chat : Tab.Image));
+  const [handoff, setHandoff] = useState<AssetHandoff | null>(null);
+  // Video jobs live here, above the tabs, so they keep running while another tab is open.
+  const videoJobs = useVideoJobManager(useAIProvider());
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      if (hasSharedPersona(window.location.hash)) setActiveTab(Tab.Chat);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const sendAsset = (assetId: string, target: AssetHandoff['target']) => {
+    setHandoff({ assetId, target });
+    setActiveTab(target);
+  };
+
+  const incomingAssetFor = (target: AssetHandoff['target']) => (handoff?.target === target ? handoff.assetId : null);
 
   const renderContent = () => {
     switch (activeTab) {
       case Tab.Image:
         return <ImageGenerator />;
       case Tab.Video:
-        return <VideoCreator />;
+        return <VideoCreator incomingAssetId={incomingAssetFor(Tab.Video)} onIncomingAssetHandled={() => setHandoff(null)} />;
       case Tab.Chat:
-        return <Chatbot />;
+        return <Chatbot incomingAssetId={incomingAssetFor(Tab.Chat)} onIncomingAssetHandled={() => setHandoff(null)} />;
       case Tab.ImageEditor:
-        return <ImageEditor />;
+        return <ImageEditor incomingAssetId={incomingAssetFor(Tab.ImageEditor)} onIncomingAssetHandled={() => setHandoff(null)} />;
+      case Tab.Library:
+        return (
+          <MediaLibrary
+            onSendToEditor={(assetId) => sendAsset(assetId, Tab.ImageEditor)}
+            onAnimate={(assetId) => sendAsset(assetId, Tab.Video)}
+            onAttachToChat={(assetId) => sendAsset(assetId, Tab.Chat)}
+          />
+        );
       default:
         return <ImageGenerator />;
     }
   };
 
   return (
-    <div className="min-h-screen bg-slate-900 font-sans flex flex-col items-center p-4 sm:p-6 lg:p-8">
-      <div className="w-full max-w-4xl mx-auto">
-        <Header activeTab={activeTab} setActiveTab={setActiveTab} />
-        <main className="mt-6">
-          {renderContent()}
-        </main>
+    <VideoJobsContext.Provider value={videoJobs}>
+      <div className="min-h-screen bg-slate-900 font-sans flex flex-col items-center p-4 sm:p-6 lg:p-8">
+        <div className="w-full max-w-4xl mx-auto">
+          <Header activeTab={activeTab} setActiveTab={setActiveTab} />
+          <main className="mt-6">
+            {renderContent()}
+          </main>
+        </div>
+        <VideoJobNotifications onViewJob={() => setActiveTab(Tab.Video)} />
       </div>
-    </div>
+    </VideoJobsContext.Provider>
   );
 };
 
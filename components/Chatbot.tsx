@@ -1,10 +1,35 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Chat } from '@google/genai';
 import { Icon } from './Icon';
-import { Message, MessagePart, Persona, defaultPersonas } from '../types';
+import { Message, MessageGrounding, MessageNode, MessagePart, Persona, ToolCallRecord, defaultPersonas } from '../types';
 import Spinner from './Spinner';
-import { ai } from '../services/geminiService';
+import ConversationSidebar from './ConversationSidebar';
+import MarkdownMessage from './MarkdownMessage';
+import PersonaCreatorModal from './PersonaCreatorModal';
+import PersonaTransferModal from './PersonaTransferModal';
+import PromptLibraryButton from './PromptLibraryButton';
+import ToolCallCard from './ToolCallCard';
+import DocumentChip from './DocumentChip';
+import { useAIProvider } from '../hooks/useAIProvider';
 import { usePersonas } from '../hooks/usePersona';
+import { createMessageTree, getActivePath, useConversations } from '../hooks/useConversations';
+import { formatBytes, getAsset } from '../services/assetStore';
+import { hasSharedPersona, parseSharedPersona } from '../services/personaTransfer';
+import { insertCitationMarkers } from '../services/grounding';
+import { MAX_TOOL_STEPS, chatToolDeclarations, runChatTool } from '../services/chatTools';
+import { DOCUMENT_ACCEPT } from '../services/documents';
+import {
+  ChatAttachment,
+  INLINE_LIMIT_LABEL,
+  MAX_ATTACHMENTS,
+  fitsInlineLimit,
+  limitHistoryAttachments,
+  readAttachment,
+  restoreAttachmentParts,
+  storeAttachments,
+  storeToolImages,
+  toAttachmentParts,
+} from '../services/chatAttachments';
+import type { FunctionCall } from '../services/aiProvider';
 
 const fileToGenerativePart = async (file: File) => {
   const base64EncodedDataPromise = new Promise<string>((resolve) => {
@@ -17,109 +42,261 @@ const fileToGenerativePart = async (file: File) => {
   };
 };
 
-const PersonaCreatorModal: React.FC<{
-    onClose: () => void;
-    onSave: (persona: Omit<Persona, 'id'>) => void;
-    personaToEdit: Persona | null;
-}> = ({ onClose, onSave, personaToEdit }) => {
-    const [name, setName] = useState('');
-    const [instruction, setInstruction] = useState('');
-    const [welcomeMessage, setWelcomeMessage] = useState('');
-    const isEditing = !!personaToEdit;
-
-    useEffect(() => {
-        if (personaToEdit) {
-            setName(personaToEdit.name);
-            setInstruction(personaToEdit.instruction);
-            setWelcomeMessage(personaToEdit.welcomeMessage);
-        }
-    }, [personaToEdit]);
+// Rebuilds the history handed to the chat session. The persona's welcome message is only shown
+// in the UI, so leading model turns are dropped to keep the history starting with a user turn.
+// Grounding is display-only and isn't sent back to the model.
+const toChatHistory = (messages: Message[]): Message[] => {
+  const firstUserIndex = messages.findIndex(m => m.role === 'user');
+  if (firstUserIndex === -1) return [];
+  return messages
+    .slice(firstUserIndex)
+    .filter(m => m.parts.some(part => part.text || part.inlineData))
+    .map(({ role, parts }) => ({ role, parts }));
+};
 
-    const handleSave = () => {
-        if(name.trim() && instruction.trim() && welcomeMessage.trim()) {
-            onSave({ name, instruction, welcomeMessage });
-        }
-    };
+const readSavedPersonaId = (): string => {
+  try {
+    return localStorage.getItem('selectedPersonaId') || 'Professional';
+  } catch (e) {
+    console.error("Could not read settings from localStorage", e);
+    return 'Professional';
+  }
+};
 
+interface BranchInfo {
+  index: number;
+  count: number;
+  onPrevious?: () => void;
+  onNext?: () => void;
+}
+
+const BranchNavigator: React.FC<{ branch: BranchInfo }> = ({ branch }) => (
+  <div className="flex items-center gap-1 text-xs text-slate-400 select-none">
+    <button onClick={branch.onPrevious} disabled={!branch.onPrevious} className="px-1 rounded hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent" aria-label="Previous version">&lt;</button>
+    <span>{branch.index + 1}/{branch.count}</span>
+    <button onClick={branch.onNext} disabled={!branch.onNext} className="px-1 rounded hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent" aria-label="Next version">&gt;</button>
+  </div>
+);
+
+const hostnameOf = (uri: string) => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch {
+    return uri;
+  }
+};
+
+const SourcesList: React.FC<{ grounding: MessageGrounding }> = ({ grounding }) => (
+  <div className="max-w-lg w-full px-3 py-2 rounded-lg border border-slate-700 bg-slate-800/60 text-xs">
+    <p className="mb-1 font-semibold text-slate-400">Sources</p>
+    <ol className="space-y-0.5">
+      {grounding.sources.map((source, index) => (
+        <li key={source.uri} className="flex gap-1.5 min-w-0">
+          <span className="flex-shrink-0 text-slate-500">{index + 1}.</span>
+          <a href={source.uri} target="_blank" rel="noopener noreferrer" className="truncate text-indigo-300 hover:text-indigo-200 hover:underline" title={source.uri}>
+            {source.title}
+          </a>
+          {source.title !== hostnameOf(source.uri) && <span className="flex-shrink-0 text-slate-500">{hostnameOf(source.uri)}</span>}
+        </li>
+      ))}
+    </ol>
+    {grounding.queries.length > 0 && (
+      <p className="mt-1 text-slate-500 truncate" title={grounding.queries.join('\n')}>Searched: {grounding.queries.join(' · ')}</p>
+    )}
+  </div>
+);
+
+const MessageBubble: React.FC<{
+  message: Message;
+  branch?: BranchInfo;
+  onEdit?: (text: string) => void;
+  onRegenerate?: () => void;
+  /** The persona's emoji, shown beside model replies. */
+  avatar?: string;
+}> = ({ message, branch, onEdit, onRegenerate, avatar }) => {
+  const isUser = message.role === 'user';
+  const messageText = message.parts.map(part => (part.document ? '' : part.text ?? '')).join('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(messageText);
+
+  const startEditing = () => {
+    setDraft(messageText);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() || !onEdit) return;
+    setIsEditing(false);
+    onEdit(draft);
+  };
+
+  if (isEditing) {
     return (
-        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
-            <div className="bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-6 w-full max-w-lg m-4">
-                <h3 className="text-xl font-bold mb-4">{isEditing ? 'Edit Custom Persona' : 'Create Custom Persona'}</h3>
-                <div className="space-y-4">
-                    <input
-                        type="text"
-                        placeholder="Persona Name (e.g., 'Sarcastic Robot')"
-                        value={name}
-                        onChange={(e) => setName(e.target.value)}
-                        className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
-                    />
-                    <textarea
-                        placeholder="Instruction Prompt (e.g., 'You are a sarcastic robot that begrudgingly helps people.')"
-                        value={instruction}
-                        onChange={(e) => setInstruction(e.target.value)}
-                        className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 h-24 resize-none"
-                    />
-                    <textarea
-                        placeholder="Welcome Message (e.g., 'Oh, great. Another human. What do you want?')"
-                        value={welcomeMessage}
-                        onChange={(e) => setWelcomeMessage(e.target.value)}
-                        className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 h-20 resize-none"
-                    />
-                </div>
-                <div className="flex justify-end gap-3 mt-6">
-                    <button onClick={onClose} className="px-4 py-2 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors">Cancel</button>
-                    <button onClick={handleSave} className="px-4 py-2 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:bg-indigo-400" disabled={!name.trim() || !instruction.trim() || !welcomeMessage.trim()}>{isEditing ? 'Update Persona' : 'Save Persona'}</button>
-                </div>
-            </div>
+      <div className="flex justify-end">
+        <div className="w-full max-w-lg p-3 rounded-2xl rounded-br-none bg-slate-700 space-y-2">
+          <textarea
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 resize-none h-24"
+            aria-label="Edit message"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setIsEditing(false)} className="px-3 py-1.5 rounded-md text-sm font-medium bg-slate-600 hover:bg-slate-500 transition-colors">Cancel</button>
+            <button onClick={submitEdit} disabled={!draft.trim()} className="px-3 py-1.5 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 transition-colors">Save & Send</button>
+          </div>
         </div>
+      </div>
     );
+  }
+
+  return (
+    <div className={`group flex items-end gap-1 ${isUser ? 'justify-end' : 'justify-start'}`}>
+      {isUser && onEdit && (
+        <button onClick={startEditing} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 opacity-0 group-hover:opacity-100 transition-opacity" title="Edit message">
+          <Icon name="edit" className="w-4 h-4" />
+        </button>
+      )}
+      {!isUser && avatar && (
+        <span className="flex-shrink-0 w-8 h-8 mb-1 flex items-center justify-center rounded-full bg-slate-700 text-lg select-none" aria-hidden="true">{avatar}</span>
+      )}
+      <div className={`flex flex-col gap-1 min-w-0 ${isUser ? 'items-end' : 'items-start'}`}>
+        <div className={`max-w-lg min-w-0 p-3 rounded-2xl ${isUser ? 'bg-indigo-600 rounded-br-none' : 'bg-slate-700 rounded-bl-none'}`}>
+          {message.toolCalls?.map(call => <ToolCallCard key={call.id} call={call} />)}
+          {message.parts.map((part, index) => part.document ? (
+            <div key={index} className="mb-2">
+              <DocumentChip
+                name={part.document.name}
+                size={part.document.size}
+                note={part.document.excerpt ? `${part.document.excerpt.included} of ${part.document.excerpt.total} sections sent` : undefined}
+              />
+            </div>
+          ) : (
+            <div key={index}>
+              {part.inlineData && !part.inlineData.data && (
+                <p className="mb-2 text-xs italic opacity-75">{part.assetId ? 'Loading attachment…' : 'Attachment no longer available'}</p>
+              )}
+              {part.inlineData?.data && part.inlineData.mimeType.startsWith('image/') && (
+                <img 
+                  src={`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`} 
+                  alt="User upload" 
+                  className="rounded-lg mb-2 max-w-xs"
+                />
+              )}
+               {part.inlineData?.data && part.inlineData.mimeType.startsWith('audio/') && (
+                <audio 
+                  controls 
+                  src={`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`} 
+                  className="rounded-lg mb-2 w-full max-w-xs"
+                />
+              )}
+              {part.text && (isUser
+                ? <p className="whitespace-pre-wrap">{part.text}</p>
+                : <MarkdownMessage text={message.grounding ? insertCitationMarkers(part.text, message.grounding) : part.text} />)}
+            </div>
+          ))}
+        </div>
+        {message.grounding && message.grounding.sources.length > 0 && <SourcesList grounding={message.grounding} />}
+        {branch && <BranchNavigator branch={branch} />}
+      </div>
+      {onRegenerate && (
+        <button onClick={onRegenerate} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700" title="Regenerate response">
+          <Icon name="refresh" className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
 };
 
-const Chatbot: React.FC = () => {
-  const { personas, savePersona, deletePersona } = usePersonas();
-  const [selectedPersonaId, setSelectedPersonaId] = useState<string>('Professional');
+interface ChatbotProps {
+  /** A media library asset to attach to the composer. */
+  incomingAssetId?: string | null;
+  onIncomingAssetHandled?: () => void;
+}
+
+const Chatbot: React.FC<ChatbotProps> = ({ incomingAssetId, onIncomingAssetHandled }) => {
+  const provider = useAIProvider();
+  const { personas, savePersona, importPersonas, deletePersona } = usePersonas();
+  const {
+    conversations,
+    activeConversation,
+    saveError,
+    selectConversation,
+    createConversation,
+    updateConversation,
+    renameConversation,
+    deleteConversation,
+    addMessage,
+    updateMessage,
+    removeMessage,
+    selectBranch,
+  } = useConversations();
+  // Persona used for new conversations; each conversation remembers its own persona.
+  const [defaultPersonaId, setDefaultPersonaId] = useState<string>(readSavedPersonaId);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
+  // Open while sharing personas; `fromLink` holds a persona from a share link awaiting review.
+  const [transfer, setTransfer] = useState<{ fromLink: Persona | null } | null>(null);
   
-  const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState<string>('');
-  const [attachedFile, setAttachedFile] = useState<File | null>(null);
-  const [fileType, setFileType] = useState<'image' | 'audio' | null>(null);
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const [loading, setLoading] = useState<boolean>(false);
   const [isTranscribing, setIsTranscribing] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [isTtsEnabled, setIsTtsEnabled] = useState<boolean>(false);
-  const chatRef = useRef<Chat | null>(null);
+  // Web search for the messages sent from the composer; starts out as the persona's setting.
+  const [isSearchEnabled, setIsSearchEnabled] = useState<boolean>(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
-
-  const personaConfig = personas[selectedPersonaId] || personas['Professional'];
+  const isCreatingConversationRef = useRef(false);
+  // Set while a message's attachments are being stored, before `loading` has re-rendered.
+  const isSendingRef = useRef(false);
+  // Counts dragenter/dragleave pairs, which also fire for every child the drag passes over.
+  const dragDepthRef = useRef(0);
+
+  const activePath = activeConversation ? getActivePath(activeConversation) : [];
+  const messages = activePath.map(node => node.message);
+  // If the conversation's persona no longer exists (e.g., it was deleted),
+  // the chat gracefully falls back to the default persona.
+  const personaConfig = personas[activeConversation?.personaId ?? defaultPersonaId] || personas['Professional'];
+  const selectedPersonaId = personaConfig.id;
   const isCustomPersona = selectedPersonaId && !defaultPersonas[selectedPersonaId];
+  const sortedConversations = Object.values(conversations).sort((a, b) => b.updatedAt - a.updatedAt);
+  const personaUsesSearch = !!personaConfig.tools?.includes('googleSearch');
+
+  useEffect(() => {
+    setIsSearchEnabled(personaUsesSearch);
+  }, [selectedPersonaId, personaUsesSearch, activeConversation?.id]);
 
   useEffect(() => {
     try {
-        const saved = localStorage.getItem('selectedPersonaId');
-        if (saved && personas[saved]) {
-            setSelectedPersonaId(saved);
-        }
         const ttsSaved = localStorage.getItem('isTtsEnabled');
         setIsTtsEnabled(ttsSaved === 'true');
     } catch (e) { console.error("Could not read settings from localStorage", e); }
-  }, [personas]);
+  }, []);
 
   useEffect(() => {
     try {
-        localStorage.setItem('selectedPersonaId', selectedPersonaId);
+        localStorage.setItem('selectedPersonaId', defaultPersonaId);
     } catch (e) { console.error("Could not save selected persona to localStorage", e); }
-  }, [selectedPersonaId]);
-  
-  // This effect ensures that if the selected persona becomes invalid (e.g., is deleted),
-  // the component gracefully falls back to the default persona.
+  }, [defaultPersonaId]);
+
+  // Resume the most recent conversation, or start one when there is nothing to resume.
   useEffect(() => {
-    if (!personas[selectedPersonaId]) {
-      setSelectedPersonaId('Professional');
+    if (activeConversation) {
+      isCreatingConversationRef.current = false;
+      return;
+    }
+    const [latest] = sortedConversations;
+    if (latest) {
+      selectConversation(latest.id);
+    } else if (!isCreatingConversationRef.current) {
+      isCreatingConversationRef.current = true;
+      createConversation(personaConfig.id, personaConfig.welcomeMessage);
     }
-  }, [personas, selectedPersonaId]);
+  }, [activeConversation, sortedConversations.length]);
 
   const toggleTts = () => {
     const newState = !isTtsEnabled;
@@ -132,33 +309,37 @@ const Chatbot: React.FC = () => {
     } catch (e) { console.error("Could not save TTS setting to localStorage", e); }
   };
 
-  useEffect(() => {
-    if (!personaConfig) return;
-    try {
-      chatRef.current = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-          systemInstruction: personaConfig.instruction,
-        },
-      });
-      setMessages([{ role: 'model', parts: [{ text: personaConfig.welcomeMessage }] }]);
-      setError(null);
-    } catch (e: any) {
-      setError("Failed to initialize AI Chat. Please check your API key and refresh the page.");
-      setMessages([]);
-    }
-  }, [personaConfig]);
-
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  useEffect(() => {
+    if (!incomingAssetId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const asset = await getAsset(incomingAssetId);
+        if (!asset) throw new Error('That item is no longer in the media library.');
+        if (cancelled) return;
+        const extension = asset.mimeType.split('/')[1]?.replace('svg+xml', 'svg') || 'png';
+        await addFiles([new File([asset.blob], `library-${asset.id}.${extension}`, { type: asset.mimeType })]);
+      } catch (e: any) {
+        if (!cancelled) setError(e.message || 'Failed to attach the item from the media library.');
+      } finally {
+        if (!cancelled) onIncomingAssetHandled?.();
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [incomingAssetId]);
+
   // Effect to clean up speech synthesis on component unmount
   useEffect(() => {
     // This return function is a cleanup effect that runs when the component unmounts.
-    // It prevents audio from continuing to play if the user navigates to another tab.
+    // It prevents audio from continuing to play, and a reply from streaming into a
+    // conversation that is no longer on screen, if the user navigates to another tab.
     return () => {
       window.speechSynthesis.cancel();
+      abortControllerRef.current?.abort();
     };
   }, []);
   
@@ -175,6 +356,24 @@ const Chatbot: React.FC = () => {
     }
   };
 
+  const handlePersonaChange = (persona: Persona) => {
+    setDefaultPersonaId(persona.id);
+    // A conversation that hasn't started yet just switches persona; otherwise the
+    // current one is kept as-is and a new conversation is opened.
+    if (activeConversation && !Object.values(activeConversation.nodes).some(node => node.message.role === 'user')) {
+      updateConversation(activeConversation.id, {
+        personaId: persona.id,
+        ...createMessageTree([{ role: 'model', parts: [{ text: persona.welcomeMessage }] }]),
+      });
+    } else {
+      createConversation(persona.id, persona.welcomeMessage);
+    }
+  };
+
+  const handleNewConversation = () => {
+    createConversation(personaConfig.id, personaConfig.welcomeMessage);
+  };
+
   const handleSaveOrUpdatePersona = (personaData: Omit<Persona, 'id'>) => {
     if (editingPersona) {
         savePersona({ ...personaData, id: editingPersona.id });
@@ -182,106 +381,267 @@ const Chatbot: React.FC = () => {
         const id = `custom-${Date.now()}`;
         const newPersona = { ...personaData, id };
         savePersona(newPersona);
-        setSelectedPersonaId(id);
+        handlePersonaChange(newPersona);
     }
     setIsModalOpen(false);
     setEditingPersona(null);
   };
 
+  // A share link carries its persona in the fragment, which is cleared once read so a reload doesn't import it again.
+  useEffect(() => {
+    const readSharedLink = () => {
+      if (!hasSharedPersona(window.location.hash)) return;
+      try {
+        setTransfer({ fromLink: parseSharedPersona(window.location.hash) });
+      } catch (e: any) {
+        setError(e.message || 'Could not read the shared persona.');
+      } finally {
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      }
+    };
+    readSharedLink();
+    window.addEventListener('hashchange', readSharedLink);
+    return () => window.removeEventListener('hashchange', readSharedLink);
+  }, []);
+
+  const handleImportPersonas = (imported: Persona[]) => {
+    importPersonas(imported);
+    // A single persona opened from a link is what the user came for, so it is switched to straight away.
+    if (transfer?.fromLink && imported.length === 1) {
+      handlePersonaChange(imported[0]);
+      setTransfer(null);
+    }
+  };
+
   const handleDeletePersona = () => {
     if (!isCustomPersona) return;
     if (window.confirm(`Are you sure you want to delete the "${personaConfig.name}" persona?`)) {
       deletePersona(selectedPersonaId);
-      // The fallback to the default persona is now handled by the new useEffect.
+      if (defaultPersonaId === selectedPersonaId) {
+        setDefaultPersonaId('Professional');
+      }
+      // Conversations using the deleted persona fall back to the default persona.
     }
   };
 
-  const handleSend = useCallback(async () => {
-    if ((!input.trim() && !attachedFile) || loading) return;
+  /**
+   * Streams the model's reply to the user message `userNodeId` as a new child of that node, so
+   * earlier replies stay available as sibling branches. The chat session is rebuilt from
+   * `history` on every turn, which keeps the model's context in step with the active branch.
+   */
+  const streamReply = useCallback(async (
+    conversationId: string,
+    history: Message[],
+    userNodeId: string,
+    userParts: MessagePart[],
+    discardUserNodeOnError: boolean,
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     setLoading(true);
     setError(null);
     window.speechSynthesis.cancel();
 
-    const userParts: MessagePart[] = [];
-    if (attachedFile) {
-      try {
-        const filePart = await fileToGenerativePart(attachedFile);
-        userParts.push(filePart);
-      } catch (e) {
-        setError("Failed to process the attached file.");
-        setLoading(false);
-        return;
-      }
-    }
-    if (input.trim()) {
-      userParts.push({ text: input });
-    }
+    let replyNodeId: string | null = null;
+    let fullResponse = '';
+    let hasToolCalls = false;
+    try {
+      const { model, temperature, topP, maxOutputTokens, thinkingBudget, tools = [] } = personaConfig;
+      const otherTools = tools.filter(tool => tool !== 'googleSearch');
+      const chat = provider.createChat({
+        model: model && provider.chatModels.includes(model) ? model : provider.models.chat,
+        systemInstruction: personaConfig.instruction,
+        history: limitHistoryAttachments(toChatHistory(history), userParts),
+        generation: { temperature, topP, maxOutputTokens, thinkingBudget },
+        tools: isSearchEnabled ? ['googleSearch', ...otherTools] : otherTools,
+        functions: chatToolDeclarations,
+      });
+      // Images the edit tool can work on: attachments and earlier tool results, oldest first.
+      const turns: Message[] = [...history, { role: 'user', parts: userParts }];
+      const images = turns.flatMap(message => [
+        ...message.parts.flatMap(part => (part.inlineData?.mimeType.startsWith('image/') ? [part.inlineData] : [])),
+        ...(message.toolCalls ?? []).flatMap(call => (call.images ?? []).map(({ mimeType, data }) => ({ mimeType, data }))),
+      ]).filter(image => image.data);
+
+      // Each step streams text until the model either finishes or asks for tools to be run; their
+      // results are sent back as the next step's message, all within the one reply.
+      let nextParts = userParts;
+      for (let step = 0; ; step++) {
+        const stream = await chat.sendMessageStream(nextParts, { signal: controller.signal });
+
+        const nodeId = replyNodeId ?? addMessage(conversationId, userNodeId, { role: 'model', parts: [{ text: '' }] });
+        replyNodeId = nodeId;
+        const calls: FunctionCall[] = [];
+        let stepText = '';
+
+        for await (const chunk of stream) {
+          if (controller.signal.aborted) break;
+          calls.push(...(chunk.functionCalls ?? []));
+          // Text written after a round of tool calls starts a new paragraph.
+          const chunkText = step > 0 && fullResponse && !stepText && chunk.text ? `\n\n${chunk.text}` : chunk.text;
+          stepText += chunk.text;
+          fullResponse += chunkText; // Accumulate for TTS
+
+          // Update the UI by appending the new chunk to the reply, creating a new message object to ensure immutability
+          updateMessage(conversationId, nodeId, message => ({
+            ...message,
+            parts: [{ text: (message.parts[0]?.text ?? '') + chunkText }],
+            ...(chunk.grounding ? { grounding: chunk.grounding } : {}),
+          }));
+        }
 
-    const userMessage: Message = { role: 'user', parts: userParts };
-    setMessages(prev => [...prev, userMessage]);
-    
-    const streamInput = { message: userParts };
-    setInput('');
-    setAttachedFile(null);
-    setFileType(null);
+        if (controller.signal.aborted || calls.length === 0) break;
+        if (step >= MAX_TOOL_STEPS) {
+          setError(`The reply was stopped after ${MAX_TOOL_STEPS} rounds of tool calls.`);
+          break;
+        }
 
-    try {
-      if (!chatRef.current) throw new Error("Chat not initialized.");
-      const stream = await chatRef.current.sendMessageStream(streamInput);
-
-      setMessages(prev => [...prev, { role: 'model', parts: [{ text: '' }] }]);
-      
-      let fullResponse = '';
-      for await (const chunk of stream) {
-        const chunkText = chunk.text;
-        fullResponse += chunkText; // Accumulate for TTS
-        
-        // Update the UI by appending the new chunk to the last message
-        setMessages(currentMessages => {
-          const updatedMessages = [...currentMessages];
-          const lastMessageIndex = updatedMessages.length - 1;
-          const lastMessage = updatedMessages[lastMessageIndex];
-        
-          if (lastMessage?.role === 'model') {
-            const existingText = lastMessage.parts[0]?.text ?? '';
-            const updatedText = existingText + chunkText;
-            
-            // Create a new message object to ensure immutability
-            updatedMessages[lastMessageIndex] = {
-              ...lastMessage,
-              parts: [{ text: updatedText }],
-            };
+        hasToolCalls = true;
+        const records: ToolCallRecord[] = calls.map((call, index) => ({
+          id: call.id ?? `${nodeId}-${step}-${index}`,
+          name: call.name,
+          args: call.args,
+          status: 'running',
+        }));
+        const updateToolCall = (id: string, changes: Partial<ToolCallRecord>) => updateMessage(conversationId, nodeId, message => ({
+          ...message,
+          toolCalls: message.toolCalls?.map(record => (record.id === id ? { ...record, ...changes } : record)),
+        }));
+        updateMessage(conversationId, nodeId, message => ({ ...message, toolCalls: [...(message.toolCalls ?? []), ...records] }));
+
+        nextParts = await Promise.all(calls.map(async (call, index): Promise<MessagePart> => {
+          try {
+            const { output, images: produced = [] } = await runChatTool(call, { provider, images });
+            images.push(...produced);
+            const stored = await storeToolImages(produced);
+            updateToolCall(records[index].id, { status: 'done', result: output, images: stored.length > 0 ? stored : undefined });
+            return { functionResponse: { id: call.id, name: call.name, response: { output } } };
+          } catch (e: any) {
+            const message = e.message || 'The tool failed.';
+            updateToolCall(records[index].id, { status: 'error', result: { error: message } });
+            return { functionResponse: { id: call.id, name: call.name, response: { error: message } } };
           }
-          
-          return updatedMessages;
-        });
+        }));
+        if (controller.signal.aborted) break;
       }
 
-      if (isTtsEnabled && fullResponse) {
+      if (isTtsEnabled && fullResponse && !controller.signal.aborted) {
         const utterance = new SpeechSynthesisUtterance(fullResponse);
+        const voice = window.speechSynthesis.getVoices().find(v => v.name === personaConfig.voiceName);
+        if (voice) utterance.voice = voice;
         window.speechSynthesis.speak(utterance);
       }
 
     } catch (e: any) {
+      if (!controller.signal.aborted) {
         const errorMessage = e.message || 'An error occurred while getting a response.';
         setError(errorMessage);
-        setMessages(prev => [...prev.slice(0, -1)]);
+        if (replyNodeId) {
+          removeMessage(conversationId, replyNodeId);
+        } else if (discardUserNodeOnError) {
+          removeMessage(conversationId, userNodeId);
+        }
+      }
     } finally {
+      // A stopped reply keeps whatever text and tool calls arrived; an empty one is dropped.
+      if (controller.signal.aborted && !fullResponse && !hasToolCalls && replyNodeId) {
+        removeMessage(conversationId, replyNodeId);
+      }
+      abortControllerRef.current = null;
       setLoading(false);
     }
-  }, [input, attachedFile, loading, isTtsEnabled]);
+  }, [provider, personaConfig, isTtsEnabled, isSearchEnabled, addMessage, updateMessage, removeMessage]);
+
+  /** Sends the composer's contents, or `text` (e.g., a starter suggestion) in place of the typed text. */
+  const handleSend = useCallback(async (text: string = input) => {
+    if ((!text.trim() && attachments.length === 0) || loading || isSendingRef.current || !activeConversation) return;
+
+    // The composer is cleared and locked while the files are stored, and given back if that fails.
+    const draft = input;
+    const sent = attachments;
+    isSendingRef.current = true;
+    setInput('');
+    setAttachments([]);
+    setLoading(true);
+    try {
+      await storeAttachments(sent);
+    } catch (e: any) {
+      setError(e.message || 'The attachments could not be saved.');
+      setInput(draft);
+      setAttachments(sent);
+      setLoading(false);
+      return;
+    } finally {
+      isSendingRef.current = false;
+    }
+
+    // Attachments keep the order they were added in, followed by the text.
+    const userParts: MessagePart[] = toAttachmentParts(sent, text);
+    if (text.trim()) {
+      userParts.push({ text });
+    }
+
+    const conversationId = activeConversation.id;
+    const path = getActivePath(activeConversation);
+    const userNodeId = addMessage(conversationId, path[path.length - 1].id, { role: 'user', parts: userParts });
+    await streamReply(conversationId, path.map(node => node.message), userNodeId, userParts, true);
+  }, [input, attachments, loading, activeConversation, addMessage, streamReply]);
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Regenerating adds another reply to the last user message; the previous reply stays as a sibling branch.
+  const handleRegenerate = () => {
+    if (loading || !activeConversation) return;
+    const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+    if (lastUserIndex === -1) return;
+    const userNode = activePath[lastUserIndex];
+    streamReply(activeConversation.id, messages.slice(0, lastUserIndex), userNode.id, userNode.message.parts, false);
+  };
+
+  /**
+   * Editing a user message starts a new branch beside it, keeping its attachments in order. Long
+   * documents are read again from the asset store so their sections are picked for the new text.
+   */
+  const handleEditMessage = async (index: number, text: string) => {
+    if (loading || !activeConversation || !text.trim()) return;
+    const original = activePath[index];
+    if (!original.parentId) return;
+    let attachmentParts: MessagePart[];
+    try {
+      const restored = await restoreAttachmentParts(original.message.parts.filter(part => part.document || !part.text), text);
+      // Files that are no longer stored are left out rather than sent empty.
+      attachmentParts = restored.filter(part => (part.inlineData ? part.inlineData.data : part.text));
+    } catch (e: any) {
+      setError(e.message || "Failed to load the message's attachments.");
+      return;
+    }
+    const userParts: MessagePart[] = [...attachmentParts, { text }];
+    const userNodeId = addMessage(activeConversation.id, original.parentId, { role: 'user', parts: userParts });
+    streamReply(activeConversation.id, messages.slice(0, index), userNodeId, userParts, true);
+  };
+
+  const getBranchInfo = (node: MessageNode) => {
+    const siblings = node.parentId ? activeConversation?.nodes[node.parentId]?.childIds ?? [] : [];
+    if (siblings.length < 2 || !activeConversation) return undefined;
+    const conversationId = activeConversation.id;
+    const index = siblings.indexOf(node.id);
+    return {
+      index,
+      count: siblings.length,
+      onPrevious: index > 0 ? () => selectBranch(conversationId, siblings[index - 1]) : undefined,
+      onNext: index < siblings.length - 1 ? () => selectBranch(conversationId, siblings[index + 1]) : undefined,
+    };
+  };
 
   const transcribeAudio = useCallback(async (file: File) => {
     setIsTranscribing(true);
     setError(null);
     try {
         const audioPart = await fileToGenerativePart(file);
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [{ text: "Transcribe the following audio file precisely:" }, audioPart] },
-        });
-        const transcription = response.text;
+        const transcription = await provider.transcribeAudio(audioPart.inlineData);
         setInput(prev => (prev ? prev + ' ' + transcription : transcription).trim());
     } catch (e: any) {
         setError(e.message || "Failed to transcribe audio. Please try again.");
@@ -291,68 +651,92 @@ const Chatbot: React.FC = () => {
             fileInputRef.current.value = '';
         }
     }
-  }, []);
+  }, [provider]);
   
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    if (event.target.files && event.target.files[0]) {
-      const file = event.target.files[0];
-      
-      // Clear previous state before processing new file
-      setAttachedFile(null); 
-      setFileType(null);
-      setError(null);
-
-      if (file.type.startsWith('image/')) {
-        setAttachedFile(file);
-        setFileType('image');
-      } else if (file.type.startsWith('audio/')) {
+  /**
+   * Attaches files from the file picker, the clipboard or a drop, in order. Audio is transcribed
+   * into the input instead; files that can't be attached are listed in one error.
+   */
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setError(null);
+
+    const problems: string[] = [];
+    const added: ChatAttachment[] = [];
+    for (const file of files) {
+      if (file.type.startsWith('audio/')) {
         transcribeAudio(file);
-      } else {
-        setError("Unsupported file type. Please select an image or audio file.");
-        if (fileInputRef.current) {
-            fileInputRef.current.value = ''; // Clear the invalid file from input
+        continue;
+      }
+      if (attachments.length + added.length >= MAX_ATTACHMENTS) {
+        problems.push(`${file.name} was not attached: a message can have at most ${MAX_ATTACHMENTS} attachments.`);
+        continue;
+      }
+      try {
+        const attachment = await readAttachment(file);
+        if (!fitsInlineLimit([...attachments, ...added], attachment)) {
+          throw new Error(`${file.name} was not attached: images and PDFs in one message can't exceed ${INLINE_LIMIT_LABEL} together.`);
         }
+        added.push(attachment);
+      } catch (e: any) {
+        problems.push(e.message || `Could not read ${file.name}.`);
       }
     }
+    if (added.length > 0) setAttachments(prev => [...prev, ...added].slice(0, MAX_ATTACHMENTS));
+    if (problems.length > 0) setError(problems.join(' '));
   };
 
-  const removeAttachment = () => {
-    setAttachedFile(null);
-    setFileType(null);
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
-  }
+    addFiles(files);
+  };
 
-  const MessageBubble: React.FC<{ message: Message }> = ({ message }) => {
-    const isUser = message.role === 'user';
-    return (
-      <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
-        <div className={`max-w-lg p-3 rounded-2xl ${isUser ? 'bg-indigo-600 rounded-br-none' : 'bg-slate-700 rounded-bl-none'}`}>
-          {message.parts.map((part, index) => (
-            <div key={index}>
-              {part.inlineData && part.inlineData.mimeType.startsWith('image/') && (
-                <img 
-                  src={`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`} 
-                  alt="User upload" 
-                  className="rounded-lg mb-2 max-w-xs"
-                />
-              )}
-               {part.inlineData && part.inlineData.mimeType.startsWith('audio/') && (
-                <audio 
-                  controls 
-                  src={`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`} 
-                  className="rounded-lg mb-2 w-full max-w-xs"
-                />
-              )}
-              {part.text && <p className="whitespace-pre-wrap">{part.text}</p>}
-            </div>
-          ))}
-        </div>
-      </div>
-    );
+  // A pasted screenshot arrives as a file; pasted text is left to the input as usual.
+  const handlePaste = (event: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(event.clipboardData.files);
+    if (files.length === 0) return;
+    if (!event.clipboardData.types.includes('text/plain')) event.preventDefault();
+    addFiles(files);
+  };
+
+  const canDropFiles = (event: React.DragEvent) => event.dataTransfer.types.includes('Files') && !loading && !isTranscribing;
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (!canDropFiles(event)) return;
+    event.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDraggingFiles(true);
   };
 
+  // Without this the browser opens the dropped file itself.
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!canDropFiles(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    dragDepthRef.current = Math.max(dragDepthRef.current - 1, 0);
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    if (canDropFiles(event)) addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(attachment => attachment.id !== id));
+  };
+
+  const canRegenerate = !loading && messages[messages.length - 1]?.role === 'model' && messages.some(m => m.role === 'user');
   const customPersonas = Object.values(personas).filter(p => !defaultPersonas[p.id]);
 
   return (
@@ -362,104 +746,205 @@ const Chatbot: React.FC = () => {
         onSave={handleSaveOrUpdatePersona} 
         personaToEdit={editingPersona} 
       />}
-      <div className="bg-slate-800 rounded-lg shadow-xl border border-slate-700 flex flex-col h-[70vh] animate-fade-in">
-        <div className="flex flex-wrap justify-between items-center p-4 border-b border-slate-700 gap-4">
-          <h2 className="text-xl sm:text-2xl font-bold text-slate-100">AI Chatbot (Gemini)</h2>
-          <div className="flex items-center gap-2">
-              <select
-                  id="persona-select"
-                  value={selectedPersonaId}
-                  onChange={(e) => setSelectedPersonaId(e.target.value)}
-                  className="bg-slate-700 border border-slate-600 rounded-md py-1.5 px-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none cursor-pointer"
-                  aria-label="Choose a persona for the chatbot"
-              >
-                  <optgroup label="Default Personas">
-                    {Object.values(defaultPersonas).map((p) => (
-                    <option key={p.id} value={p.id}>
-                        {p.name}
-                    </option>
-                    ))}
-                  </optgroup>
-                  {customPersonas.length > 0 && <optgroup label="Custom Personas">
-                    {customPersonas.map((p) => (
-                    <option key={p.id} value={p.id}>
-                        {p.name}
-                    </option>
-                    ))}
-                  </optgroup>}
-              </select>
-               <button onClick={toggleTts} className="p-1.5 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors" title={isTtsEnabled ? "Disable Text-to-Speech" : "Enable Text-to-Speech"}>
-                <Icon name={isTtsEnabled ? "speaker-on" : "speaker-off"} className="w-5 h-5" />
-              </button>
-              <button onClick={handleOpenCreateModal} className="p-1.5 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors" title="Create new persona">
-                <Icon name="sparkles" className="w-5 h-5" />
-              </button>
-              {isCustomPersona && (
-                <>
-                  <button onClick={handleOpenEditModal} className="p-1.5 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors" title="Edit current persona">
-                      <Icon name="edit" className="w-5 h-5" />
-                  </button>
-                  <button onClick={handleDeletePersona} className="p-1.5 rounded-md text-sm font-medium bg-red-900/50 hover:bg-red-900/80 text-red-300 transition-colors" title="Delete current persona">
-                      <Icon name="trash" className="w-5 h-5" />
-                  </button>
-                </>
-              )}
-          </div>
-        </div>
-        <div className="flex-1 overflow-y-auto p-4 space-y-4">
-          {messages.map((msg, index) => <MessageBubble key={index} message={msg} />)}
-          {loading && messages[messages.length - 1]?.role === 'user' && (
-            <div className="flex justify-start">
-               <div className="max-w-lg p-3 rounded-2xl bg-slate-700 rounded-bl-none flex items-center">
-                  <Spinner /> <span className="ml-2 text-sm text-slate-400">Nexus is thinking...</span>
-              </div>
+      {transfer && (
+        <PersonaTransferModal
+          personas={personas}
+          initialImport={transfer.fromLink ? [transfer.fromLink] : null}
+          onImport={handleImportPersonas}
+          onClose={() => setTransfer(null)}
+        />
+      )}
+      <div className="bg-slate-800 rounded-lg shadow-xl border border-slate-700 flex h-[70vh] animate-fade-in">
+        <ConversationSidebar
+          conversations={sortedConversations}
+          activeConversationId={activeConversation?.id ?? null}
+          disabled={loading}
+          onSelect={selectConversation}
+          onCreate={handleNewConversation}
+          onRename={renameConversation}
+          onDelete={deleteConversation}
+        />
+        <div
+          className="relative flex-1 min-w-0 flex flex-col"
+          onDragEnter={handleDragEnter}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          {isDraggingFiles && (
+            <div className="absolute inset-0 z-10 m-2 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-indigo-400 bg-slate-900/80 text-indigo-200 pointer-events-none">
+              <Icon name="attach" className="w-8 h-8" />
+              <p className="font-medium">Drop files to attach them</p>
+              <p className="text-xs text-slate-400">Images, PDFs and text files; audio is transcribed</p>
             </div>
           )}
-          <div ref={messagesEndRef} />
-        </div>
-
-        {error && <div className="m-4 p-3 bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
+          <div className="flex flex-wrap justify-between items-center p-4 border-b border-slate-700 gap-4">
+            <h2 className="text-xl sm:text-2xl font-bold text-slate-100">AI Chatbot (Gemini)</h2>
+            <div className="flex items-center gap-2">
+                <select
+                    id="persona-select"
+                    value={selectedPersonaId}
+                    onChange={(e) => handlePersonaChange(personas[e.target.value])}
+                    className="bg-slate-700 border border-slate-600 rounded-md py-1.5 px-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:outline-none cursor-pointer"
+                    aria-label="Choose a persona for the chatbot"
+                >
+                    <optgroup label="Default Personas">
+                      {Object.values(defaultPersonas).map((p) => (
+                      <option key={p.id} value={p.id}>
+                          {p.avatar ? `${p.avatar} ${p.name}` : p.name}
+                      </option>
+                      ))}
+                    </optgroup>
+                    {customPersonas.length > 0 && <optgroup label="Custom Personas">
+                      {customPersonas.map((p) => (
+                      <option key={p.id} value={p.id}>
+                          {p.avatar ? `${p.avatar} ${p.name}` : p.name}
+                      </option>
+                      ))}
+                    </optgroup>}
+                </select>
+                 <button onClick={toggleTts} className="p-1.5 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors" title={isTtsEnabled ? "Disable Text-to-Speech" : "Enable Text-to-Speech"}>
+                  <Icon name={isTtsEnabled ? "speaker-on" : "speaker-off"} className="w-5 h-5" />
+                </button>
+                <button onClick={handleOpenCreateModal} className="p-1.5 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors" title="Create new persona">
+                  <Icon name="sparkles" className="w-5 h-5" />
+                </button>
+                <button onClick={() => setTransfer({ fromLink: null })} className="p-1.5 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors" title="Import, export or share personas">
+                  <Icon name="share" className="w-5 h-5" />
+                </button>
+                {isCustomPersona && (
+                  <>
+                    <button onClick={handleOpenEditModal} className="p-1.5 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors" title="Edit current persona">
+                        <Icon name="edit" className="w-5 h-5" />
+                    </button>
+                    <button onClick={handleDeletePersona} className="p-1.5 rounded-md text-sm font-medium bg-red-900/50 hover:bg-red-900/80 text-red-300 transition-colors" title="Delete current persona">
+                        <Icon name="trash" className="w-5 h-5" />
+                    </button>
+                  </>
+                )}
+            </div>
+          </div>
+          <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {activePath.map((node, index) => (
+              <MessageBubble
+                key={node.id}
+                message={node.message}
+                branch={loading ? undefined : getBranchInfo(node)}
+                onEdit={node.message.role === 'user' && !loading ? (text) => handleEditMessage(index, text) : undefined}
+                onRegenerate={canRegenerate && index === activePath.length - 1 ? handleRegenerate : undefined}
+                avatar={personaConfig.avatar}
+              />
+            ))}
+            {!loading && !messages.some(m => m.role === 'user') && personaConfig.starters && (
+              <div className="flex flex-wrap gap-2 pl-9">
+                {personaConfig.starters.map(starter => (
+                  <button
+                    key={starter}
+                    onClick={() => handleSend(starter)}
+                    className="px-3 py-1.5 text-sm rounded-full border border-slate-600 text-slate-300 hover:text-white hover:border-indigo-500 hover:bg-slate-700 transition-colors"
+                  >
+                    {starter}
+                  </button>
+                ))}
+              </div>
+            )}
+            {loading && messages[messages.length - 1]?.role === 'user' && (
+              <div className="flex justify-start">
+                 <div className="max-w-lg p-3 rounded-2xl bg-slate-700 rounded-bl-none flex items-center">
+                    <Spinner /> <span className="ml-2 text-sm text-slate-400">Nexus is thinking...</span>
+                </div>
+              </div>
+            )}
+            <div ref={messagesEndRef} />
+          </div>
 
-        <div className="p-4 border-t border-slate-700">
-          {attachedFile && (
-            <div className="mb-2 p-2 bg-slate-700 rounded-lg flex items-center justify-between">
-              <div className="flex items-center gap-2 text-sm truncate">
-                {fileType === 'image' && <Icon name="image" className="w-5 h-5 text-slate-400 flex-shrink-0" />}
-                {fileType === 'audio' && <Icon name="audio" className="w-5 h-5 text-slate-400 flex-shrink-0" />}
-                <span className="truncate">{attachedFile.name}</span>
+          {saveError && <div className="m-4 p-3 bg-red-900/50 text-red-300 border border-red-700 rounded-lg" role="alert">{saveError}</div>}
+          {error && <div className="m-4 p-3 bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
+
+          <div className="p-4 border-t border-slate-700">
+            {attachments.length > 0 && (
+              <div className="mb-2 flex items-center gap-2 overflow-x-auto pb-1">
+                {attachments.map(attachment => attachment.type === 'image' ? (
+                  <div key={attachment.id} className="relative flex-shrink-0 group" title={`${attachment.name} (${formatBytes(attachment.size)})`}>
+                    <img
+                      src={`data:${attachment.mimeType};base64,${attachment.data}`}
+                      alt={attachment.name}
+                      className="w-16 h-16 object-cover rounded-lg border border-slate-600"
+                    />
+                    <button
+                      onClick={() => removeAttachment(attachment.id)}
+                      className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-slate-900 border border-slate-600 text-slate-300 hover:text-white hover:bg-slate-700"
+                      aria-label={`Remove ${attachment.name}`}
+                    >
+                      <Icon name="close" className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ) : (
+                  <div key={attachment.id} className="flex-shrink-0">
+                    <DocumentChip
+                      name={attachment.document.name}
+                      size={attachment.document.size}
+                      preview={attachment.document.text ? attachment.document.text.slice(0, 500) : 'PDF document'}
+                      onRemove={() => removeAttachment(attachment.id)}
+                    />
+                  </div>
+                ))}
+                <span className="flex-shrink-0 text-xs text-slate-500">{attachments.length}/{MAX_ATTACHMENTS}</span>
               </div>
-              <button onClick={removeAttachment} className="p-1 rounded-full hover:bg-slate-600 flex-shrink-0" aria-label="Remove attached file">
-                <Icon name="close" className="w-4 h-4" />
+            )}
+            <div className="flex items-center gap-2">
+              <input type="file" accept={`image/*,audio/*,${DOCUMENT_ACCEPT}`} multiple ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+              <button 
+                  onClick={() => fileInputRef.current?.click()} 
+                  className="p-3 rounded-full bg-slate-700 hover:bg-slate-600 transition-colors disabled:opacity-70 disabled:cursor-not-allowed" 
+                  aria-label="Attach a file"
+                  disabled={loading || isTranscribing}
+              >
+                  {isTranscribing ? <Spinner size="md" /> : <Icon name="attach" className="w-6 h-6" />}
               </button>
-            </div>
-          )}
-          <div className="flex items-center gap-2">
-            <input type="file" accept="image/*,audio/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
-            <button 
-                onClick={() => fileInputRef.current?.click()} 
-                className="p-3 rounded-full bg-slate-700 hover:bg-slate-600 transition-colors disabled:opacity-70 disabled:cursor-not-allowed" 
-                aria-label="Attach a file"
+              <PromptLibraryButton currentPrompt={input} onInsert={setInput} disabled={loading || isTranscribing} compact />
+              <button
+                  onClick={() => setIsSearchEnabled(prev => !prev)}
+                  className={`p-3 rounded-full transition-colors disabled:opacity-70 disabled:cursor-not-allowed ${isSearchEnabled ? 'bg-indigo-600 hover:bg-indigo-700 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
+                  aria-pressed={isSearchEnabled}
+                  aria-label="Search the web"
+                  title={isSearchEnabled
+                    ? "Web search is on: replies cite their sources, and the app's own tools (calculator, images) are off"
+                    : "Search the web and cite sources. This turns off the app's own tools (calculator, images) while on"}
+                  disabled={loading || isTranscribing}
+              >
+                  <Icon name="globe" className="w-6 h-6" />
+              </button>
+              <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onPaste={handlePaste}
+                onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+                placeholder={isTranscribing ? "Transcribing audio..." : "Type your message, or paste or drop files..."}
+                className="flex-1 p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-slate-800"
                 disabled={loading || isTranscribing}
-            >
-                {isTranscribing ? <Spinner size="md" /> : <Icon name="attach" className="w-6 h-6" />}
-            </button>
-            <input
-              type="text"
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-              placeholder={isTranscribing ? "Transcribing audio..." : "Type your message or attach a file..."}
-              className="flex-1 p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-slate-800"
-              disabled={loading || isTranscribing}
-            />
-            <button 
-                onClick={handleSend} 
-                disabled={loading || isTranscribing || (!input.trim() && !attachedFile)} 
-                className="p-3 rounded-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 transition-colors" 
-                aria-label="Send message"
-            >
-              <Icon name="send" className="w-6 h-6" />
-            </button>
+              />
+              {loading ? (
+                <button 
+                    onClick={handleStop} 
+                    className="p-3 rounded-full bg-red-600 hover:bg-red-700 transition-colors" 
+                    aria-label="Stop generating"
+                    title="Stop generating"
+                >
+                  <Icon name="stop" className="w-6 h-6" />
+                </button>
+              ) : (
+                <button 
+                    onClick={() => handleSend()} 
+                    disabled={isTranscribing || (!input.trim() && attachments.length === 0)} 
+                    className="p-3 rounded-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 transition-colors" 
+                    aria-label="Send message"
+                >
+                  <Icon name="send" className="w-6 h-6" />
+                </button>
+              )}
+            </div>
           </div>
         </div>
       </div>
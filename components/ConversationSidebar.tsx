@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Conversation } from '../types';
+import { Icon } from './Icon';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeConversationId,
+  disabled,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (conversation: Conversation) => {
+    setRenamingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (renamingId) {
+      onRename(renamingId, draftTitle);
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Are you sure you want to delete "${conversation.title}"? This action cannot be undone.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <aside className="w-48 sm:w-56 flex-shrink-0 border-r border-slate-700 flex flex-col">
+      <div className="p-3 border-b border-slate-700">
+        <button
+          onClick={onCreate}
+          disabled={disabled}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition-colors"
+        >
+          <Icon name="chat" className="w-4 h-4" />
+          <span>New Chat</span>
+        </button>
+      </div>
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.map((conversation) => {
+          const isActive = conversation.id === activeConversationId;
+          return (
+            <li
+              key={conversation.id}
+              className={`group flex items-center gap-1 rounded-md text-sm ${
+                isActive ? 'bg-slate-700 text-white' : 'text-slate-300 hover:bg-slate-700/60'
+              }`}
+            >
+              {renamingId === conversation.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="flex-1 min-w-0 m-1 p-1 bg-slate-900 border border-slate-600 rounded focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                  aria-label="Conversation title"
+                />
+              ) : (
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  disabled={disabled}
+                  className="flex-1 min-w-0 text-left px-2 py-2 truncate disabled:cursor-not-allowed"
+                  title={conversation.title}
+                >
+                  {conversation.title}
+                </button>
+              )}
+              {renamingId !== conversation.id && (
+                <div className={`flex items-center pr-1 ${isActive ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+                  <button onClick={() => startRename(conversation)} className="p-1 rounded hover:bg-slate-600" title="Rename conversation">
+                    <Icon name="edit" className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(conversation)}
+                    disabled={disabled}
+                    className="p-1 rounded text-red-300 hover:bg-red-900/60 disabled:cursor-not-allowed"
+                    title="Delete conversation"
+                  >
+                    <Icon name="trash" className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { formatBytes } from '../services/assetStore';
+import { Icon } from './Icon';
+
+interface DocumentChipProps {
+  name: string;
+  size: number;
+  /** Shown as the chip's tooltip, e.g. the start of the file's text. */
+  preview?: string;
+  /** Extra detail after the size, e.g. how much of a long file was sent. */
+  note?: string;
+  onRemove?: () => void;
+}
+
+/** An attached document, in the composer or in a sent message. */
+const DocumentChip: React.FC<DocumentChipProps> = ({ name, size, preview, note, onRemove }) => (
+  <div className="flex items-center gap-2 max-w-xs pl-2 pr-1 py-1 rounded-lg bg-slate-800/70 border border-slate-600 text-sm" title={preview ?? name}>
+    <Icon name="document" className="w-4 h-4 text-slate-400 flex-shrink-0" />
+    <span className="truncate text-slate-200">{name}</span>
+    <span className="flex-shrink-0 text-xs text-slate-400">{formatBytes(size)}{note ? ` · ${note}` : ''}</span>
+    {onRemove && (
+      <button onClick={onRemove} className="p-0.5 rounded-full text-slate-400 hover:text-white hover:bg-slate-600 flex-shrink-0" aria-label={`Remove ${name}`}>
+        <Icon name="close" className="w-3.5 h-3.5" />
+      </button>
+    )}
+  </div>
+);
+
+export default DocumentChip;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { EditSession, getStepPath } from '../hooks/useEditSessions';
+
+interface EditFilmstripProps {
+  session: EditSession;
+  /** Thumbnail URLs by asset id; steps whose image is missing show a placeholder. */
+  thumbnails: Record<string, string>;
+  compareStepId: string | null;
+  onGoToStep: (stepId: string) => void;
+  onCompareStep: (stepId: string) => void;
+  onSelectBranch: (stepId: string) => void;
+}
+
+export const stepLabel = (index: number) => (index === 0 ? 'Original' : `Step ${index}`);
+
+/** Every step of the selected branch, with the ones that can still be redone dimmed. */
+const EditFilmstrip: React.FC<EditFilmstripProps> = ({ session, thumbnails, compareStepId, onGoToStep, onCompareStep, onSelectBranch }) => {
+  const path = getStepPath(session);
+  const headIndex = path.findIndex(step => step.id === session.headId);
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {path.map((step, index) => {
+        const isHead = step.id === session.headId;
+        const siblings = step.parentId ? session.steps[step.parentId].childIds : [];
+        const branchIndex = siblings.indexOf(step.id);
+        const thumbnail = thumbnails[step.assetId];
+        return (
+          <div key={step.id} className={`flex-shrink-0 w-28 flex flex-col gap-1 ${index > headIndex ? 'opacity-50' : ''}`}>
+            <button
+              onClick={() => onGoToStep(step.id)}
+              className={`relative aspect-square rounded-lg overflow-hidden border-2 bg-slate-900/50 ${
+                isHead ? 'border-indigo-500' : step.id === compareStepId ? 'border-amber-500' : 'border-slate-700 hover:border-slate-500'
+              }`}
+              title={step.prompt || 'The original image'}
+            >
+              {thumbnail ? (
+                <img src={thumbnail} alt={stepLabel(index)} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-xs text-slate-500 p-1">Image no longer in history</div>
+              )}
+              {step.masked && (
+                <span className="absolute top-1 left-1 px-1 text-[10px] font-medium rounded bg-slate-900/80 text-slate-300">Area</span>
+              )}
+            </button>
+            <div className="flex items-center justify-between gap-1 text-xs">
+              <span className={`font-medium ${isHead ? 'text-indigo-300' : 'text-slate-300'}`}>{stepLabel(index)}</span>
+              {siblings.length > 1 && (
+                <div className="flex items-center gap-0.5 text-slate-400 select-none">
+                  <button
+                    onClick={() => onSelectBranch(siblings[branchIndex - 1])}
+                    disabled={branchIndex === 0}
+                    className="px-1 rounded hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
+                    aria-label="Previous branch"
+                  >
+                    &lt;
+                  </button>
+                  <span>{branchIndex + 1}/{siblings.length}</span>
+                  <button
+                    onClick={() => onSelectBranch(siblings[branchIndex + 1])}
+                    disabled={branchIndex === siblings.length - 1}
+                    className="px-1 rounded hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
+                    aria-label="Next branch"
+                  >
+                    &gt;
+                  </button>
+                </div>
+              )}
+            </div>
+            <p className="text-xs text-slate-500 truncate" title={step.prompt}>{step.prompt || 'Uploaded image'}</p>
+            {!isHead && (
+              <button
+                onClick={() => onCompareStep(step.id)}
+                className={`text-xs font-medium text-left ${step.id === compareStepId ? 'text-amber-400' : 'text-slate-400 hover:text-white'}`}
+              >
+                {step.id === compareStepId ? 'Comparing' : 'Compare'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EditFilmstrip;
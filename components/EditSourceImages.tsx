@@ -0,0 +1,114 @@
+import React, { useRef, useState } from 'react';
+import { Icon } from './Icon';
+
+export const CURRENT_IMAGE_SLOT_ID = 'current';
+
+export interface EditSourceSlot {
+  id: string;
+  label: string;
+  /** Data URL of a reference image; null for the slot holding the image being edited. */
+  dataUrl: string | null;
+  /** Set once the reference has been stored with an edit, so later edits reuse that copy. */
+  assetId?: string;
+}
+
+interface EditSourceImagesProps {
+  slots: EditSourceSlot[];
+  currentImageUrl: string;
+  maxSlots: number;
+  disabled?: boolean;
+  onChange: (slots: EditSourceSlot[]) => void;
+  onAddFiles: (files: File[]) => void;
+}
+
+/** The ordered images sent with an edit: the current image plus labeled references, reordered by dragging. */
+const EditSourceImages: React.FC<EditSourceImagesProps> = ({ slots, currentImageUrl, maxSlots, disabled, onChange, onAddFiles }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const moveSlot = (from: number, to: number) => {
+    const reordered = [...slots];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    onChange(reordered);
+  };
+
+  const updateLabel = (id: string, label: string) => {
+    onChange(slots.map(slot => (slot.id === id ? { ...slot, label } : slot)));
+  };
+
+  const removeSlot = (id: string) => {
+    onChange(slots.filter(slot => slot.id !== id));
+  };
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {slots.map((slot, index) => {
+        const isCurrent = slot.id === CURRENT_IMAGE_SLOT_ID;
+        return (
+          <div
+            key={slot.id}
+            draggable={!disabled}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragIndex !== null && dragIndex !== index) moveSlot(dragIndex, index);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            className={`flex-shrink-0 w-32 flex flex-col gap-1 p-2 rounded-lg border bg-slate-900/50 ${
+              dragIndex === index ? 'opacity-50 border-indigo-500' : isCurrent ? 'border-indigo-700' : 'border-slate-700'
+            } ${disabled ? '' : 'cursor-grab'}`}
+          >
+            <div className="flex justify-between items-center text-xs">
+              <span className="font-medium text-slate-300">Image {index + 1}</span>
+              {isCurrent ? (
+                <span className="text-indigo-300">Editing</span>
+              ) : (
+                <button onClick={() => removeSlot(slot.id)} disabled={disabled} className="text-slate-500 hover:text-red-400" title="Remove image">
+                  <Icon name="close" className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            <img src={isCurrent ? currentImageUrl : slot.dataUrl!} alt={slot.label || `Image ${index + 1}`} className="w-full aspect-square object-cover rounded-md" draggable={false} />
+            <input
+              type="text"
+              value={slot.label}
+              onChange={(e) => updateLabel(slot.id, e.target.value)}
+              placeholder={isCurrent ? 'e.g., scene' : 'e.g., product'}
+              disabled={disabled}
+              className="w-full px-2 py-1 text-xs bg-slate-900 border border-slate-600 rounded-md focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+              aria-label={`Label for image ${index + 1}`}
+            />
+          </div>
+        );
+      })}
+      {slots.length < maxSlots && (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => { e.preventDefault(); onAddFiles(Array.from(e.dataTransfer.files)); }}
+          disabled={disabled}
+          className="flex-shrink-0 w-32 min-h-[10rem] flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed border-slate-700 text-slate-500 hover:text-slate-300 hover:border-slate-500 transition-colors disabled:opacity-50"
+        >
+          <Icon name="image" className="w-8 h-8" />
+          <span className="text-xs text-center px-2">Add reference image</span>
+        </button>
+      )}
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept="image/*"
+        multiple
+        onChange={(e) => {
+          onAddFiles(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default EditSourceImages;
@@ -10,7 +10,7 @@ interface HeaderProps {
 
 const NavButton: React.FC<{
   label: string;
-  icon: 'image' | 'video' | 'chat' | 'edit-image';
+  icon: 'image' | 'video' | 'chat' | 'edit-image' | 'library';
   isActive: boolean;
   onClick: () => void;
 }> = ({ label, icon, isActive, onClick }) => (
@@ -62,6 +62,12 @@ const Header: React.FC<HeaderProps> = ({ activeTab, setActiveTab }) => {
             isActive={activeTab === Tab.ImageEditor}
             onClick={() => setActiveTab(Tab.ImageEditor)}
           />
+          <NavButton
+            label="Media Library"
+            icon="library"
+            isActive={activeTab === Tab.Library}
+            onClick={() => setActiveTab(Tab.Library)}
+          />
         </div>
       </nav>
     </header>
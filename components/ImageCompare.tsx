@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ImageDiff, diffImages, loadImage } from '../services/imageProcessing';
+import Spinner from './Spinner';
+
+type CompareMode = 'slider' | 'onion' | 'diff';
+
+const modes: { value: CompareMode; label: string }[] = [
+  { value: 'slider', label: 'Slider' },
+  { value: 'onion', label: 'Onion Skin' },
+  { value: 'diff', label: 'Difference' },
+];
+
+interface ImageCompareProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+/**
+ * Overlays two images with a split slider, an opacity blend or a heatmap of the changed pixels.
+ * Both images are shown at the size of `afterUrl`. Fills its parent, which must have a definite size.
+ */
+const ImageCompare: React.FC<ImageCompareProps> = ({ beforeUrl, afterUrl, beforeLabel = 'Before', afterLabel = 'After' }) => {
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [split, setSplit] = useState<number>(50);
+  const [blend, setBlend] = useState<number>(50);
+  const [diff, setDiff] = useState<ImageDiff | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [stageSize, setStageSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+  const stageRef = useRef<HTMLDivElement>(null);
+  const isDraggingRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(afterUrl)
+      .then(image => { if (!cancelled) setImageSize({ width: image.naturalWidth, height: image.naturalHeight }); })
+      .catch(error => console.error("Could not load the image to compare", error));
+    return () => { cancelled = true; };
+  }, [afterUrl]);
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, []);
+
+  // The heatmap is only worked out once it is asked for, since it reads every pixel of both images.
+  useEffect(() => {
+    setDiff(null);
+    setDiffError(null);
+    if (mode !== 'diff') return;
+    let cancelled = false;
+    // Diffed at the size of the after image so the heatmap lines up with the other modes.
+    diffImages(afterUrl, beforeUrl)
+      .then(result => { if (!cancelled) setDiff(result); })
+      .catch(error => {
+        console.error("Could not compare the images", error);
+        if (!cancelled) setDiffError(error.message || 'Could not compare the images.');
+      });
+    return () => { cancelled = true; };
+  }, [mode, beforeUrl, afterUrl]);
+
+  const scale = imageSize ? Math.min(stageSize.width / imageSize.width, stageSize.height / imageSize.height, 1) : 0;
+  const displayWidth = imageSize ? imageSize.width * scale : 0;
+  const displayHeight = imageSize ? imageSize.height * scale : 0;
+
+  const updateSplit = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, ((event.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {modes.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setMode(value)}
+            className={`px-2.5 py-1 rounded-md font-medium transition-colors ${
+              mode === value ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        {mode === 'onion' && (
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={blend}
+            onChange={(e) => setBlend(Number(e.target.value))}
+            className="w-24 accent-indigo-500"
+            title={`${100 - blend}% ${beforeLabel}, ${blend}% ${afterLabel}`}
+          />
+        )}
+        {mode === 'diff' && diff && (
+          <span className="text-slate-400">{(diff.changedRatio * 100).toFixed(1)}% of pixels changed</span>
+        )}
+      </div>
+      <div ref={stageRef} className="flex-1 min-h-0 flex items-center justify-center">
+        {imageSize && mode === 'diff' && (
+          diff ? (
+            <img src={diff.heatmapUrl} alt="Changed pixels" className="rounded-md" style={{ width: displayWidth, height: displayHeight }} />
+          ) : diffError ? (
+            <p className="text-sm text-red-300">{diffError}</p>
+          ) : (
+            <Spinner size="lg" />
+          )
+        )}
+        {imageSize && mode !== 'diff' && (
+          <div
+            className={`relative select-none ${mode === 'slider' ? 'cursor-ew-resize touch-none' : ''}`}
+            style={{ width: displayWidth, height: displayHeight }}
+            onPointerDown={(e) => {
+              if (mode !== 'slider') return;
+              isDraggingRef.current = true;
+              e.currentTarget.setPointerCapture(e.pointerId);
+              updateSplit(e);
+            }}
+            onPointerMove={(e) => isDraggingRef.current && updateSplit(e)}
+            onPointerUp={() => { isDraggingRef.current = false; }}
+            onPointerCancel={() => { isDraggingRef.current = false; }}
+          >
+            <img src={afterUrl} alt={afterLabel} className="absolute inset-0 w-full h-full rounded-md" draggable={false} />
+            <img
+              src={beforeUrl}
+              alt={beforeLabel}
+              className="absolute inset-0 w-full h-full rounded-md"
+              draggable={false}
+              style={mode === 'slider' ? { clipPath: `inset(0 ${100 - split}% 0 0)` } : { opacity: 1 - blend / 100 }}
+            />
+            {mode === 'slider' && (
+              <>
+                <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${split}%` }} />
+                <span className="absolute top-2 left-2 px-1.5 py-0.5 text-xs rounded bg-slate-900/80 text-slate-200 pointer-events-none">{beforeLabel}</span>
+                <span className="absolute top-2 right-2 px-1.5 py-0.5 text-xs rounded bg-slate-900/80 text-slate-200 pointer-events-none">{afterLabel}</span>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageCompare;
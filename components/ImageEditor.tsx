@@ -1,7 +1,18 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { editImage } from '../services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { ASSET_COLLECTIONS, blobToDataUrl, dataUrlToBlob, getAsset, migrateLocalStorageHistory, putAsset } from '../services/assetStore';
+import { compositeWithMask, extensionForMimeType, getMimeType } from '../services/imageProcessing';
+import { useAIProvider } from '../hooks/useAIProvider';
+import { AssetItem, useAssetCollection } from '../hooks/useAssetCollection';
+import { EditSession, getStepPath, useEditSessions } from '../hooks/useEditSessions';
+import EditFilmstrip, { stepLabel } from './EditFilmstrip';
+import ImageCompare from './ImageCompare';
+import EditSourceImages, { CURRENT_IMAGE_SLOT_ID, EditSourceSlot } from './EditSourceImages';
+import ImageExportPanel from './ImageExportPanel';
+import MaskEditor from './MaskEditor';
+import PromptLibraryButton from './PromptLibraryButton';
 import Spinner from './Spinner';
+import StorageUsageLabel from './StorageUsageLabel';
 import { Icon } from './Icon';
 
 const fileToDataUrl = (file: File): Promise<string> => {
@@ -13,132 +24,599 @@ const fileToDataUrl = (file: File): Promise<string> => {
   });
 };
 
-interface EditHistoryItem {
+// Uploaded originals are stored once in their own collection and linked from each edit
+// through `sourceIds`, so they are removed together with the last edit that uses them.
+// Chained edits link to the session's original rather than to the previous step, so deleting
+// one step from the history never takes the earlier steps with it.
+const SOURCE_COLLECTION = ASSET_COLLECTIONS.imageEditSources;
+// The current image plus up to three references; the image model handles a few inputs best.
+const MAX_SOURCE_IMAGES = 4;
+
+const initialSourceSlots: EditSourceSlot[] = [{ id: CURRENT_IMAGE_SLOT_ID, label: '', dataUrl: null }];
+
+/** One of the images an edit was made from, in the order they were sent. */
+interface EditInput {
+  assetId: string;
+  label?: string;
+  /** Whether this is the image that was edited rather than a reference. */
+  isTarget?: boolean;
+}
+
+interface EditHistoryMetadata {
+  prompt: string;
+  model?: string;
+  /** Whether the edit was limited to a painted region. */
+  masked?: boolean;
+  /** The edit session the edit was made in, so selecting it resumes that session. */
+  sessionId?: string;
+  /** Every image sent with the edit, when reference images were used. */
+  inputs?: EditInput[];
+}
+
+type EditHistoryItem = AssetItem<EditHistoryMetadata>;
+
+// Shape of the history previously kept in localStorage under 'imageEditingHistory'.
+interface LegacyEditHistoryItem {
   id: number;
   prompt: string;
   originalUrl: string;
   editedUrl: string;
 }
 
-const ImageEditor: React.FC = () => {
-  const [originalImage, setOriginalImage] = useState<string | null>(null);
+const migrateLegacyHistory = () =>
+  migrateLocalStorageHistory<LegacyEditHistoryItem, EditHistoryMetadata>(
+    'imageEditingHistory',
+    ASSET_COLLECTIONS.imageEdits,
+    ({ id, prompt, originalUrl, editedUrl }) => ({
+      id: `legacy-edit-${id}`,
+      createdAt: id,
+      dataUrl: editedUrl,
+      metadata: { prompt },
+      sources: [{ id: `legacy-edit-source-${id}`, dataUrl: originalUrl, collection: SOURCE_COLLECTION }],
+    }),
+  );
+
+// The image an edit was made from: the previous step of its session, or else its original.
+const getBeforeAssetId = (item: EditHistoryItem, sessions: Record<string, EditSession>): string | null => {
+  const session = item.metadata.sessionId ? sessions[item.metadata.sessionId] : undefined;
+  const step = session && Object.values(session.steps).find(step => step.assetId === item.id);
+  const parent = step?.parentId ? session!.steps[step.parentId] : undefined;
+  return parent?.assetId ?? item.sourceIds[0] ?? null;
+};
+
+interface EditReviewModalProps {
+  items: EditHistoryItem[];
+  index: number;
+  sessions: Record<string, EditSession>;
+  onIndexChange: (index: number) => void;
+  onToggleApproved: (item: EditHistoryItem) => void;
+  onOpenInEditor: (item: EditHistoryItem) => void;
+  onClose: () => void;
+}
+
+/** Steps through history items comparing each edit with the image it was made from. */
+const EditReviewModal: React.FC<EditReviewModalProps> = ({ items, index, sessions, onIndexChange, onToggleApproved, onOpenInEditor, onClose }) => {
+  const item = items[index];
+  const beforeAssetId = getBeforeAssetId(item, sessions);
+  const [beforeUrl, setBeforeUrl] = useState<string | null>(null);
+  const [isBeforeMissing, setIsBeforeMissing] = useState<boolean>(false);
+
+  useEffect(() => {
+    setBeforeUrl(null);
+    setIsBeforeMissing(false);
+    if (!beforeAssetId) {
+      setIsBeforeMissing(true);
+      return;
+    }
+    let cancelled = false;
+    let url: string | null = null;
+    getAsset(beforeAssetId)
+      .then(record => {
+        if (cancelled) return;
+        if (!record) {
+          setIsBeforeMissing(true);
+          return;
+        }
+        url = URL.createObjectURL(record.blob);
+        setBeforeUrl(url);
+      })
+      .catch(e => {
+        console.error("Could not load the image an edit was made from", e);
+        if (!cancelled) setIsBeforeMissing(true);
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [beforeAssetId]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+      else if (event.key === 'ArrowLeft' && index > 0) onIndexChange(index - 1);
+      else if (event.key === 'ArrowRight' && index < items.length - 1) onIndexChange(index + 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, items.length, onClose, onIndexChange]);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg border border-slate-700 max-w-3xl w-full p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start gap-4 mb-3">
+          <div>
+            <p className="text-sm text-slate-200">{item.metadata.prompt}</p>
+            {item.metadata.inputs && (
+              <p className="text-xs text-slate-500 mt-1">
+                Made from {item.metadata.inputs.map((input, index) => `Image ${index + 1}${input.label ? ` (${input.label})` : ''}${input.isTarget ? ' [edited]' : ''}`).join(', ')}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Close">
+            <Icon name="close" className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="h-[60vh]">
+          {beforeUrl ? (
+            <ImageCompare beforeUrl={beforeUrl} afterUrl={item.url} beforeLabel="Before" afterLabel="Edited" />
+          ) : isBeforeMissing ? (
+            <div className="h-full flex flex-col items-center justify-center gap-2">
+              <img src={item.url} alt={item.metadata.prompt} className="max-w-full min-h-0 flex-1 object-contain rounded-lg" />
+              <p className="text-xs text-slate-500">The image this edit was made from is no longer stored.</p>
+            </div>
+          ) : (
+            <div className="h-full flex items-center justify-center"><Spinner size="lg" /></div>
+          )}
+        </div>
+        <div className="mt-3 flex flex-wrap justify-between items-center gap-3">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onIndexChange(index - 1)}
+              disabled={index === 0}
+              className="px-3 py-1.5 text-sm font-medium rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              aria-label="Previous edit"
+            >
+              &lt;
+            </button>
+            <span className="text-xs text-slate-400">{index + 1} of {items.length}</span>
+            <button
+              onClick={() => onIndexChange(index + 1)}
+              disabled={index === items.length - 1}
+              className="px-3 py-1.5 text-sm font-medium rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              aria-label="Next edit"
+            >
+              &gt;
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onToggleApproved(item)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                item.favorite ? 'bg-amber-900/50 text-amber-300 hover:bg-amber-900/80' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'
+              }`}
+              title="Approved edits are kept as favorites and never evicted from the history"
+            >
+              <Icon name={item.favorite ? 'star-filled' : 'star'} className="w-4 h-4" />
+              <span>{item.favorite ? 'Approved' : 'Approve'}</span>
+            </button>
+            <button
+              onClick={() => onOpenInEditor(item)}
+              className="px-3 py-1.5 text-sm font-medium rounded-md bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+            >
+              Open in Editor
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ImageEditorProps {
+  /** A media library asset to load as the image to edit. */
+  incomingAssetId?: string | null;
+  onIncomingAssetHandled?: () => void;
+}
+
+// Keyboard shortcuts shouldn't undo steps while the user is typing a prompt.
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ incomingAssetId, onIncomingAssetHandled }) => {
+  const provider = useAIProvider();
+  const {
+    sessions,
+    activeSession,
+    selectSession,
+    startSession,
+    deleteSession,
+    referencedAssetIds,
+    forgetDeletedAssets,
+    addStep,
+    goToStep,
+    undo,
+    redo,
+    selectBranch,
+  } = useEditSessions();
+  // The image of the current step as a data URL, which is what the next edit is applied to.
+  const [currentImage, setCurrentImage] = useState<string | null>(null);
+  const [isLoadingStep, setIsLoadingStep] = useState<boolean>(false);
+  // Object URL of the session's original, which isn't part of the edit history.
+  const [originalUrl, setOriginalUrl] = useState<string | null>(null);
+  const [compareStepId, setCompareStepId] = useState<string | null>(null);
+  const [isOverlayCompare, setIsOverlayCompare] = useState<boolean>(false);
+  const [reviewIndex, setReviewIndex] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [sourceSlots, setSourceSlots] = useState<EditSourceSlot[]>(initialSourceSlots);
   const [prompt, setPrompt] = useState<string>('');
-  const [editedImage, setEditedImage] = useState<string | null>(null);
   const [responseText, setResponseText] = useState<string | null>(null);
+  const [isMasking, setIsMasking] = useState<boolean>(false);
+  const [mask, setMask] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [history, setHistory] = useState<EditHistoryItem[]>([]);
+  const {
+    items: history,
+    usage,
+    addAsset,
+    setFavorite,
+    clear: clearHistory,
+  } = useAssetCollection<EditHistoryMetadata>(ASSET_COLLECTIONS.imageEdits, { maxItems: 100, keepIds: referencedAssetIds, migrate: migrateLegacyHistory });
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const headStep = activeSession ? activeSession.steps[activeSession.headId] : null;
+  const originalAssetId = activeSession ? activeSession.steps[activeSession.rootId].assetId : null;
+
+  const historyById = useMemo(() => new Map(history.map(item => [item.id, item])), [history]);
+
+  const thumbnails = useMemo(() => {
+    const urls: Record<string, string> = {};
+    history.forEach(item => { urls[item.id] = item.thumbnailUrl; });
+    if (originalAssetId && originalUrl) urls[originalAssetId] = originalUrl;
+    return urls;
+  }, [history, originalAssetId, originalUrl]);
+
   useEffect(() => {
-    try {
-      const storedHistory = localStorage.getItem('imageEditingHistory');
-      if (storedHistory) {
-        setHistory(JSON.parse(storedHistory));
+    setOriginalUrl(null);
+    if (!originalAssetId) return;
+    let cancelled = false;
+    let url: string | null = null;
+    getAsset(originalAssetId)
+      .then(record => {
+        if (cancelled || !record) return;
+        url = URL.createObjectURL(record.blob);
+        setOriginalUrl(url);
+      })
+      .catch(e => console.error("Could not load the session's original image", e));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [originalAssetId]);
+
+  useEffect(() => {
+    setCurrentImage(null);
+    if (!headStep) return;
+    let cancelled = false;
+    setIsLoadingStep(true);
+    (async () => {
+      try {
+        const record = await getAsset(headStep.assetId);
+        if (!record) throw new Error('The image for this step is no longer in the history.');
+        const url = await blobToDataUrl(record.blob);
+        if (!cancelled) setCurrentImage(url);
+      } catch (e: any) {
+        if (!cancelled) setError(e.message || 'Failed to load the image for this step.');
+      } finally {
+        if (!cancelled) setIsLoadingStep(false);
       }
-    } catch (error) {
-      console.error("Failed to load image editing history from localStorage", error);
-    }
-  }, []);
+    })();
+    return () => { cancelled = true; };
+  }, [headStep?.assetId]);
+
+  // A mask only applies to the image it was painted on.
+  useEffect(() => {
+    setMask(null);
+  }, [currentImage]);
+
+  useEffect(() => {
+    setCompareStepId(null);
+  }, [activeSession?.id]);
+
+  useEffect(() => {
+    if (!activeSession) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTypingTarget(event.target) || loading) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo(activeSession.id);
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo(activeSession.id);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeSession, loading]);
+
+  // Starts a new session from an image that isn't stored yet.
+  const startSessionFromImage = async (blob: Blob) => {
+    const source = await putAsset({ collection: SOURCE_COLLECTION, blob, metadata: {} });
+    startSession(source.id);
+    setResponseText(null);
+    setError(null);
+  };
+
+  useEffect(() => {
+    if (!incomingAssetId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const asset = await getAsset(incomingAssetId);
+        if (!asset) throw new Error('That item is no longer in the media library.');
+        if (cancelled) return;
+        // The library asset belongs to another tool, so the session stores its own copy as the
+        // original rather than linking to it and deleting it along with the last edit.
+        await startSessionFromImage(asset.blob);
+      } catch (e: any) {
+        if (!cancelled) setError(e.message || 'Failed to load the image from the media library.');
+      } finally {
+        if (!cancelled) onIncomingAssetHandled?.();
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [incomingAssetId]);
 
   const handleImageUpload = useCallback(async (file: File) => {
     if (!file.type.startsWith('image/')) {
       setError('Please upload a valid image file.');
       return;
     }
-    setError(null);
-    setEditedImage(null);
+    try {
+      await startSessionFromImage(dataUrlToBlob(await fileToDataUrl(file)));
+    } catch (e: any) {
+      setError(e.message || 'Failed to store the uploaded image.');
+    }
+  }, [startSession]);
+
+  const handleAddReferences = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length < files.length) {
+      setError('Only image files can be used as references.');
+    }
+    const room = MAX_SOURCE_IMAGES - sourceSlots.length;
+    if (images.length > room) {
+      setError(`An edit can use at most ${MAX_SOURCE_IMAGES} images.`);
+    }
+    try {
+      const added = await Promise.all(images.slice(0, room).map(async (file, index): Promise<EditSourceSlot> => ({
+        id: `reference-${Date.now()}-${index}`,
+        label: file.name.replace(/\.[^.]+$/, ''),
+        dataUrl: await fileToDataUrl(file),
+      })));
+      setSourceSlots(prev => [...prev, ...added].slice(0, MAX_SOURCE_IMAGES));
+    } catch (e: any) {
+      setError(e.message || 'Failed to read the reference image.');
+    }
+  };
+
+  // Stores references that haven't been saved with an earlier edit and returns the slots with their asset ids.
+  const storeReferences = async (slots: EditSourceSlot[]): Promise<EditSourceSlot[]> => {
+    const stored = await Promise.all(slots.map(async slot => {
+      if (slot.id === CURRENT_IMAGE_SLOT_ID || slot.assetId) return slot;
+      const record = await putAsset({ collection: SOURCE_COLLECTION, blob: dataUrlToBlob(slot.dataUrl!), metadata: {} });
+      return { ...slot, assetId: record.id };
+    }));
+    setSourceSlots(prev => prev.map(slot => stored.find(storedSlot => storedSlot.id === slot.id) ?? slot));
+    return stored;
+  };
+
+  const handleCloseSession = () => {
+    if (!activeSession) return;
+    // A session without edits has nothing worth resuming.
+    if (Object.keys(activeSession.steps).length === 1) {
+      deleteSession(activeSession.id);
+    } else {
+      selectSession(null);
+    }
     setResponseText(null);
-    const url = await fileToDataUrl(file);
-    setOriginalImage(url);
-  }, []);
+  };
 
   const handleGenerate = useCallback(async () => {
     if (!prompt) {
       setError('Please enter a prompt to describe your edit.');
       return;
     }
-    if (!originalImage) {
+    if (!activeSession || !headStep || !originalAssetId || !currentImage) {
       setError('Please upload an image to edit.');
       return;
     }
+    const sessionId = activeSession.id;
+    const parentId = headStep.id;
     setLoading(true);
     setError(null);
-    setEditedImage(null);
     setResponseText(null);
     
     try {
-      // Extract base64 data and mime type from data URL
-      const [header, data] = originalImage.split(',');
-      const mimeType = header.match(/:(.*?);/)?.[1] || 'image/png';
+      const slots = sourceSlots;
+      const images = slots.map(slot => {
+        const url = slot.id === CURRENT_IMAGE_SLOT_ID ? currentImage : slot.dataUrl!;
+        return { data: url.split(',')[1], mimeType: getMimeType(url), label: slot.label.trim() || undefined };
+      });
+
+      const result = await provider.editImage(prompt, images, {
+        targetIndex: slots.findIndex(slot => slot.id === CURRENT_IMAGE_SLOT_ID),
+        mask: mask ? { data: mask.split(',')[1], mimeType: 'image/png' } : undefined,
+      });
+      // Models may still change pixels outside the mask, so only the masked region of the
+      // result is kept and everything else comes from the original.
+      const imageUrl = result.imageUrl && mask ? await compositeWithMask(currentImage, result.imageUrl, mask) : result.imageUrl;
 
-      const result = await editImage(prompt, { data, mimeType });
-      
-      if (result.imageUrl) {
-        setEditedImage(result.imageUrl);
-      }
       if (result.text) {
         setResponseText(result.text);
       }
 
-      const newHistoryItem: EditHistoryItem = {
-        id: Date.now(),
-        prompt,
-        originalUrl: originalImage,
-        editedUrl: result.imageUrl!,
-      };
-      const updatedHistory = [newHistoryItem, ...history].slice(0, 20); // Keep last 20 edits
-      setHistory(updatedHistory);
-      localStorage.setItem('imageEditingHistory', JSON.stringify(updatedHistory));
+      if (imageUrl) {
+        try {
+          const metadata: EditHistoryMetadata = { prompt, model: provider.models.imageEdit, masked: !!mask, sessionId };
+          let referenceIds: string[] = [];
+          if (slots.length > 1) {
+            const stored = await storeReferences(slots);
+            referenceIds = stored.filter(slot => slot.assetId).map(slot => slot.assetId!);
+            metadata.inputs = stored.map(slot => (slot.id === CURRENT_IMAGE_SLOT_ID
+              ? { assetId: headStep.assetId, label: slot.label.trim() || undefined, isTarget: true }
+              : { assetId: slot.assetId!, label: slot.label.trim() || undefined }));
+          }
+          const item = await addAsset(imageUrl, metadata, [originalAssetId, ...referenceIds]);
+          addStep(sessionId, parentId, { assetId: item.id, prompt, masked: !!mask });
+          setCompareStepId(null);
+        } catch (e: any) {
+          setError(`The edit succeeded but could not be saved to history: ${e.message}`);
+        }
+      }
 
     } catch (e: any) {
       setError(e.message || 'Failed to edit image. Please try again.');
     } finally {
       setLoading(false);
     }
-  }, [prompt, originalImage, history]);
+  }, [prompt, activeSession, headStep, originalAssetId, currentImage, sourceSlots, mask, provider, addAsset, addStep]);
   
-  const handleSelectFromHistory = (item: EditHistoryItem) => {
-    setPrompt(item.prompt);
-    setOriginalImage(item.originalUrl);
-    setEditedImage(item.editedUrl);
+  // Puts back the references an edit was made with, in their original order, skipping any that were deleted.
+  const restoreSourceSlots = async (inputs: EditInput[] | undefined) => {
+    if (!inputs) {
+      setSourceSlots(initialSourceSlots);
+      return;
+    }
+    try {
+      const slots = await Promise.all(inputs.map(async (input): Promise<EditSourceSlot | null> => {
+        if (input.isTarget) return { id: CURRENT_IMAGE_SLOT_ID, label: input.label ?? '', dataUrl: null };
+        const record = await getAsset(input.assetId);
+        return record ? { id: input.assetId, label: input.label ?? '', dataUrl: await blobToDataUrl(record.blob), assetId: input.assetId } : null;
+      }));
+      setSourceSlots(slots.filter((slot): slot is EditSourceSlot => slot !== null));
+    } catch (e: any) {
+      setError(e.message || 'Failed to load the reference images.');
+    }
+  };
+
+  const handleSelectFromHistory = async (item: EditHistoryItem) => {
+    setPrompt(item.metadata.prompt);
     setError(null);
     setResponseText(null);
     window.scrollTo({ top: 0, behavior: 'smooth' });
+    restoreSourceSlots(item.metadata.inputs);
+
+    const session = item.metadata.sessionId ? sessions[item.metadata.sessionId] : undefined;
+    const step = session && Object.values(session.steps).find(step => step.assetId === item.id);
+    if (session && step) {
+      selectSession(session.id);
+      goToStep(session.id, step.id);
+      return;
+    }
+    // Edits made before sessions existed, or whose session was forgotten, start a new one.
+    try {
+      const source = item.sourceIds[0] ? await getAsset(item.sourceIds[0]) : null;
+      if (source) {
+        startSession(source.id, { assetId: item.id, prompt: item.metadata.prompt, masked: item.metadata.masked });
+      } else {
+        await startSessionFromImage(item.blob);
+      }
+    } catch (e: any) {
+      setError(e.message || 'Failed to load the original image.');
+    }
   };
   
   const handleClearHistory = () => {
-    if (window.confirm('Are you sure you want to clear the entire image editing history? This action cannot be undone.')) {
-      setHistory([]);
-      localStorage.removeItem('imageEditingHistory');
+    if (window.confirm('Are you sure you want to clear the entire image editing history? Editing sessions built on it are closed too. This action cannot be undone.')) {
+      clearHistory()
+        .then(forgetDeletedAssets)
+        .catch(e => setError(e.message || 'Failed to clear the image editing history.'));
     }
   };
 
+  const stepPath = activeSession ? getStepPath(activeSession) : [];
+  const headIndex = stepPath.findIndex(step => step.id === headStep?.id);
+  // Compares against the chosen step, or the step before the current one.
+  const compareStep = (compareStepId !== headStep?.id && stepPath.find(step => step.id === compareStepId))
+    || (headStep?.parentId ? activeSession!.steps[headStep.parentId] : null);
+  const compareIndex = compareStep ? stepPath.findIndex(step => step.id === compareStep.id) : -1;
+  const compareUrl = compareStep
+    ? compareStep.id === activeSession?.rootId ? originalUrl : historyById.get(compareStep.assetId)?.url ?? null
+    : null;
+  // Overlays are always shown from the earlier step to the later one.
+  const [beforeUrl, afterUrl, beforeIndex, afterIndex] = compareIndex < headIndex
+    ? [compareUrl, currentImage, compareIndex, headIndex]
+    : [currentImage, compareUrl, headIndex, compareIndex];
+  const isForking = !!headStep && headStep.childIds.length > 0;
+  const sortedSessions = Object.values(sessions).sort((a, b) => b.updatedAt - a.updatedAt);
 
   return (
     <div className="bg-slate-800 p-6 rounded-lg shadow-xl border border-slate-700 animate-fade-in">
-      <h2 className="text-2xl font-bold mb-4 text-slate-100">AI Image Editor (Gemini)</h2>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-slate-100">AI Image Editor (Gemini)</h2>
+        {sortedSessions.length > 0 && (
+          <select
+            value={activeSession?.id ?? ''}
+            onChange={(e) => { selectSession(e.target.value || null); setResponseText(null); }}
+            className="max-w-xs p-2 text-sm bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            title="Resume an earlier editing session"
+          >
+            <option value="">Resume a session…</option>
+            {sortedSessions.map(session => (
+              <option key={session.id} value={session.id}>
+                {session.title} ({Object.keys(session.steps).length - 1} edits, {new Date(session.updatedAt).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
       
       <div className="grid md:grid-cols-2 gap-6">
-        {/* Original Image Panel */}
+        {/* Current Step Panel */}
         <div className="flex flex-col gap-3">
-          <h3 className="text-lg font-semibold text-slate-300">1. Upload an Image</h3>
+          <h3 className="text-lg font-semibold text-slate-300">
+            1. {activeSession ? `Current Image · ${stepLabel(headIndex)}` : 'Upload an Image'}
+          </h3>
           <div 
             className="w-full aspect-square bg-slate-900/50 rounded-lg border-2 border-dashed border-slate-700 flex items-center justify-center p-4 relative"
             onDragOver={(e) => e.preventDefault()}
             onDrop={(e) => { e.preventDefault(); e.dataTransfer.files[0] && handleImageUpload(e.dataTransfer.files[0]); }}
           >
-            {originalImage ? (
+            {currentImage && isMasking ? (
+              <MaskEditor imageUrl={currentImage} onMaskChange={setMask} />
+            ) : currentImage ? (
               <>
-                <img src={originalImage} alt="Original" className="max-w-full max-h-full object-contain rounded-md" />
-                 <button 
-                  onClick={() => setOriginalImage(null)} 
+                <img src={currentImage} alt="Current step" className="max-w-full max-h-full object-contain rounded-md" />
+                <div className="absolute bottom-4 right-4 flex gap-2">
+                  <button
+                    onClick={() => setIsExporting(true)}
+                    className="bg-slate-900/70 text-white p-2 rounded-full hover:bg-indigo-600 transition-all"
+                    title="Crop, Resize and Export"
+                  >
+                    <Icon name="adjustments" className="w-6 h-6" />
+                  </button>
+                  <a
+                    href={currentImage}
+                    download={`nexus-ai-edited-${Date.now()}.${extensionForMimeType(getMimeType(currentImage))}`}
+                    className="bg-slate-900/70 text-white p-2 rounded-full hover:bg-indigo-600 transition-all"
+                    title="Download Image"
+                  >
+                    <Icon name="download" className="w-6 h-6" />
+                  </a>
+                </div>
+                <button 
+                  onClick={handleCloseSession} 
                   className="absolute top-2 right-2 bg-slate-900/70 text-white p-1.5 rounded-full hover:bg-red-600 transition-all"
-                  title="Remove Image"
+                  title="Close Session"
                 >
                     <Icon name="close" className="w-5 h-5" />
-                 </button>
+                </button>
               </>
+            ) : activeSession && isLoadingStep ? (
+              <Spinner size="lg" />
+            ) : activeSession ? (
+              <p className="text-center text-slate-500">The image for this step could not be loaded. Undo or pick another step.</p>
             ) : (
               <div className="text-center text-slate-500">
                 <Icon name="image" className="w-16 h-16 mx-auto text-slate-600" />
@@ -153,39 +631,71 @@ const ImageEditor: React.FC = () => {
             accept="image/*"
             onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0])}
           />
-          <button
-            onClick={() => fileInputRef.current?.click()}
-            className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg transition-colors"
-          >
-            {originalImage ? 'Change Image' : 'Select Image from Device'}
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-grow bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+            >
+              {activeSession ? 'Start Over with New Image' : 'Select Image from Device'}
+            </button>
+            {currentImage && (
+              <button
+                onClick={() => { setIsMasking(prev => !prev); setMask(null); }}
+                className={`py-2 px-4 rounded-lg font-bold transition-colors ${
+                  isMasking ? 'bg-indigo-600 hover:bg-indigo-700 text-white' : 'bg-slate-700 hover:bg-slate-600 text-white'
+                }`}
+                title={isMasking ? 'Edit the whole image' : 'Paint the area to change'}
+              >
+                {isMasking ? 'Whole Image' : 'Select Area'}
+              </button>
+            )}
+          </div>
+          {isMasking && currentImage && (
+            <p className="text-xs text-slate-500">
+              {mask ? 'Only the painted area will be changed.' : 'Paint over the area to change. Nothing painted means the whole image is edited.'}
+            </p>
+          )}
         </div>
 
-        {/* Edited Image Panel */}
+        {/* Compare Panel */}
         <div className="flex flex-col gap-3">
-          <h3 className="text-lg font-semibold text-slate-300">3. View Result</h3>
-          <div className="w-full aspect-square bg-slate-900/50 rounded-lg border-2 border-dashed border-slate-700 flex items-center justify-center p-4 relative group">
+          <div className="flex justify-between items-center gap-2">
+            <h3 className="text-lg font-semibold text-slate-300">
+              3. {compareStep ? `Compare with ${stepLabel(compareIndex)}` : 'View Result'}
+            </h3>
+            {compareUrl && currentImage && (
+              <button
+                onClick={() => setIsOverlayCompare(prev => !prev)}
+                className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
+                  isOverlayCompare ? 'bg-indigo-600 hover:bg-indigo-700 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'
+                }`}
+                title={isOverlayCompare ? 'Show the step on its own' : 'Overlay this step on the current image'}
+              >
+                {isOverlayCompare ? 'Side by Side' : 'Overlay'}
+              </button>
+            )}
+          </div>
+          <div className="w-full aspect-square bg-slate-900/50 rounded-lg border-2 border-dashed border-slate-700 flex items-center justify-center p-4 relative">
             {loading && <div className="text-center text-slate-400"><Spinner size="lg" /><p className="mt-2">Editing your image...</p></div>}
-            {editedImage && !loading && (
-              <>
-                <img src={editedImage} alt="Edited" className="max-w-full max-h-full object-contain rounded-md shadow-lg" />
-                <a
-                  href={editedImage}
-                  download={`nexus-ai-edited-${Date.now()}.png`}
-                  className="absolute bottom-4 right-4 bg-slate-900/70 text-white p-2 rounded-full hover:bg-indigo-600 transition-all opacity-0 group-hover:opacity-100"
-                  title="Download Image"
-                >
-                  <Icon name="download" className="w-6 h-6" />
-                </a>
-              </>
+            {isOverlayCompare && beforeUrl && afterUrl && !loading && (
+              <ImageCompare beforeUrl={beforeUrl} afterUrl={afterUrl} beforeLabel={stepLabel(beforeIndex)} afterLabel={stepLabel(afterIndex)} />
+            )}
+            {compareUrl && !(isOverlayCompare && currentImage) && !loading && (
+              <img src={compareUrl} alt={stepLabel(compareIndex)} className="max-w-full max-h-full object-contain rounded-md shadow-lg" />
             )}
-            {!editedImage && !loading && (
+            {compareStep && !compareUrl && !loading && (
+              <p className="text-center text-slate-500">The image for this step is no longer in the history.</p>
+            )}
+            {!compareStep && !loading && (
               <div className="text-center text-slate-500">
                 <Icon name="sparkles" className="w-16 h-16 mx-auto text-slate-600" />
-                <p>Your edited image will appear here.</p>
+                <p>Each edit is applied to the current image. The previous step will appear here for comparison.</p>
               </div>
             )}
           </div>
+          {compareStep?.prompt && !loading && (
+            <p className="text-sm text-slate-400 truncate" title={compareStep.prompt}>{compareStep.prompt}</p>
+          )}
           {responseText && !loading && (
             <div className="text-sm p-3 bg-slate-900/70 rounded-md text-slate-300 italic">
                 <p>{responseText}</p>
@@ -193,27 +703,86 @@ const ImageEditor: React.FC = () => {
            )}
         </div>
       </div>
+
+      {currentImage && (
+        <div className="mt-6">
+          <h3 className="text-lg font-semibold text-slate-300">Source Images</h3>
+          <p className="text-sm text-slate-500 mb-3">
+            Add reference images to combine, e.g. "put the product from image 2 into the scene of image 1". Drag to reorder; the order and labels are sent with the prompt.
+          </p>
+          <EditSourceImages
+            slots={sourceSlots}
+            currentImageUrl={currentImage}
+            maxSlots={MAX_SOURCE_IMAGES}
+            disabled={loading}
+            onChange={setSourceSlots}
+            onAddFiles={handleAddReferences}
+          />
+        </div>
+      )}
+
+      {activeSession && (
+        <div className="mt-6">
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-lg font-semibold text-slate-300">Edit Steps</h3>
+            <div className="flex gap-2">
+              <button
+                onClick={() => undo(activeSession.id)}
+                disabled={loading || !headStep?.parentId}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title="Undo (Ctrl+Z)"
+              >
+                <Icon name="undo" className="w-4 h-4" />
+                <span>Undo</span>
+              </button>
+              <button
+                onClick={() => redo(activeSession.id)}
+                disabled={loading || !headStep?.selectedChildId}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Icon name="redo" className="w-4 h-4" />
+                <span>Redo</span>
+              </button>
+            </div>
+          </div>
+          <EditFilmstrip
+            session={activeSession}
+            thumbnails={thumbnails}
+            compareStepId={compareStep?.id ?? null}
+            onGoToStep={(stepId) => !loading && goToStep(activeSession.id, stepId)}
+            onCompareStep={setCompareStepId}
+            onSelectBranch={(stepId) => !loading && selectBranch(activeSession.id, stepId)}
+          />
+        </div>
+      )}
       
       {/* Prompt and Generate Button */}
       <div className="mt-6 space-y-4">
         <div>
-          <h3 className="text-lg font-semibold text-slate-300 mb-2">2. Describe Your Edit</h3>
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-lg font-semibold text-slate-300">2. Describe Your Edit</h3>
+            <PromptLibraryButton currentPrompt={prompt} onInsert={setPrompt} disabled={loading} />
+          </div>
           <textarea
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
             placeholder="e.g., Add a futuristic city in the background, make the cat wear a wizard hat, change the season to winter..."
             className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-shadow duration-200 resize-none h-24"
-            disabled={loading || !originalImage}
+            disabled={loading || !currentImage}
           />
         </div>
-        <div className="flex justify-end">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-end gap-3">
+          {isForking && (
+            <p className="text-sm text-slate-400">Editing from an earlier step starts a new branch; the later steps are kept.</p>
+          )}
            <button
             onClick={handleGenerate}
-            disabled={loading || !prompt || !originalImage}
+            disabled={loading || !prompt || !currentImage}
             className="w-full sm:w-auto flex justify-center items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-bold py-3 px-6 rounded-lg transition-transform duration-200 disabled:cursor-not-allowed transform hover:scale-105"
           >
             {loading ? <Spinner /> : <Icon name="edit-image" className="w-5 h-5" />}
-            <span>{loading ? 'Generating...' : 'Generate Edit'}</span>
+            <span>{loading ? 'Generating...' : isForking ? 'Generate Edit as New Branch' : 'Generate Edit'}</span>
           </button>
         </div>
       </div>
@@ -223,7 +792,10 @@ const ImageEditor: React.FC = () => {
       {history.length > 0 && (
         <div className="mt-8 pt-6 border-t border-slate-700">
           <div className="flex justify-between items-center mb-4">
-            <h3 className="text-xl font-bold text-slate-200">History</h3>
+            <div className="flex items-baseline gap-3">
+              <h3 className="text-xl font-bold text-slate-200">History</h3>
+              <StorageUsageLabel itemCount={history.length} usage={usage} />
+            </div>
             <button
               onClick={handleClearHistory}
               className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md bg-red-900/50 text-red-300 hover:bg-red-900/80 transition-colors"
@@ -234,25 +806,56 @@ const ImageEditor: React.FC = () => {
             </button>
           </div>
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-            {history.map((item) => (
+            {history.map((item, index) => (
               <div
                 key={item.id}
                 className="relative aspect-square group cursor-pointer"
                 onClick={() => handleSelectFromHistory(item)}
               >
                 <img
-                  src={item.editedUrl}
-                  alt={item.prompt}
+                  src={item.thumbnailUrl}
+                  alt={item.metadata.prompt}
                   className="w-full h-full object-cover rounded-lg shadow-md transition-transform duration-200 group-hover:scale-105"
                 />
                 <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity duration-200 rounded-lg flex items-end p-2">
-                  <p className="text-xs text-white truncate" title={item.prompt}>{item.prompt}</p>
+                  <p className="text-xs text-white truncate" title={item.metadata.prompt}>{item.metadata.prompt}</p>
                 </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setReviewIndex(index); }}
+                  className="absolute top-2 right-2 px-2 py-1 text-xs font-medium rounded-md bg-slate-900/80 text-slate-200 hover:bg-indigo-600 opacity-0 group-hover:opacity-100 transition-all"
+                  title="Compare with the image it was made from"
+                >
+                  Compare
+                </button>
+                {item.favorite && (
+                  <Icon name="star-filled" className="absolute top-2 left-2 w-4 h-4 text-amber-400" />
+                )}
               </div>
             ))}
           </div>
         </div>
       )}
+
+      {isExporting && currentImage && (
+        <ImageExportPanel
+          imageUrl={currentImage}
+          prompt={headStep?.prompt || undefined}
+          fileNamePrefix="nexus-ai-edited"
+          onClose={() => setIsExporting(false)}
+        />
+      )}
+
+      {reviewIndex !== null && history[reviewIndex] && (
+        <EditReviewModal
+          items={history}
+          index={reviewIndex}
+          sessions={sessions}
+          onIndexChange={setReviewIndex}
+          onToggleApproved={(item) => setFavorite(item.id, !item.favorite).catch(e => setError(e.message || 'Failed to update the edit.'))}
+          onOpenInEditor={(item) => { setReviewIndex(null); handleSelectFromHistory(item); }}
+          onClose={() => setReviewIndex(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { blobToDataUrl, formatBytes } from '../services/assetStore';
+import {
+  OutputFormat,
+  PostProcessOptions,
+  WatermarkPosition,
+  extensionForMimeType,
+  getCropRect,
+  loadImage,
+  postProcessImage,
+} from '../services/imageProcessing';
+import Spinner from './Spinner';
+import { Icon } from './Icon';
+
+const SETTINGS_KEY = 'nexus-export-settings';
+const MAX_DIMENSION = 8192;
+// Re-rendering the preview reads the whole image, so wait for the user to stop adjusting.
+const PREVIEW_DELAY_MS = 300;
+
+const cropOptions: { value: string; label: string; ratio?: number }[] = [
+  { value: 'original', label: 'Original' },
+  { value: '1:1', label: 'Square (1:1)', ratio: 1 },
+  { value: '4:3', label: 'Landscape (4:3)', ratio: 4 / 3 },
+  { value: '3:4', label: 'Portrait (3:4)', ratio: 3 / 4 },
+  { value: '16:9', label: 'Widescreen (16:9)', ratio: 16 / 9 },
+  { value: '9:16', label: 'Story (9:16)', ratio: 9 / 16 },
+];
+
+const formatOptions: { value: OutputFormat; label: string }[] = [
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+const positionOptions: { value: WatermarkPosition; label: string }[] = [
+  { value: 'bottom-right', label: 'Bottom right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'top-left', label: 'Top left' },
+  { value: 'center', label: 'Center' },
+];
+
+interface ExportSettings {
+  crop: string;
+  format: OutputFormat;
+  quality: number;
+  watermarkText: string;
+  watermarkPosition: WatermarkPosition;
+  watermarkOpacity: number;
+  watermarkSize: number;
+  embedPrompt: boolean;
+}
+
+const defaultSettings: ExportSettings = {
+  crop: 'original',
+  format: 'image/png',
+  quality: 0.9,
+  watermarkText: '',
+  watermarkPosition: 'bottom-right',
+  watermarkOpacity: 0.7,
+  watermarkSize: 0.05,
+  embedPrompt: true,
+};
+
+// The size and logo depend on the image, so only the reusable choices are remembered.
+const loadSettings = (): ExportSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...defaultSettings, ...JSON.parse(stored) } : defaultSettings;
+  } catch (error) {
+    console.error("Could not load export settings from localStorage", error);
+    return defaultSettings;
+  }
+};
+
+interface ImageExportPanelProps {
+  imageUrl: string;
+  /** Embedded in the file's metadata when the user chooses to. */
+  prompt?: string;
+  fileNamePrefix: string;
+  onClose: () => void;
+}
+
+/** Crops, resizes, converts and watermarks an image locally before downloading it. */
+const ImageExportPanel: React.FC<ImageExportPanelProps> = ({ imageUrl, prompt, fileNamePrefix, onClose }) => {
+  const [settings, setSettings] = useState<ExportSettings>(loadSettings);
+  const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
+  const [width, setWidth] = useState<number>(0);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [result, setResult] = useState<{ blob: Blob; url: string } | null>(null);
+  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const resultUrlRef = useRef<string | null>(null);
+
+  const cropRatio = cropOptions.find(option => option.value === settings.crop)?.ratio;
+  const crop = sourceSize ? getCropRect(sourceSize.width, sourceSize.height, cropRatio) : null;
+  // The height always follows the crop's aspect ratio, so the image is never stretched.
+  const height = crop && width ? Math.max(1, Math.round((width * crop.height) / crop.width)) : 0;
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error("Could not save export settings to localStorage", error);
+    }
+  }, [settings]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then(image => { if (!cancelled) setSourceSize({ width: image.naturalWidth, height: image.naturalHeight }); })
+      .catch(e => { if (!cancelled) setError(e.message || 'Could not load the image.'); });
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  // A new crop starts at its full resolution.
+  useEffect(() => {
+    if (crop) setWidth(crop.width);
+  }, [sourceSize, settings.crop]);
+
+  useEffect(() => {
+    if (!crop || !width) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsProcessing(true);
+      setError(null);
+      const options: PostProcessOptions = {
+        cropAspectRatio: cropRatio,
+        width,
+        height,
+        format: settings.format,
+        quality: settings.quality,
+        watermark: {
+          text: settings.watermarkText,
+          logoUrl: logoUrl ?? undefined,
+          position: settings.watermarkPosition,
+          opacity: settings.watermarkOpacity,
+          size: settings.watermarkSize,
+        },
+        metadata: settings.embedPrompt && prompt ? { Description: prompt, Software: 'Nexus AI' } : undefined,
+      };
+      try {
+        const blob = await postProcessImage(imageUrl, options);
+        if (cancelled) return;
+        if (resultUrlRef.current) URL.revokeObjectURL(resultUrlRef.current);
+        resultUrlRef.current = URL.createObjectURL(blob);
+        setResult({ blob, url: resultUrlRef.current });
+      } catch (e: any) {
+        if (!cancelled) setError(e.message || 'Failed to process the image.');
+      } finally {
+        if (!cancelled) setIsProcessing(false);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [imageUrl, prompt, settings, width, height, logoUrl, sourceSize]);
+
+  useEffect(() => () => {
+    if (resultUrlRef.current) URL.revokeObjectURL(resultUrlRef.current);
+  }, []);
+
+  const updateSettings = (changes: Partial<ExportSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const handleLogoUpload = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      setError('Please choose an image file for the logo.');
+      return;
+    }
+    try {
+      setLogoUrl(await blobToDataUrl(file));
+    } catch (e: any) {
+      setError(e.message || 'Failed to read the logo image.');
+    }
+  };
+
+  // The browser may not encode every format, so the extension comes from what was actually produced.
+  const fileName = result ? `${fileNamePrefix}-${Date.now()}.${extensionForMimeType(result.blob.type)}` : '';
+  const isFallbackFormat = !!result && result.blob.type !== settings.format;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg border border-slate-700 max-w-5xl w-full max-h-[90vh] overflow-y-auto p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-slate-100">Export Image</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Close">
+            <Icon name="close" className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="grid md:grid-cols-[1fr_18rem] gap-4">
+          <div className="min-h-[300px] bg-slate-900/50 rounded-lg border border-slate-700 flex items-center justify-center p-2 relative">
+            {result ? (
+              <img src={result.url} alt="Export preview" className="max-w-full max-h-[65vh] object-contain" />
+            ) : (
+              <Spinner size="lg" />
+            )}
+            {isProcessing && result && <div className="absolute top-2 right-2"><Spinner /></div>}
+          </div>
+
+          <div className="flex flex-col gap-4 text-sm">
+            <div>
+              <label htmlFor="export-crop" className="block font-medium text-slate-400 mb-1">Crop</label>
+              <select
+                id="export-crop"
+                value={settings.crop}
+                onChange={(e) => updateSettings({ crop: e.target.value })}
+                className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+              >
+                {cropOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="export-width" className="block font-medium text-slate-400 mb-1">Size</label>
+              <div className="flex items-center gap-2">
+                <input
+                  id="export-width"
+                  type="number"
+                  min={1}
+                  max={MAX_DIMENSION}
+                  value={width || ''}
+                  onChange={(e) => setWidth(Math.min(MAX_DIMENSION, Math.max(0, Math.round(Number(e.target.value)))))}
+                  className="w-24 p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                  aria-label="Width in pixels"
+                />
+                <span className="text-slate-500">× {height || '–'} px</span>
+              </div>
+              {crop && (
+                <div className="flex gap-1 mt-2">
+                  {[0.5, 1, 2, 4].map(factor => (
+                    <button
+                      key={factor}
+                      onClick={() => setWidth(Math.min(MAX_DIMENSION, Math.round(crop.width * factor)))}
+                      className={`px-2 py-0.5 rounded-md text-xs font-medium transition-colors ${
+                        width === Math.round(crop.width * factor) ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                      }`}
+                    >
+                      {factor}x
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="export-format" className="block font-medium text-slate-400 mb-1">Format</label>
+              <div className="flex items-center gap-2">
+                <select
+                  id="export-format"
+                  value={settings.format}
+                  onChange={(e) => updateSettings({ format: e.target.value as OutputFormat })}
+                  className="p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                >
+                  {formatOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+                {settings.format !== 'image/png' && (
+                  <input
+                    type="range"
+                    min={0.1}
+                    max={1}
+                    step={0.05}
+                    value={settings.quality}
+                    onChange={(e) => updateSettings({ quality: Number(e.target.value) })}
+                    className="flex-1 accent-indigo-500"
+                    title={`Quality: ${Math.round(settings.quality * 100)}%`}
+                  />
+                )}
+              </div>
+              {isFallbackFormat && (
+                <p className="mt-1 text-xs text-amber-300">Your browser can't create this format, so the image is saved as {extensionForMimeType(result!.blob.type).toUpperCase()}.</p>
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="export-watermark" className="block font-medium text-slate-400 mb-1">Watermark</label>
+              <input
+                id="export-watermark"
+                type="text"
+                value={settings.watermarkText}
+                onChange={(e) => updateSettings({ watermarkText: e.target.value })}
+                placeholder="e.g., © Your Studio"
+                className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+              />
+              <div className="flex items-center gap-2 mt-2">
+                {logoUrl ? (
+                  <>
+                    <img src={logoUrl} alt="Logo" className="h-8 max-w-[4rem] object-contain bg-slate-900 rounded" />
+                    <button onClick={() => setLogoUrl(null)} className="text-xs text-slate-400 hover:text-red-400">Remove logo</button>
+                  </>
+                ) : (
+                  <button onClick={() => logoInputRef.current?.click()} className="text-xs font-medium text-indigo-400 hover:text-indigo-300">Add logo…</button>
+                )}
+                <input
+                  type="file"
+                  ref={logoInputRef}
+                  className="hidden"
+                  accept="image/*"
+                  onChange={(e) => { e.target.files?.[0] && handleLogoUpload(e.target.files[0]); e.target.value = ''; }}
+                />
+              </div>
+              {(settings.watermarkText.trim() || logoUrl) && (
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <select
+                    value={settings.watermarkPosition}
+                    onChange={(e) => updateSettings({ watermarkPosition: e.target.value as WatermarkPosition })}
+                    className="col-span-2 p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                    aria-label="Watermark position"
+                  >
+                    {positionOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                  <label className="text-xs text-slate-500">
+                    Opacity
+                    <input
+                      type="range"
+                      min={0.1}
+                      max={1}
+                      step={0.05}
+                      value={settings.watermarkOpacity}
+                      onChange={(e) => updateSettings({ watermarkOpacity: Number(e.target.value) })}
+                      className="w-full accent-indigo-500"
+                    />
+                  </label>
+                  <label className="text-xs text-slate-500">
+                    Size
+                    <input
+                      type="range"
+                      min={0.02}
+                      max={0.2}
+                      step={0.01}
+                      value={settings.watermarkSize}
+                      onChange={(e) => updateSettings({ watermarkSize: Number(e.target.value) })}
+                      className="w-full accent-indigo-500"
+                    />
+                  </label>
+                </div>
+              )}
+            </div>
+
+            {prompt && (
+              <label className="flex items-start gap-2 text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={settings.embedPrompt}
+                  onChange={(e) => updateSettings({ embedPrompt: e.target.checked })}
+                  className="mt-0.5 accent-indigo-500"
+                />
+                <span>
+                  Embed the prompt in the file
+                  {settings.format === 'image/webp' && <span className="block text-xs text-slate-500">Only PNG and JPEG files can carry the prompt.</span>}
+                </span>
+              </label>
+            )}
+
+            {error && <div className="p-2 bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
+
+            <div className="mt-auto flex items-center justify-between gap-2">
+              <span className="text-xs text-slate-500">{result ? formatBytes(result.blob.size) : ''}</span>
+              <a
+                href={result?.url}
+                download={fileName}
+                onClick={(e) => { if (!result || isProcessing) e.preventDefault(); }}
+                className={`flex items-center gap-2 py-2 px-4 rounded-lg font-bold text-white transition-colors ${
+                  result && !isProcessing ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-indigo-400 cursor-not-allowed'
+                }`}
+              >
+                <Icon name="download" className="w-5 h-5" />
+                <span>Download</span>
+              </a>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageExportPanel;
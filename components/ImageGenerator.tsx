@@ -1,77 +1,242 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { generateImage } from '../services/geminiService';
+import React, { useState, useCallback } from 'react';
+import type { AspectRatio, ImageOutputFormat, PersonGeneration } from '../services/aiProvider';
+import { extensionForMimeType, getMimeType, upscaleImage } from '../services/imageProcessing';
+import { ASSET_COLLECTIONS, migrateLocalStorageHistory } from '../services/assetStore';
+import { GenerationPreset, PresetSnapshot, applyStyleModifiers, toPresetSnapshot } from '../services/generationPresets';
+import { useAIProvider } from '../hooks/useAIProvider';
+import { AssetItem, useAssetCollection } from '../hooks/useAssetCollection';
+import { useGenerationPresets } from '../hooks/useGenerationPresets';
+import ImageExportPanel from './ImageExportPanel';
+import PresetChips from './PresetChips';
+import PromptComparison, { ComparisonSettings, ComparisonWinner } from './PromptComparison';
+import PromptEnhancerButton from './PromptEnhancerButton';
+import PromptLibraryButton from './PromptLibraryButton';
 import Spinner from './Spinner';
+import StorageUsageLabel from './StorageUsageLabel';
 import { Icon } from './Icon';
 
-type AspectRatio = '1:1' | '16:9' | '9:16';
+// The settings a result was generated with, kept so it can be reproduced.
+interface GenerationSettings {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  negativePrompt?: string;
+  personGeneration?: PersonGeneration;
+  /** The style preset the prompt was enhanced with. */
+  style?: string;
+  outputFormat?: ImageOutputFormat;
+  /** Its style modifiers were added to `prompt` when generating. */
+  preset?: PresetSnapshot;
+}
+
+interface ImageHistoryMetadata extends GenerationSettings {
+  seed?: number;
+  model?: string;
+  /** Set on the winning variant of an A/B comparison. */
+  comparison?: { runId: string; variant: string; variantCount: number };
+}
+
+type ImageHistoryItem = AssetItem<ImageHistoryMetadata>;
 
-interface ImageHistoryItem {
+// Shape of the history previously kept in localStorage under 'imageGenerationHistory'.
+interface LegacyImageHistoryItem extends ImageHistoryMetadata {
   id: number;
-  prompt: string;
   url: string;
-  aspectRatio: AspectRatio;
 }
 
+const migrateLegacyHistory = () =>
+  migrateLocalStorageHistory<LegacyImageHistoryItem, ImageHistoryMetadata>(
+    'imageGenerationHistory',
+    ASSET_COLLECTIONS.imageGeneration,
+    ({ id, url, ...metadata }) => ({ id: `legacy-generation-${id}`, createdAt: id, dataUrl: url, metadata }),
+  );
+
+interface ImageCandidate {
+  url: string;
+  mimeType: string;
+  seed?: number;
+  settings: GenerationSettings;
+  isSaved: boolean;
+  isUpscaled: boolean;
+}
+
+const outputFormatOptions: { value: ImageOutputFormat | ''; label: string }[] = [
+  { value: '', label: 'Provider default' },
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/jpeg', label: 'JPEG' },
+];
+
+const personGenerationOptions: { value: PersonGeneration; label: string }[] = [
+  { value: 'ALLOW_ADULT', label: 'Adults only' },
+  { value: 'ALLOW_ALL', label: 'Adults and children' },
+  { value: 'DONT_ALLOW', label: 'No people' },
+];
+
 const ImageGenerator: React.FC = () => {
+  const provider = useAIProvider();
+  const [mode, setMode] = useState<'single' | 'compare'>('single');
   const [prompt, setPrompt] = useState<string>('');
+  const [style, setStyle] = useState<string | null>(null);
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('1:1');
+  const [numberOfImages, setNumberOfImages] = useState<number>(1);
+  const [negativePrompt, setNegativePrompt] = useState<string>('');
+  const [seed, setSeed] = useState<string>('');
+  const [personGeneration, setPersonGeneration] = useState<PersonGeneration>('ALLOW_ADULT');
+  const [outputFormat, setOutputFormat] = useState<ImageOutputFormat | undefined>(undefined);
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [history, setHistory] = useState<ImageHistoryItem[]>([]);
+  const [candidates, setCandidates] = useState<ImageCandidate[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number>(0);
+  const [upscalingIndex, setUpscalingIndex] = useState<number | null>(null);
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const {
+    items: history,
+    usage,
+    addAsset,
+    clear: clearHistory,
+  } = useAssetCollection<ImageHistoryMetadata>(ASSET_COLLECTIONS.imageGeneration, { maxItems: 100, migrate: migrateLegacyHistory });
 
-  useEffect(() => {
-    try {
-      const storedHistory = localStorage.getItem('imageGenerationHistory');
-      if (storedHistory) {
-        setHistory(JSON.parse(storedHistory));
-      }
-    } catch (error) {
-      console.error("Failed to load image history from localStorage", error);
-    }
-  }, []);
+  const { presets, savePreset, deletePreset } = useGenerationPresets();
+  const preset = presets.find(p => p.id === presetId) ?? null;
+
+  const selectedCandidate = candidates[selectedIndex] ?? null;
+
+  const handleSelectPreset = (selected: GenerationPreset | null) => {
+    setPresetId(selected?.id ?? null);
+    if (!selected) return;
+    if (selected.aspectRatio) setAspectRatio(selected.aspectRatio);
+    if (selected.count) setNumberOfImages(selected.count);
+    if (selected.negativePrompt !== undefined) setNegativePrompt(selected.negativePrompt);
+    if (selected.outputFormat) setOutputFormat(selected.outputFormat);
+  };
+
+  const parseSeed = (): number | undefined => {
+    const parsed = seed.trim() ? Number(seed) : undefined;
+    return parsed !== undefined && Number.isInteger(parsed) ? parsed : undefined;
+  };
+
+  const handleSaveWinner = async ({ runId, variant, variantCount, url, seed: winnerSeed, settings }: ComparisonWinner) => {
+    await addAsset(url, { ...settings, seed: winnerSeed, model: provider.models.image, comparison: { runId, variant, variantCount } });
+  };
+
+  const handleUseVariant = (settings: ComparisonSettings) => {
+    setPrompt(settings.prompt);
+    setAspectRatio(settings.aspectRatio);
+    setNegativePrompt(settings.negativePrompt ?? '');
+    setPresetId(settings.preset?.id ?? null);
+    setOutputFormat(settings.outputFormat);
+    setMode('single');
+  };
+
+  const saveToHistory = async (candidate: ImageCandidate) => {
+    await addAsset(candidate.url, { ...candidate.settings, seed: candidate.seed, model: provider.models.image });
+  };
 
   const handleGenerate = useCallback(async () => {
     if (!prompt) {
       setError('Please enter a prompt.');
       return;
     }
+    const parsedSeed = seed.trim() ? Number(seed) : undefined;
+    if (parsedSeed !== undefined && !Number.isInteger(parsedSeed)) {
+      setError('The seed must be a whole number.');
+      return;
+    }
     setLoading(true);
     setError(null);
-    setImageUrl(null);
+    setCandidates([]);
+    setSelectedIndex(0);
     try {
-      const url = await generateImage(prompt, aspectRatio);
-      setImageUrl(url);
-
-      const newHistoryItem: ImageHistoryItem = {
-        id: Date.now(),
+      const settings: GenerationSettings = {
         prompt,
-        url,
         aspectRatio,
+        negativePrompt: negativePrompt.trim() || undefined,
+        personGeneration,
+        style: style ?? undefined,
+        outputFormat,
+        preset: preset ? toPresetSnapshot(preset) : undefined,
       };
-      const updatedHistory = [newHistoryItem, ...history].slice(0, 20); // Keep last 20 images
-      setHistory(updatedHistory);
-      localStorage.setItem('imageGenerationHistory', JSON.stringify(updatedHistory));
+      const images = await provider.generateImage(applyStyleModifiers(prompt, preset?.styleModifiers), {
+        ...settings,
+        numberOfImages,
+        seed: provider.supportsImageSeed ? parsedSeed : undefined,
+      });
+      const generated = images.map(image => ({ ...image, mimeType: getMimeType(image.url), settings, isSaved: false, isUpscaled: false }));
+      setCandidates(generated);
+
+      // A single result is saved straight away; with several, the user picks which to keep.
+      if (generated.length === 1) {
+        try {
+          await saveToHistory(generated[0]);
+          setCandidates([{ ...generated[0], isSaved: true }]);
+        } catch (e: any) {
+          setError(`The image was generated but could not be saved to history: ${e.message}`);
+        }
+      }
 
     } catch (e: any) {
       setError(e.message || 'Failed to generate image. Please try again.');
     } finally {
       setLoading(false);
     }
-  }, [prompt, aspectRatio, history]);
+  }, [prompt, style, preset, aspectRatio, numberOfImages, negativePrompt, seed, personGeneration, outputFormat, provider, addAsset]);
+
+  const handleSaveCandidate = async (index: number) => {
+    const candidate = candidates[index];
+    if (!candidate || candidate.isSaved || savingIndex !== null) return;
+    setSavingIndex(index);
+    try {
+      await saveToHistory(candidate);
+      setCandidates(prev => prev.map((c, i) => (i === index ? { ...c, isSaved: true } : c)));
+    } catch (e: any) {
+      setError(e.message || 'Failed to save the image to history.');
+    } finally {
+      setSavingIndex(null);
+    }
+  };
+
+  const handleUpscaleCandidate = async (index: number) => {
+    const candidate = candidates[index];
+    if (!candidate || candidate.isUpscaled) return;
+    setUpscalingIndex(index);
+    setError(null);
+    try {
+      const url = await upscaleImage(candidate.url, 2);
+      setCandidates(prev => prev.map((c, i) => (i === index ? { ...c, url, mimeType: getMimeType(url), isUpscaled: true, isSaved: false } : c)));
+    } catch (e: any) {
+      setError(e.message || 'Failed to upscale the image.');
+    } finally {
+      setUpscalingIndex(null);
+    }
+  };
 
   const handleSelectFromHistory = (item: ImageHistoryItem) => {
-    setPrompt(item.prompt);
-    setAspectRatio(item.aspectRatio);
-    setImageUrl(item.url);
+    const { seed: itemSeed, ...settings } = item.metadata;
+    // A preset that has since been changed or deleted is folded into the prompt, so the result can still be reproduced.
+    const currentPreset = settings.preset && presets.find(p => p.id === settings.preset!.id);
+    const presetUnchanged = !!currentPreset && currentPreset.styleModifiers === settings.preset!.styleModifiers;
+    setPrompt(presetUnchanged ? settings.prompt : applyStyleModifiers(settings.prompt, settings.preset?.styleModifiers));
+    setPresetId(presetUnchanged ? currentPreset.id : null);
+    setStyle(settings.style ?? null);
+    setOutputFormat(settings.outputFormat);
+    setAspectRatio(settings.aspectRatio);
+    setNegativePrompt(settings.negativePrompt ?? '');
+    setSeed(itemSeed !== undefined ? String(itemSeed) : '');
+    if (settings.personGeneration) {
+      setPersonGeneration(settings.personGeneration);
+    }
+    setCandidates([{ url: item.url, mimeType: item.mimeType, seed: itemSeed, settings, isSaved: true, isUpscaled: false }]);
+    setMode('single');
+    setSelectedIndex(0);
     setError(null);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const handleClearHistory = () => {
     if (window.confirm('Are you sure you want to clear the entire image history? This action cannot be undone.')) {
-      setHistory([]);
-      localStorage.removeItem('imageGenerationHistory');
+      clearHistory().catch(e => setError(e.message || 'Failed to clear the image history.'));
     }
   };
 
@@ -86,66 +251,258 @@ const ImageGenerator: React.FC = () => {
     </button>
   );
 
+  const CountButton: React.FC<{ value: number }> = ({ value }) => (
+    <button
+      onClick={() => setNumberOfImages(value)}
+      className={`w-10 py-2 rounded-md text-sm font-medium transition-colors ${
+        numberOfImages === value ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+      }`}
+    >
+      {value}
+    </button>
+  );
+
   return (
     <div className="bg-slate-800 p-6 rounded-lg shadow-xl border border-slate-700 animate-fade-in">
-      <h2 className="text-2xl font-bold mb-4 text-slate-100">AI Image Generator (Imagen 4)</h2>
-      <div className="space-y-4">
-        <textarea
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          placeholder="e.g., A majestic forest, a cinematic landscape of a futuristic city..."
-          className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-shadow duration-200 resize-none h-24"
-          disabled={loading}
-        />
-        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-          <div>
-            <label className="block text-sm font-medium text-slate-400 mb-2">Aspect Ratio</label>
-            <div className="flex space-x-2">
-              <AspectRatioButton value="1:1" label="Square (1:1)" />
-              <AspectRatioButton value="16:9" label="Landscape (16:9)" />
-              <AspectRatioButton value="9:16" label="Portrait (9:16)" />
-            </div>
-          </div>
-          <button
-            onClick={handleGenerate}
-            disabled={loading}
-            className="w-full sm:w-auto flex justify-center items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-bold py-3 px-6 rounded-lg transition-transform duration-200 disabled:cursor-not-allowed transform hover:scale-105"
-          >
-            {loading ? <Spinner /> : <Icon name="sparkles" className="w-5 h-5" />}
-            <span>{loading ? 'Generating...' : 'Generate Image'}</span>
-          </button>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-slate-100">AI Image Generator (Imagen 4)</h2>
+        <div className="flex rounded-lg bg-slate-900/60 p-1 text-sm font-medium">
+          {(['single', 'compare'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              disabled={loading}
+              className={`px-3 py-1.5 rounded-md transition-colors ${mode === value ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {value === 'single' ? 'Generate' : 'A/B Compare'}
+            </button>
+          ))}
         </div>
       </div>
-      
-      {error && <div className="mt-4 p-3 bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
-
-      <div className="mt-6 min-h-[300px] flex items-center justify-center bg-slate-900/50 rounded-lg border-2 border-dashed border-slate-700">
-        {loading && <div className="text-center text-slate-400"><Spinner size="lg" /><p className="mt-2">Conjuring your vision...</p></div>}
-        {imageUrl && !loading && (
-          <div className="p-4 relative group">
-            <img src={imageUrl} alt="Generated" className="max-w-full max-h-[500px] rounded-lg shadow-lg" />
-            <a
-              href={imageUrl}
-              download={`nexus-ai-image-${Date.now()}.png`}
-              className="absolute bottom-4 right-4 bg-slate-900/70 text-white p-2 rounded-full hover:bg-indigo-600 transition-all opacity-0 group-hover:opacity-100"
-              title="Download Image"
-            >
-              <Icon name="download" className="w-6 h-6" />
-            </a>
+      {/* Hidden rather than unmounted, so a comparison survives a trip to the single generator. */}
+      <div className={mode === 'compare' ? '' : 'hidden'}>
+        <PromptComparison
+          isActive={mode === 'compare'}
+          baseSettings={{ prompt, aspectRatio, negativePrompt, presetId }}
+          presets={presets}
+          sharedSettings={{ seed: parseSeed(), personGeneration, outputFormat }}
+          onSaveWinner={handleSaveWinner}
+          onUseVariant={handleUseVariant}
+        />
+      </div>
+      {mode === 'single' && (
+        <>
+          <div className="space-y-4">
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <label className="text-sm font-medium text-slate-400">Prompt</label>
+                <div className="flex items-center gap-1">
+                  <PromptEnhancerButton
+                    prompt={prompt}
+                    target="image"
+                    styleId={style}
+                    onAccept={(text, styleId) => { setPrompt(text); setStyle(styleId); }}
+                    onClearStyle={() => setStyle(null)}
+                    disabled={loading}
+                  />
+                  <PromptLibraryButton currentPrompt={prompt} onInsert={setPrompt} disabled={loading} />
+                </div>
+              </div>
+              <textarea
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                placeholder="e.g., A majestic forest, a cinematic landscape of a futuristic city..."
+                className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-shadow duration-200 resize-none h-24"
+                disabled={loading}
+              />
+            </div>
+            <PresetChips
+              presets={presets}
+              selectedId={presetId}
+              onSelect={handleSelectPreset}
+              onSavePreset={savePreset}
+              onDeletePreset={deletePreset}
+              currentSettings={{ aspectRatio, count: numberOfImages, negativePrompt: negativePrompt.trim() || undefined, outputFormat }}
+              disabled={loading}
+            />
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+              <div className="flex flex-wrap gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-2">Aspect Ratio</label>
+                  <div className="flex space-x-2">
+                    <AspectRatioButton value="1:1" label="Square (1:1)" />
+                    <AspectRatioButton value="16:9" label="Landscape (16:9)" />
+                    <AspectRatioButton value="9:16" label="Portrait (9:16)" />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-400 mb-2">Images</label>
+                  <div className="flex space-x-2">
+                    {[1, 2, 3, 4].map(count => <CountButton key={count} value={count} />)}
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={handleGenerate}
+                disabled={loading}
+                className="w-full sm:w-auto flex justify-center items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-bold py-3 px-6 rounded-lg transition-transform duration-200 disabled:cursor-not-allowed transform hover:scale-105"
+              >
+                {loading ? <Spinner /> : <Icon name="sparkles" className="w-5 h-5" />}
+                <span>{loading ? 'Generating...' : numberOfImages > 1 ? 'Generate Images' : 'Generate Image'}</span>
+              </button>
+            </div>
+
+            <div>
+              <button
+                onClick={() => setShowAdvanced(prev => !prev)}
+                className="text-sm font-medium text-slate-400 hover:text-white transition-colors"
+              >
+                {showAdvanced ? '▾' : '▸'} Advanced settings
+              </button>
+              {showAdvanced && (
+                <div className="mt-3 grid sm:grid-cols-3 gap-4">
+                  <div className="sm:col-span-3">
+                    <label htmlFor="negative-prompt" className="block text-sm font-medium text-slate-400 mb-2">Negative Prompt</label>
+                    <input
+                      id="negative-prompt"
+                      type="text"
+                      value={negativePrompt}
+                      onChange={(e) => setNegativePrompt(e.target.value)}
+                      placeholder="e.g., blurry, text, watermark"
+                      className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                      disabled={loading}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="image-seed" className="block text-sm font-medium text-slate-400 mb-2">Seed</label>
+                    <input
+                      id="image-seed"
+                      type="number"
+                      value={seed}
+                      onChange={(e) => setSeed(e.target.value)}
+                      placeholder={provider.supportsImageSeed ? 'Random' : 'Not supported'}
+                      className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                      disabled={loading || !provider.supportsImageSeed}
+                      title={provider.supportsImageSeed ? undefined : `The ${provider.name} provider does not support seeds.`}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="image-format" className="block text-sm font-medium text-slate-400 mb-2">Format</label>
+                    <select
+                      id="image-format"
+                      value={outputFormat ?? ''}
+                      onChange={(e) => setOutputFormat((e.target.value || undefined) as ImageOutputFormat | undefined)}
+                      className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                      disabled={loading}
+                    >
+                      {outputFormatOptions.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="person-generation" className="block text-sm font-medium text-slate-400 mb-2">People</label>
+                    <select
+                      id="person-generation"
+                      value={personGeneration}
+                      onChange={(e) => setPersonGeneration(e.target.value as PersonGeneration)}
+                      className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                      disabled={loading}
+                    >
+                      {personGenerationOptions.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+            </div>
           </div>
-        )}
-        {!imageUrl && !loading && (
-          <div className="text-center text-slate-500">
-            <Icon name="image" className="w-16 h-16 mx-auto text-slate-600" />
-            <p>Your generated image will appear here.</p>
+
+          {error && <div className="mt-4 p-3 bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
+
+          <div className="mt-6 min-h-[300px] flex items-center justify-center bg-slate-900/50 rounded-lg border-2 border-dashed border-slate-700">
+            {loading && <div className="text-center text-slate-400"><Spinner size="lg" /><p className="mt-2">Conjuring your vision...</p></div>}
+            {selectedCandidate && !loading && (
+              <div className="p-4 relative group">
+                <img src={selectedCandidate.url} alt="Generated" className="max-w-full max-h-[500px] rounded-lg shadow-lg" />
+                <div className="absolute bottom-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-all">
+                  <button
+                    onClick={() => setIsExporting(true)}
+                    className="bg-slate-900/70 text-white p-2 rounded-full hover:bg-indigo-600 transition-all"
+                    title="Crop, Resize and Export"
+                  >
+                    <Icon name="adjustments" className="w-6 h-6" />
+                  </button>
+                  <a
+                    href={selectedCandidate.url}
+                    download={`nexus-ai-image-${Date.now()}.${extensionForMimeType(selectedCandidate.mimeType)}`}
+                    className="bg-slate-900/70 text-white p-2 rounded-full hover:bg-indigo-600 transition-all"
+                    title="Download Image"
+                  >
+                    <Icon name="download" className="w-6 h-6" />
+                  </a>
+                </div>
+              </div>
+            )}
+            {!selectedCandidate && !loading && (
+              <div className="text-center text-slate-500">
+                <Icon name="image" className="w-16 h-16 mx-auto text-slate-600" />
+                <p>Your generated image will appear here.</p>
+              </div>
+            )}
           </div>
-        )}
-      </div>
+
+          {candidates.length > 0 && !loading && (
+            <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {candidates.map((candidate, index) => (
+                <div
+                  key={index}
+                  className={`relative rounded-lg overflow-hidden border-2 transition-colors ${
+                    index === selectedIndex ? 'border-indigo-500' : 'border-transparent'
+                  }`}
+                >
+                  <button onClick={() => setSelectedIndex(index)} className="block w-full aspect-square" title="Pick this image">
+                    <img src={candidate.url} alt={`Candidate ${index + 1}`} className="w-full h-full object-cover" />
+                  </button>
+                  <div className="absolute bottom-0 inset-x-0 flex justify-between items-center gap-1 p-1.5 bg-black/60">
+                    <span className="text-xs text-slate-300 truncate">
+                      {candidate.seed !== undefined ? `Seed ${candidate.seed}` : `#${index + 1}`}
+                      {candidate.isUpscaled && ' · 2x'}
+                    </span>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => handleUpscaleCandidate(index)}
+                        disabled={candidate.isUpscaled || upscalingIndex !== null || savingIndex === index}
+                        className="p-1 rounded text-white hover:bg-indigo-600 disabled:opacity-40 disabled:hover:bg-transparent"
+                        title={candidate.isUpscaled ? 'Already upscaled' : 'Upscale 2x'}
+                      >
+                        {upscalingIndex === index ? <Spinner size="sm" /> : <Icon name="upscale" className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleSaveCandidate(index)}
+                        disabled={candidate.isSaved || savingIndex !== null || upscalingIndex === index}
+                        className="p-1 rounded text-white hover:bg-indigo-600 disabled:opacity-40 disabled:hover:bg-transparent"
+                        title={candidate.isSaved ? 'Saved to history' : 'Save to history'}
+                      >
+                        {savingIndex === index ? <Spinner size="sm" /> : <Icon name={candidate.isSaved ? 'check' : 'bookmark'} className="w-4 h-4" />}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
 
       {history.length > 0 && (
         <div className="mt-8 pt-6 border-t border-slate-700">
           <div className="flex justify-between items-center mb-4">
-            <h3 className="text-xl font-bold text-slate-200">History</h3>
+            <div className="flex items-baseline gap-3">
+              <h3 className="text-xl font-bold text-slate-200">History</h3>
+              <StorageUsageLabel itemCount={history.length} usage={usage} />
+            </div>
             <button
               onClick={handleClearHistory}
               className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md bg-red-900/50 text-red-300 hover:bg-red-900/80 transition-colors"
@@ -163,20 +520,40 @@ const ImageGenerator: React.FC = () => {
                 onClick={() => handleSelectFromHistory(item)}
               >
                 <img
-                  src={item.url}
-                  alt={item.prompt}
+                  src={item.thumbnailUrl}
+                  alt={item.metadata.prompt}
                   className="w-full h-full object-cover rounded-lg shadow-md transition-transform duration-200 group-hover:scale-105"
                 />
+                {item.metadata.comparison && (
+                  <span
+                    className="absolute top-1.5 left-1.5 px-1.5 py-0.5 text-[10px] font-bold rounded bg-amber-400 text-slate-900"
+                    title={`Winner of an A/B comparison of ${item.metadata.comparison.variantCount} variants`}
+                  >
+                    Winner {item.metadata.comparison.variant}
+                  </span>
+                )}
                 <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity duration-200 rounded-lg flex items-end p-2">
-                  <p className="text-xs text-white truncate" title={item.prompt}>{item.prompt}</p>
+                  <div className="min-w-0">
+                    {item.metadata.preset && <p className="text-[10px] font-medium text-indigo-300 truncate">{item.metadata.preset.name}</p>}
+                    <p className="text-xs text-white truncate" title={item.metadata.seed !== undefined ? `${item.metadata.prompt} (seed ${item.metadata.seed})` : item.metadata.prompt}>{item.metadata.prompt}</p>
+                  </div>
                 </div>
               </div>
             ))}
           </div>
         </div>
       )}
+
+      {isExporting && selectedCandidate && (
+        <ImageExportPanel
+          imageUrl={selectedCandidate.url}
+          prompt={selectedCandidate.settings.prompt}
+          fileNamePrefix="nexus-ai-image"
+          onClose={() => setIsExporting(false)}
+        />
+      )}
     </div>
   );
 };
 
-export default ImageGenerator;
\ No newline at end of file
+export default ImageGenerator;
@@ -0,0 +1,83 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { Components, Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { Icon } from './Icon';
+
+// Plugin lists live at module level so streaming re-renders don't rebuild the pipeline.
+// Raw HTML in replies is never rendered: react-markdown escapes it unless rehype-raw is added.
+const remarkPlugins: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+const rehypePlugins: Options['rehypePlugins'] = [[rehypeKatex, { throwOnError: false }], [rehypeHighlight, { detect: true }]];
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const codeElement = React.Children.toArray(children)[0] as React.ReactElement<{ className?: string }> | undefined;
+  const language = codeElement?.props?.className?.match(/language-([\w-]+)/)?.[1];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Could not copy code to clipboard", e);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-lg overflow-hidden border border-slate-600 bg-slate-900">
+      <div className="flex justify-between items-center px-3 py-1 bg-slate-800 text-xs text-slate-400">
+        <span>{language ?? 'code'}</span>
+        <button onClick={handleCopy} className="flex items-center gap-1 hover:text-white transition-colors" title="Copy code">
+          <Icon name={copied ? 'check' : 'copy'} className="w-4 h-4" />
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+      <pre ref={preRef} {...props} className="p-3 overflow-x-auto text-sm">
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ node, ...props }) => <CodeBlock {...props} />,
+  code: ({ node, className, ...props }) => (
+    <code className={className ?? 'px-1 py-0.5 rounded bg-slate-900/70 text-sm'} {...props} />
+  ),
+  a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" className="text-indigo-300 underline hover:text-indigo-200" />,
+  p: ({ node, ...props }) => <p className="my-2 first:mt-0 last:mb-0" {...props} />,
+  ul: ({ node, ...props }) => <ul className="my-2 pl-5 list-disc space-y-1" {...props} />,
+  ol: ({ node, ...props }) => <ol className="my-2 pl-5 list-decimal space-y-1" {...props} />,
+  h1: ({ node, ...props }) => <h1 className="mt-3 mb-2 text-xl font-bold" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="mt-3 mb-2 text-lg font-bold" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="mt-3 mb-1 font-semibold" {...props} />,
+  blockquote: ({ node, ...props }) => <blockquote className="my-2 pl-3 border-l-4 border-slate-500 text-slate-300" {...props} />,
+  table: ({ node, ...props }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="min-w-full text-sm border-collapse" {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th className="px-2 py-1 border border-slate-600 bg-slate-800 text-left font-semibold" {...props} />,
+  td: ({ node, ...props }) => <td className="px-2 py-1 border border-slate-600" {...props} />,
+  hr: ({ node, ...props }) => <hr className="my-3 border-slate-600" {...props} />,
+};
+
+/**
+ * Renders model replies as Markdown with GFM tables, KaTeX math and highlighted code blocks.
+ * Safe to render while a reply is still streaming: an unclosed fence renders as a code block
+ * up to the end of the text, and a formula KaTeX cannot parse yet falls back to its source.
+ */
+const MarkdownMessage: React.FC<{ text: string }> = ({ text }) => (
+  <div className="break-words">
+    <ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={rehypePlugins} components={components}>
+      {text}
+    </ReactMarkdown>
+  </div>
+);
+
+export default React.memo(MarkdownMessage);
@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { loadImage } from '../services/imageProcessing';
+
+type MaskTool = 'brush' | 'eraser' | 'rectangle' | 'lasso';
+
+const tools: { value: MaskTool; label: string }[] = [
+  { value: 'brush', label: 'Brush' },
+  { value: 'eraser', label: 'Eraser' },
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'lasso', label: 'Lasso' },
+];
+
+// The painted area is shown in this color at half opacity; only its alpha matters for the mask.
+const PAINT_COLOR = 'rgb(239, 68, 68)';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Stroke {
+  start: Point;
+  last: Point;
+  points: Point[];
+  /** The canvas before a rectangle or lasso started, restored while it is being dragged out. */
+  snapshot: ImageData | null;
+}
+
+// Turns the painted overlay into a white-on-black mask, or null when nothing is painted.
+const exportMask = (paint: HTMLCanvasElement): string | null => {
+  const context = paint.getContext('2d', { willReadFrequently: true })!;
+  const { data } = context.getImageData(0, 0, paint.width, paint.height);
+  let isEmpty = true;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) {
+      isEmpty = false;
+      break;
+    }
+  }
+  if (isEmpty) return null;
+
+  const white = document.createElement('canvas');
+  white.width = paint.width;
+  white.height = paint.height;
+  const whiteContext = white.getContext('2d')!;
+  whiteContext.drawImage(paint, 0, 0);
+  whiteContext.globalCompositeOperation = 'source-in';
+  whiteContext.fillStyle = 'white';
+  whiteContext.fillRect(0, 0, white.width, white.height);
+
+  const mask = document.createElement('canvas');
+  mask.width = paint.width;
+  mask.height = paint.height;
+  const maskContext = mask.getContext('2d')!;
+  maskContext.fillStyle = 'black';
+  maskContext.fillRect(0, 0, mask.width, mask.height);
+  maskContext.drawImage(white, 0, 0);
+  return mask.toDataURL('image/png');
+};
+
+interface MaskEditorProps {
+  imageUrl: string;
+  /** Called after every stroke with a white-on-black PNG data URL, or null when the mask is empty. */
+  onMaskChange: (mask: string | null) => void;
+}
+
+/** Paints a selection mask over an image. Fills its parent, which must have a definite size. */
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onMaskChange }) => {
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(30);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [stageSize, setStageSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
+  const stageRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokeRef = useRef<Stroke | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setImageSize(null);
+    onMaskChange(null);
+    loadImage(imageUrl)
+      .then(image => { if (!cancelled) setImageSize({ width: image.naturalWidth, height: image.naturalHeight }); })
+      .catch(error => console.error("Could not load the image to mask", error));
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setStageSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit the image inside the stage; the canvas keeps the image's full resolution underneath.
+  const scale = imageSize ? Math.min(stageSize.width / imageSize.width, stageSize.height / imageSize.height, 1) : 0;
+  const displayWidth = imageSize ? imageSize.width * scale : 0;
+  const displayHeight = imageSize ? imageSize.height * scale : 0;
+
+  const getContext = () => canvasRef.current?.getContext('2d', { willReadFrequently: true }) ?? null;
+
+  const toImagePoint = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const drawLine = (context: CanvasRenderingContext2D, from: Point, to: Point) => {
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    context.strokeStyle = PAINT_COLOR;
+    context.lineWidth = brushSize / (scale || 1);
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+    context.stroke();
+  };
+
+  const drawShape = (context: CanvasRenderingContext2D, stroke: Stroke, current: Point) => {
+    if (stroke.snapshot) context.putImageData(stroke.snapshot, 0, 0);
+    context.globalCompositeOperation = 'source-over';
+    context.fillStyle = PAINT_COLOR;
+    if (tool === 'rectangle') {
+      context.fillRect(stroke.start.x, stroke.start.y, current.x - stroke.start.x, current.y - stroke.start.y);
+    } else {
+      context.beginPath();
+      stroke.points.forEach((point, index) => (index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+      context.closePath();
+      context.fill();
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = getContext();
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toImagePoint(event);
+    const isShape = tool === 'rectangle' || tool === 'lasso';
+    strokeRef.current = {
+      start: point,
+      last: point,
+      points: [point],
+      snapshot: isShape ? context.getImageData(0, 0, context.canvas.width, context.canvas.height) : null,
+    };
+    if (!isShape) drawLine(context, point, point);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    const context = getContext();
+    if (!stroke || !context) return;
+    const point = toImagePoint(event);
+    if (tool === 'brush' || tool === 'eraser') {
+      drawLine(context, stroke.last, point);
+    } else {
+      stroke.points.push(point);
+      drawShape(context, stroke, point);
+    }
+    stroke.last = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!strokeRef.current || !canvasRef.current) return;
+    strokeRef.current = null;
+    onMaskChange(exportMask(canvasRef.current));
+  };
+
+  const handleInvert = () => {
+    const context = getContext();
+    if (!context || !canvasRef.current) return;
+    context.globalCompositeOperation = 'xor';
+    context.fillStyle = PAINT_COLOR;
+    context.fillRect(0, 0, context.canvas.width, context.canvas.height);
+    onMaskChange(exportMask(canvasRef.current));
+  };
+
+  const handleClear = () => {
+    const context = getContext();
+    if (!context) return;
+    context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+    onMaskChange(null);
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {tools.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setTool(value)}
+            className={`px-2.5 py-1 rounded-md font-medium transition-colors ${
+              tool === value ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        {(tool === 'brush' || tool === 'eraser') && (
+          <input
+            type="range"
+            min={5}
+            max={100}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-20 accent-indigo-500"
+            title={`Brush size: ${brushSize}px`}
+          />
+        )}
+        <button onClick={handleInvert} className="px-2.5 py-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors">
+          Invert
+        </button>
+        <button onClick={handleClear} className="px-2.5 py-1 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors">
+          Clear
+        </button>
+      </div>
+      <div ref={stageRef} className="flex-1 min-h-0 flex items-center justify-center">
+        {imageSize && (
+          <div className="relative" style={{ width: displayWidth, height: displayHeight }}>
+            <img src={imageUrl} alt="Original" className="w-full h-full rounded-md select-none" draggable={false} />
+            <canvas
+              ref={canvasRef}
+              width={imageSize.width}
+              height={imageSize.height}
+              className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
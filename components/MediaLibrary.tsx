@@ -0,0 +1,354 @@
+import React, { useState, useMemo } from 'react';
+import { zip } from 'fflate';
+import { ASSET_COLLECTIONS, AssetKind } from '../services/assetStore';
+import { extensionForMimeType } from '../services/imageProcessing';
+import { AssetItem, useAssetCollection } from '../hooks/useAssetCollection';
+import Spinner from './Spinner';
+import StorageUsageLabel from './StorageUsageLabel';
+import { Icon } from './Icon';
+
+// Every tool records at least the prompt; older items may predate the model field.
+interface LibraryMetadata {
+  prompt?: string;
+  model?: string;
+  /** The generation preset, for generated images and videos. */
+  preset?: { name: string };
+}
+
+type LibraryItem = AssetItem<LibraryMetadata>;
+
+type KindFilter = 'all' | AssetKind;
+
+const LIBRARY_COLLECTIONS = [ASSET_COLLECTIONS.imageGeneration, ASSET_COLLECTIONS.imageEdits, ASSET_COLLECTIONS.videos];
+
+const sourceLabels: Record<string, string> = {
+  [ASSET_COLLECTIONS.imageGeneration]: 'Image Generator',
+  [ASSET_COLLECTIONS.imageEdits]: 'Image Editor',
+  [ASSET_COLLECTIONS.videos]: 'Video Creator',
+};
+
+const kindFilters: { value: KindFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'image', label: 'Images' },
+  { value: 'video', label: 'Videos' },
+];
+
+const fileNameFor = (item: LibraryItem): string => {
+  const slug = (item.metadata.prompt ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+  return `nexus-ai-${item.kind}-${item.createdAt}${slug ? `-${slug}` : ''}.${extensionForMimeType(item.mimeType)}`;
+};
+
+// Media is already compressed, so files are stored in the archive without recompressing them.
+const createZip = async (items: LibraryItem[]): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {};
+  for (const item of items) {
+    files[fileNameFor(item)] = new Uint8Array(await item.blob.arrayBuffer());
+  }
+  const data = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, { level: 0 }, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+  return new Blob([data], { type: 'application/zip' });
+};
+
+const matchesQuery = (item: LibraryItem, query: string): boolean => {
+  if (!query) return true;
+  const haystack = [item.metadata.prompt, item.metadata.model, item.metadata.preset?.name, sourceLabels[item.collection]].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).every(term => haystack.includes(term));
+};
+
+interface MediaLibraryProps {
+  onSendToEditor: (assetId: string) => void;
+  onAnimate: (assetId: string) => void;
+  onAttachToChat: (assetId: string) => void;
+}
+
+const MediaLibrary: React.FC<MediaLibraryProps> = ({ onSendToEditor, onAnimate, onAttachToChat }) => {
+  const { items, usage, isLoaded, removeAssets, setFavorite } = useAssetCollection<LibraryMetadata>(LIBRARY_COLLECTIONS);
+  const [query, setQuery] = useState<string>('');
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [previewItem, setPreviewItem] = useState<LibraryItem | null>(null);
+  const [isZipping, setIsZipping] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visibleItems = useMemo(
+    () => items.filter(item =>
+      (kindFilter === 'all' || item.kind === kindFilter) &&
+      (!favoritesOnly || item.favorite) &&
+      matchesQuery(item, query.trim())),
+    [items, kindFilter, favoritesOnly, query],
+  );
+  // Selections are limited to what is currently shown so bulk actions never touch hidden items.
+  const selectedItems = visibleItems.filter(item => selectedIds.has(item.id));
+  const allVisibleSelected = visibleItems.length > 0 && selectedItems.length === visibleItems.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleItems.map(item => item.id)));
+  };
+
+  const handleToggleFavorite = async (item: LibraryItem) => {
+    try {
+      await setFavorite(item.id, !item.favorite);
+    } catch (e: any) {
+      setError(e.message || 'Failed to update the favorite.');
+    }
+  };
+
+  const handleDelete = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const message = ids.length === 1
+      ? 'Delete this item from the media library? This action cannot be undone.'
+      : `Delete ${ids.length} items from the media library? This action cannot be undone.`;
+    if (!window.confirm(message)) return;
+    try {
+      await removeAssets(ids);
+      setSelectedIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+      if (previewItem && ids.includes(previewItem.id)) setPreviewItem(null);
+    } catch (e: any) {
+      setError(e.message || 'Failed to delete the selected items.');
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    if (selectedItems.length === 0) return;
+    setIsZipping(true);
+    setError(null);
+    try {
+      const url = URL.createObjectURL(await createZip(selectedItems));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `nexus-ai-library-${Date.now()}.zip`;
+      link.click();
+      // Give the browser a moment to start the download before the URL is released.
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e: any) {
+      setError(e.message || 'Failed to create the ZIP archive.');
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const renderActions = (item: LibraryItem) => (
+    <div className="flex items-center gap-1">
+      <a
+        href={item.url}
+        download={fileNameFor(item)}
+        className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+        title="Download"
+      >
+        <Icon name="download" className="w-4 h-4" />
+      </a>
+      {item.kind === 'image' && (
+        <>
+          <button
+            onClick={() => onSendToEditor(item.id)}
+            className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            title="Send to Image Editor"
+          >
+            <Icon name="edit-image" className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onAnimate(item.id)}
+            className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            title="Animate in Video Creator"
+          >
+            <Icon name="video" className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onAttachToChat(item.id)}
+            className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            title="Attach to chat"
+          >
+            <Icon name="attach" className="w-4 h-4" />
+          </button>
+        </>
+      )}
+      <button
+        onClick={() => handleDelete([item.id])}
+        className="p-1.5 rounded-md text-slate-400 hover:text-red-300 hover:bg-red-900/50 transition-colors"
+        title="Delete"
+      >
+        <Icon name="trash" className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-lg shadow-xl border border-slate-700 animate-fade-in">
+      <div className="flex items-baseline justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-slate-100">Media Library</h2>
+        <StorageUsageLabel itemCount={items.length} usage={usage} />
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by prompt, model, preset or tool..."
+          className="flex-grow p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+        />
+        <div className="flex gap-2">
+          {kindFilters.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setKindFilter(value)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                kindFilter === value ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+          <button
+            onClick={() => setFavoritesOnly(prev => !prev)}
+            className={`px-3 py-2 rounded-md transition-colors ${
+              favoritesOnly ? 'bg-amber-500 text-slate-900' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+            }`}
+            title={favoritesOnly ? 'Show all items' : 'Show favorites only'}
+          >
+            <Icon name={favoritesOnly ? 'star-filled' : 'star'} className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3 text-sm">
+        <label className="flex items-center gap-2 text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allVisibleSelected}
+            onChange={toggleSelectAll}
+            disabled={visibleItems.length === 0}
+            className="accent-indigo-500"
+          />
+          {selectedItems.length > 0 ? `${selectedItems.length} selected` : 'Select all'}
+        </label>
+        <div className="flex gap-2">
+          <button
+            onClick={handleDownloadZip}
+            disabled={selectedItems.length === 0 || isZipping}
+            className="flex items-center gap-2 px-3 py-1.5 font-medium rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isZipping ? <Spinner /> : <Icon name="download" className="w-4 h-4" />}
+            <span>Download ZIP</span>
+          </button>
+          <button
+            onClick={() => handleDelete(selectedItems.map(item => item.id))}
+            disabled={selectedItems.length === 0}
+            className="flex items-center gap-2 px-3 py-1.5 font-medium rounded-md bg-red-900/50 text-red-300 hover:bg-red-900/80 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Icon name="trash" className="w-4 h-4" />
+            <span>Delete</span>
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="mt-4 p-3 bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
+
+      {!isLoaded && <div className="mt-6 flex justify-center"><Spinner size="lg" /></div>}
+
+      {isLoaded && visibleItems.length === 0 && (
+        <div className="mt-6 min-h-[200px] flex items-center justify-center bg-slate-900/50 rounded-lg border-2 border-dashed border-slate-700">
+          <div className="text-center text-slate-500">
+            <Icon name="library" className="w-16 h-16 mx-auto text-slate-600" />
+            <p>{items.length === 0 ? 'Images and videos you create will appear here.' : 'No items match your filters.'}</p>
+          </div>
+        </div>
+      )}
+
+      {visibleItems.length > 0 && (
+        <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+          {visibleItems.map((item) => (
+            <div
+              key={item.id}
+              className={`bg-slate-900/70 rounded-lg border overflow-hidden flex flex-col ${
+                selectedIds.has(item.id) ? 'border-indigo-500' : 'border-slate-700'
+              }`}
+            >
+              <div className="relative aspect-square group cursor-pointer" onClick={() => setPreviewItem(item)}>
+                {item.kind === 'video' && item.thumbnailUrl === item.url ? (
+                  <video src={item.url} muted className="w-full h-full object-cover" />
+                ) : (
+                  <img src={item.thumbnailUrl} alt={item.metadata.prompt} className="w-full h-full object-cover" />
+                )}
+                {item.kind === 'video' && (
+                  <span className="absolute bottom-2 left-2 flex items-center gap-1 px-2 py-0.5 text-xs rounded-md bg-slate-900/80 text-slate-200">
+                    <Icon name="video" className="w-3.5 h-3.5" /> Video
+                  </span>
+                )}
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(item.id)}
+                  onChange={() => toggleSelected(item.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="absolute top-2 left-2 w-4 h-4 accent-indigo-500"
+                  aria-label="Select item"
+                />
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleToggleFavorite(item); }}
+                  className={`absolute top-2 right-2 p-1.5 rounded-full bg-slate-900/70 transition-colors ${
+                    item.favorite ? 'text-amber-400' : 'text-slate-300 hover:text-amber-400'
+                  }`}
+                  title={item.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                >
+                  <Icon name={item.favorite ? 'star-filled' : 'star'} className="w-5 h-5" />
+                </button>
+              </div>
+              <div className="p-3 flex flex-col gap-2 flex-grow">
+                <p className="text-sm text-slate-200 line-clamp-2" title={item.metadata.prompt}>
+                  {item.metadata.prompt || <span className="italic text-slate-500">No prompt</span>}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {sourceLabels[item.collection] ?? item.collection}
+                  {item.metadata.model && ` · ${item.metadata.model}`}
+                  {item.metadata.preset && ` · ${item.metadata.preset.name}`}
+                  <br />
+                  {new Date(item.createdAt).toLocaleString()}
+                </p>
+                <div className="mt-auto flex justify-end">{renderActions(item)}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {previewItem && (
+        <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4" onClick={() => setPreviewItem(null)}>
+          <div className="bg-slate-800 rounded-lg border border-slate-700 max-w-3xl w-full p-4" onClick={(e) => e.stopPropagation()}>
+            <div className="flex justify-between items-start gap-4 mb-3">
+              <p className="text-sm text-slate-200">{previewItem.metadata.prompt}</p>
+              <button onClick={() => setPreviewItem(null)} className="text-slate-400 hover:text-white" title="Close">
+                <Icon name="close" className="w-5 h-5" />
+              </button>
+            </div>
+            {previewItem.kind === 'video' ? (
+              <video src={previewItem.url} controls autoPlay loop className="w-full max-h-[70vh] rounded-lg" />
+            ) : (
+              <img src={previewItem.url} alt={previewItem.metadata.prompt} className="w-full max-h-[70vh] object-contain rounded-lg" />
+            )}
+            <div className="mt-3 flex justify-between items-center">
+              <p className="text-xs text-slate-500">
+                {sourceLabels[previewItem.collection] ?? previewItem.collection}
+                {previewItem.metadata.model && ` · ${previewItem.metadata.model}`}
+                {previewItem.metadata.preset && ` · ${previewItem.metadata.preset.name}`}
+                {` · ${new Date(previewItem.createdAt).toLocaleString()}`}
+              </p>
+              {renderActions(previewItem)}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaLibrary;
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { ChatToolId, Persona } from '../types';
+import { CHAT_TOOL_IDS, MAX_STARTERS } from '../services/personaTransfer';
+import { chatToolRegistry } from '../services/chatTools';
+import { useAIProvider } from '../hooks/useAIProvider';
+
+const toolLabels: Record<ChatToolId, { label: string; description: string }> = {
+    googleSearch: { label: 'Google Search', description: 'Look up current information on the web.' },
+    codeExecution: { label: 'Code execution', description: 'Write and run Python to calculate or analyze data.' },
+};
+
+// The API takes either built-in tools or function declarations, so turning one of the above on
+// switches off the app's own tools for the persona's chats.
+const appToolNames = Object.values(chatToolRegistry).map(tool => tool.label.toLowerCase()).join(', ');
+
+// Numeric settings are edited as text so they can be left blank, meaning the model's default.
+interface NumberField {
+    key: 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget';
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    integer?: boolean;
+    hint: string;
+}
+
+const numberFields: NumberField[] = [
+    { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, hint: '0–2; higher is more creative.' },
+    { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05, hint: '0–1; lower keeps to likelier words.' },
+    { key: 'maxOutputTokens', label: 'Max output tokens', min: 1, max: 65536, step: 1, integer: true, hint: 'Caps the reply length.' },
+    { key: 'thinkingBudget', label: 'Thinking budget', min: 0, max: 32768, step: 128, integer: true, hint: 'Tokens spent reasoning; 0 turns it off.' },
+];
+
+/** A blank field is unset; anything else must be a number in range, or the form can't be saved. */
+const parseNumberField = (value: string, field: NumberField): number | undefined | null => {
+    if (!value.trim()) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < field.min || parsed > field.max || (field.integer && !Number.isInteger(parsed))) return null;
+    return parsed;
+};
+
+const PersonaCreatorModal: React.FC<{
+    onClose: () => void;
+    onSave: (persona: Omit<Persona, 'id'>) => void;
+    personaToEdit: Persona | null;
+}> = ({ onClose, onSave, personaToEdit }) => {
+    const provider = useAIProvider();
+    const [name, setName] = useState('');
+    const [instruction, setInstruction] = useState('');
+    const [welcomeMessage, setWelcomeMessage] = useState('');
+    const [avatar, setAvatar] = useState('');
+    const [model, setModel] = useState('');
+    const [numbers, setNumbers] = useState<Record<NumberField['key'], string>>({ temperature: '', topP: '', maxOutputTokens: '', thinkingBudget: '' });
+    const [tools, setTools] = useState<ChatToolId[]>([]);
+    const [starters, setStarters] = useState('');
+    const [voiceName, setVoiceName] = useState('');
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+    const [showAdvanced, setShowAdvanced] = useState(false);
+    const isEditing = !!personaToEdit;
+
+    useEffect(() => {
+        if (personaToEdit) {
+            setName(personaToEdit.name);
+            setInstruction(personaToEdit.instruction);
+            setWelcomeMessage(personaToEdit.welcomeMessage);
+            setAvatar(personaToEdit.avatar ?? '');
+            setModel(personaToEdit.model ?? '');
+            setNumbers({
+                temperature: personaToEdit.temperature?.toString() ?? '',
+                topP: personaToEdit.topP?.toString() ?? '',
+                maxOutputTokens: personaToEdit.maxOutputTokens?.toString() ?? '',
+                thinkingBudget: personaToEdit.thinkingBudget?.toString() ?? '',
+            });
+            setTools(personaToEdit.tools ?? []);
+            setStarters((personaToEdit.starters ?? []).join('\n'));
+            setVoiceName(personaToEdit.voiceName ?? '');
+        }
+    }, [personaToEdit]);
+
+    // Browsers load their voices asynchronously, announcing them with `voiceschanged`.
+    useEffect(() => {
+        if (typeof window.speechSynthesis === 'undefined') return;
+        const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+        loadVoices();
+        window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+        return () => window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+    }, []);
+
+    const parsedNumbers = Object.fromEntries(numberFields.map(field => [field.key, parseNumberField(numbers[field.key], field)]));
+    const hasInvalidNumber = Object.values(parsedNumbers).some(value => value === null);
+    const canSave = !!name.trim() && !!instruction.trim() && !!welcomeMessage.trim() && !hasInvalidNumber;
+    // A model saved under another provider is kept, but shown as unavailable here.
+    const modelOptions = model && !provider.chatModels.includes(model) ? [...provider.chatModels, model] : provider.chatModels;
+
+    const toggleTool = (tool: ChatToolId) => {
+        setTools(prev => (prev.includes(tool) ? prev.filter(t => t !== tool) : [...prev, tool]));
+    };
+
+    const handleSave = () => {
+        if (!canSave) return;
+        const starterList = starters.split('\n').map(line => line.trim()).filter(Boolean).slice(0, MAX_STARTERS);
+        const settings = {
+            avatar: avatar.trim() || undefined,
+            model: model || undefined,
+            ...parsedNumbers,
+            tools: tools.length > 0 ? CHAT_TOOL_IDS.filter(tool => tools.includes(tool)) : undefined,
+            starters: starterList.length > 0 ? starterList : undefined,
+            voiceName: voiceName || undefined,
+        };
+        onSave({
+            name: name.trim(),
+            instruction,
+            welcomeMessage,
+            ...Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined)),
+        });
+    };
+
+    const fieldClass = "w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500";
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+            <div className="bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-6 w-full max-w-lg m-4 max-h-[90vh] overflow-y-auto">
+                <h3 className="text-xl font-bold mb-4">{isEditing ? 'Edit Custom Persona' : 'Create Custom Persona'}</h3>
+                <div className="space-y-4">
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            placeholder="🙂"
+                            value={avatar}
+                            onChange={(e) => setAvatar(e.target.value)}
+                            maxLength={8}
+                            className="w-14 p-3 text-center bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                            aria-label="Avatar emoji"
+                            title="Avatar emoji"
+                        />
+                        <input
+                            type="text"
+                            placeholder="Persona Name (e.g., 'Sarcastic Robot')"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className="flex-1 p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                        />
+                    </div>
+                    <textarea
+                        placeholder="Instruction Prompt (e.g., 'You are a sarcastic robot that begrudgingly helps people.')"
+                        value={instruction}
+                        onChange={(e) => setInstruction(e.target.value)}
+                        className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 h-24 resize-none"
+                    />
+                    <textarea
+                        placeholder="Welcome Message (e.g., 'Oh, great. Another human. What do you want?')"
+                        value={welcomeMessage}
+                        onChange={(e) => setWelcomeMessage(e.target.value)}
+                        className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 h-20 resize-none"
+                    />
+                    <textarea
+                        placeholder={`Starter suggestions, one per line (up to ${MAX_STARTERS})`}
+                        value={starters}
+                        onChange={(e) => setStarters(e.target.value)}
+                        className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 h-20 resize-none"
+                    />
+
+                    <button onClick={() => setShowAdvanced(prev => !prev)} className="text-sm font-medium text-slate-400 hover:text-white transition-colors">
+                        {showAdvanced ? '▾' : '▸'} Model, tools and voice
+                    </button>
+                    {showAdvanced && (
+                        <div className="space-y-4">
+                            <div>
+                                <label htmlFor="persona-model" className="block text-sm font-medium text-slate-400 mb-1">Model</label>
+                                <select id="persona-model" value={model} onChange={(e) => setModel(e.target.value)} className={fieldClass}>
+                                    <option value="">Provider default ({provider.models.chat})</option>
+                                    {modelOptions.map(option => (
+                                        <option key={option} value={option}>
+                                            {option}{provider.chatModels.includes(option) ? '' : ` (not offered by ${provider.name})`}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                {numberFields.map(field => (
+                                    <div key={field.key}>
+                                        <label htmlFor={`persona-${field.key}`} className="block text-sm font-medium text-slate-400 mb-1">{field.label}</label>
+                                        <input
+                                            id={`persona-${field.key}`}
+                                            type="number"
+                                            min={field.min}
+                                            max={field.max}
+                                            step={field.step}
+                                            value={numbers[field.key]}
+                                            onChange={(e) => setNumbers(prev => ({ ...prev, [field.key]: e.target.value }))}
+                                            placeholder="Default"
+                                            className={`${fieldClass} ${parsedNumbers[field.key] === null ? 'border-red-500' : ''}`}
+                                        />
+                                        <p className={`mt-1 text-xs ${parsedNumbers[field.key] === null ? 'text-red-300' : 'text-slate-500'}`}>{field.hint}</p>
+                                    </div>
+                                ))}
+                            </div>
+                            <fieldset>
+                                <legend className="block text-sm font-medium text-slate-400 mb-1">Tools</legend>
+                                <div className="space-y-1">
+                                    {CHAT_TOOL_IDS.map(tool => (
+                                        <label key={tool} className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+                                            <input type="checkbox" checked={tools.includes(tool)} onChange={() => toggleTool(tool)} className="mt-0.5 accent-indigo-500" />
+                                            <span>
+                                                {toolLabels[tool].label}
+                                                <span className="block text-xs text-slate-500">{toolLabels[tool].description}</span>
+                                            </span>
+                                        </label>
+                                    ))}
+                                </div>
+                                <p className={`mt-1 text-xs ${tools.length > 0 ? 'text-amber-300' : 'text-slate-500'}`}>
+                                    {tools.length > 0
+                                        ? `With a built-in tool on, the app's own tools (${appToolNames}) aren't available in this persona's chats.`
+                                        : `The app's own tools (${appToolNames}) are available while no built-in tool is on.`}
+                                </p>
+                            </fieldset>
+                            <div>
+                                <label htmlFor="persona-voice" className="block text-sm font-medium text-slate-400 mb-1">Text-to-speech voice</label>
+                                <select id="persona-voice" value={voiceName} onChange={(e) => setVoiceName(e.target.value)} className={fieldClass}>
+                                    <option value="">Browser default</option>
+                                    {voiceName && !voices.some(voice => voice.name === voiceName) && (
+                                        <option value={voiceName}>{voiceName} (not available in this browser)</option>
+                                    )}
+                                    {voices.map(voice => (
+                                        <option key={voice.voiceURI} value={voice.name}>{voice.name} ({voice.lang})</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <div className="flex justify-end gap-3 mt-6">
+                    <button onClick={onClose} className="px-4 py-2 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors">Cancel</button>
+                    <button onClick={handleSave} className="px-4 py-2 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:bg-indigo-400" disabled={!canSave}>{isEditing ? 'Update Persona' : 'Save Persona'}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PersonaCreatorModal;
@@ -0,0 +1,253 @@
+import React, { useState, useRef } from 'react';
+import { Persona, defaultPersonas } from '../types';
+import { buildPersonaShareUrl, createPersonaId, parsePersonaFile, serializePersonas } from '../services/personaTransfer';
+import { Icon } from './Icon';
+
+type ConflictResolution = 'overwrite' | 'duplicate' | 'skip';
+
+interface IncomingPersona {
+  persona: Persona;
+  /** The existing persona it clashes with, by id or by name. */
+  conflict: Persona | null;
+  resolution: ConflictResolution;
+}
+
+const resolutionLabels: Record<ConflictResolution, string> = {
+  overwrite: 'Overwrite',
+  duplicate: 'Keep both',
+  skip: 'Skip',
+};
+
+const findConflict = (persona: Persona, personas: Record<string, Persona>): Persona | null =>
+  personas[persona.id] ?? Object.values(personas).find(existing => existing.name.toLowerCase() === persona.name.toLowerCase()) ?? null;
+
+// Built-in personas can't be replaced, so clashes with them are always imported as copies.
+const canOverwrite = (incoming: IncomingPersona) => !!incoming.conflict && !defaultPersonas[incoming.conflict.id];
+
+/** Works out what an import adds, applying each persona's conflict resolution. */
+const resolveImport = (incoming: IncomingPersona[]): Persona[] => incoming.flatMap(({ persona, conflict, resolution }): Persona[] => {
+  if (!conflict) return [persona];
+  if (resolution === 'skip') return [];
+  if (resolution === 'overwrite' && !defaultPersonas[conflict.id]) return [{ ...persona, id: conflict.id }];
+  return [{ ...persona, id: createPersonaId(), name: `${persona.name} (imported)` }];
+});
+
+interface PersonaTransferModalProps {
+  personas: Record<string, Persona>;
+  /** Personas waiting to be imported, e.g., from a share link; opens straight to the review step. */
+  initialImport?: Persona[] | null;
+  onImport: (personas: Persona[]) => void;
+  onClose: () => void;
+}
+
+/** Exports custom personas to a file or share link, and imports them back with conflict handling. */
+const PersonaTransferModal: React.FC<PersonaTransferModalProps> = ({ personas, initialImport, onImport, onClose }) => {
+  const customPersonas = Object.values(personas).filter(p => !defaultPersonas[p.id]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(customPersonas.map(p => p.id)));
+  const [incoming, setIncoming] = useState<IncomingPersona[] | null>(() =>
+    initialImport ? initialImport.map(persona => ({ persona, conflict: findConflict(persona, personas), resolution: 'duplicate' })) : null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const updated = new Set(prev);
+      if (updated.has(id)) updated.delete(id);
+      else updated.add(id);
+      return updated;
+    });
+  };
+
+  const handleExport = (toExport: Persona[]) => {
+    const blob = new Blob([serializePersonas(toExport)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = toExport.length === 1
+      ? `nexus-persona-${toExport[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}.json`
+      : `nexus-personas-${Date.now()}.json`;
+    link.click();
+    // Give the browser a moment to start the download before the URL is released.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleCopyLink = async (persona: Persona) => {
+    setError(null);
+    try {
+      await navigator.clipboard.writeText(buildPersonaShareUrl(persona));
+      setNotice(`Copied a share link for "${persona.name}".`);
+    } catch (e: any) {
+      setError(e.message || 'Could not copy the link to the clipboard.');
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const parsed = parsePersonaFile(await file.text());
+      setIncoming(parsed.map(persona => ({ persona, conflict: findConflict(persona, personas), resolution: 'duplicate' })));
+    } catch (e: any) {
+      setError(`Could not import ${file.name}: ${e.message}`);
+    }
+  };
+
+  const setResolution = (index: number, resolution: ConflictResolution) => {
+    setIncoming(prev => prev && prev.map((item, i) => (i === index ? { ...item, resolution } : item)));
+  };
+
+  const setAllResolutions = (resolution: ConflictResolution) => {
+    setIncoming(prev => prev && prev.map(item => (
+      item.conflict && (resolution !== 'overwrite' || canOverwrite(item)) ? { ...item, resolution } : item
+    )));
+  };
+
+  const handleConfirmImport = () => {
+    if (!incoming) return;
+    const resolved = resolveImport(incoming);
+    if (resolved.length > 0) onImport(resolved);
+    setIncoming(null);
+    setNotice(resolved.length > 0
+      ? `Imported ${resolved.length} ${resolved.length === 1 ? 'persona' : 'personas'}.`
+      : 'Nothing was imported.');
+  };
+
+  const renderManage = () => (
+    <>
+      <div className="flex flex-wrap gap-2 mb-3">
+        <button
+          onClick={() => handleExport(customPersonas.filter(p => selectedIds.has(p.id)))}
+          disabled={selectedIds.size === 0}
+          className="px-3 py-2 text-sm font-medium rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white transition-colors disabled:bg-indigo-400"
+        >
+          Export Selected ({customPersonas.filter(p => selectedIds.has(p.id)).length})
+        </button>
+        <button
+          onClick={() => handleExport(customPersonas)}
+          disabled={customPersonas.length === 0}
+          className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors disabled:opacity-50"
+        >
+          Export All
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors">
+          Import File
+        </button>
+        <input
+          type="file"
+          ref={importInputRef}
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => { e.target.files?.[0] && handleImportFile(e.target.files[0]); e.target.value = ''; }}
+        />
+      </div>
+      <ul className="space-y-2 max-h-[50vh] overflow-y-auto">
+        {customPersonas.length === 0 && (
+          <li className="p-6 text-center text-sm text-slate-500">You have no custom personas yet. Create one, or import a file from a teammate.</li>
+        )}
+        {customPersonas.map(persona => (
+          <li key={persona.id} className="flex items-start gap-3 p-3 rounded-lg border border-slate-700 bg-slate-900/50">
+            <input
+              type="checkbox"
+              checked={selectedIds.has(persona.id)}
+              onChange={() => toggleSelected(persona.id)}
+              className="mt-1 accent-indigo-500"
+              aria-label={`Select ${persona.name}`}
+            />
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-slate-200 truncate">{persona.name}</p>
+              <p className="text-xs text-slate-500 line-clamp-2">{persona.instruction}</p>
+            </div>
+            <button
+              onClick={() => handleCopyLink(persona)}
+              className="flex-shrink-0 flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors"
+              title="Copy a link that adds this persona when opened"
+            >
+              <Icon name="share" className="w-3.5 h-3.5" />
+              <span>Copy Link</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+
+  const renderReview = (items: IncomingPersona[]) => {
+    const conflictCount = items.filter(item => item.conflict).length;
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-slate-400">
+          {items.length} {items.length === 1 ? 'persona' : 'personas'} to import
+          {conflictCount > 0 && `; ${conflictCount} ${conflictCount === 1 ? 'clashes' : 'clash'} with personas you already have`}.
+        </p>
+        {conflictCount > 1 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-slate-500">For every clash:</span>
+            {(Object.keys(resolutionLabels) as ConflictResolution[]).map(resolution => (
+              <button key={resolution} onClick={() => setAllResolutions(resolution)} className="px-2 py-1 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors">
+                {resolutionLabels[resolution]}
+              </button>
+            ))}
+          </div>
+        )}
+        <ul className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {items.map((item, index) => (
+            <li key={index} className="p-3 rounded-lg border border-slate-700 bg-slate-900/50">
+              <div className="flex justify-between items-start gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-200 truncate">{item.persona.name}</p>
+                  <p className="text-xs text-slate-500 line-clamp-2">{item.persona.instruction}</p>
+                </div>
+                {item.conflict ? (
+                  <select
+                    value={item.resolution}
+                    onChange={(e) => setResolution(index, e.target.value as ConflictResolution)}
+                    className="flex-shrink-0 p-1.5 text-xs bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-indigo-500"
+                    aria-label={`What to do with ${item.persona.name}`}
+                  >
+                    {(Object.keys(resolutionLabels) as ConflictResolution[]).map(resolution => (
+                      <option key={resolution} value={resolution} disabled={resolution === 'overwrite' && !canOverwrite(item)}>
+                        {resolutionLabels[resolution]}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="flex-shrink-0 px-2 py-0.5 text-xs rounded-full bg-green-900/50 text-green-300">New</span>
+                )}
+              </div>
+              {item.conflict && (
+                <p className="mt-1 text-xs text-amber-300">
+                  Clashes with "{item.conflict.name}"{defaultPersonas[item.conflict.id] ? ', a built-in persona, so it can only be kept as a copy' : ''}.
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="flex justify-end gap-3">
+          <button onClick={() => setIncoming(null)} className="px-4 py-2 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors">Cancel</button>
+          <button onClick={handleConfirmImport} className="px-4 py-2 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 transition-colors">
+            Import
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg border border-slate-700 max-w-2xl w-full max-h-[90vh] overflow-y-auto p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-slate-100">{incoming ? 'Import Personas' : 'Share Personas'}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Close">
+            <Icon name="close" className="w-5 h-5" />
+          </button>
+        </div>
+        {notice && <div className="mb-3 p-2 text-sm bg-green-900/40 text-green-300 border border-green-800 rounded-lg">{notice}</div>}
+        {error && <div className="mb-3 p-2 text-sm bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
+        {incoming ? renderReview(incoming) : renderManage()}
+      </div>
+    </div>
+  );
+};
+
+export default PersonaTransferModal;
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import type { AspectRatio, ImageOutputFormat } from '../services/aiProvider';
+import type { GenerationPreset } from '../services/generationPresets';
+import type { PresetDraft } from '../hooks/useGenerationPresets';
+import { Icon } from './Icon';
+
+// Select value for settings a preset leaves alone.
+const KEEP = '';
+
+const aspectRatioOptions: { value: AspectRatio; label: string }[] = [
+  { value: '1:1', label: 'Square (1:1)' },
+  { value: '16:9', label: 'Landscape (16:9)' },
+  { value: '9:16', label: 'Portrait (9:16)' },
+];
+
+const formatOptions: { value: ImageOutputFormat; label: string }[] = [
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/jpeg', label: 'JPEG' },
+];
+
+/** A one-line summary of what a preset changes, shown as its tooltip. */
+const describePreset = (preset: GenerationPreset): string => [
+  preset.styleModifiers,
+  preset.aspectRatio,
+  preset.count && `${preset.count}×`,
+  preset.negativePrompt && `avoid: ${preset.negativePrompt}`,
+  preset.outputFormat && formatOptions.find(option => option.value === preset.outputFormat)?.label,
+].filter(Boolean).join(' · ');
+
+interface PresetFormModalProps {
+  preset: GenerationPreset | null;
+  initialDraft: PresetDraft;
+  onSave: (draft: PresetDraft) => void;
+  onClose: () => void;
+}
+
+const PresetFormModal: React.FC<PresetFormModalProps> = ({ preset, initialDraft, onSave, onClose }) => {
+  const [draft, setDraft] = useState<PresetDraft>(initialDraft);
+  const update = (changes: Partial<PresetDraft>) => setDraft(prev => ({ ...prev, ...changes }));
+  const fieldClass = 'w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500';
+
+  const handleSave = () => {
+    onSave({ ...draft, name: draft.name.trim(), styleModifiers: draft.styleModifiers.trim(), negativePrompt: draft.negativePrompt?.trim() || undefined });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg border border-slate-700 max-w-xl w-full max-h-[90vh] overflow-y-auto p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-slate-100">{preset ? 'Edit Preset' : 'New Preset'}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Close">
+            <Icon name="close" className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="preset-name" className="block text-sm font-medium text-slate-400 mb-1">Name</label>
+            <input id="preset-name" type="text" autoFocus value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g., Moody Noir" className={fieldClass} />
+          </div>
+          <div>
+            <label htmlFor="preset-modifiers" className="block text-sm font-medium text-slate-400 mb-1">Style Modifiers</label>
+            <textarea
+              id="preset-modifiers"
+              value={draft.styleModifiers}
+              onChange={(e) => update({ styleModifiers: e.target.value })}
+              placeholder="e.g., black and white, high contrast, rain-soaked streets"
+              className={`${fieldClass} h-20 resize-none`}
+            />
+            <p className="mt-1 text-xs text-slate-500">Added to the end of every prompt generated with this preset.</p>
+          </div>
+          <div className="grid sm:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="preset-aspect-ratio" className="block text-sm font-medium text-slate-400 mb-1">Aspect Ratio</label>
+              <select
+                id="preset-aspect-ratio"
+                value={draft.aspectRatio ?? KEEP}
+                onChange={(e) => update({ aspectRatio: (e.target.value || undefined) as AspectRatio | undefined })}
+                className={fieldClass}
+              >
+                <option value={KEEP}>Keep current</option>
+                {aspectRatioOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="preset-count" className="block text-sm font-medium text-slate-400 mb-1">Count</label>
+              <select
+                id="preset-count"
+                value={draft.count ?? KEEP}
+                onChange={(e) => update({ count: e.target.value ? Number(e.target.value) : undefined })}
+                className={fieldClass}
+              >
+                <option value={KEEP}>Keep current</option>
+                {[1, 2, 3, 4].map(count => <option key={count} value={count}>{count}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="preset-format" className="block text-sm font-medium text-slate-400 mb-1">Image Format</label>
+              <select
+                id="preset-format"
+                value={draft.outputFormat ?? KEEP}
+                onChange={(e) => update({ outputFormat: (e.target.value || undefined) as ImageOutputFormat | undefined })}
+                className={fieldClass}
+              >
+                <option value={KEEP}>Provider default</option>
+                {formatOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="preset-negative" className="block text-sm font-medium text-slate-400 mb-1">Negative Prompt</label>
+            <input
+              id="preset-negative"
+              type="text"
+              value={draft.negativePrompt ?? ''}
+              onChange={(e) => update({ negativePrompt: e.target.value })}
+              placeholder="Keep current"
+              className={fieldClass}
+            />
+          </div>
+          <p className="text-xs text-slate-500">Presets are shared by the image and video tools; video ignores the image format and square aspect ratio, and makes at most 2 videos.</p>
+          <div className="flex justify-end gap-3">
+            <button onClick={onClose} className="px-4 py-2 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors">Cancel</button>
+            <button
+              onClick={handleSave}
+              disabled={!draft.name.trim()}
+              className="px-4 py-2 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:bg-indigo-400"
+            >
+              {preset ? 'Update Preset' : 'Save Preset'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface PresetChipsProps {
+  presets: GenerationPreset[];
+  selectedId: string | null;
+  /** Called with the chosen preset, or null for none; also after a preset is saved, to apply it. */
+  onSelect: (preset: GenerationPreset | null) => void;
+  onSavePreset: (draft: PresetDraft, id?: string) => string;
+  onDeletePreset: (id: string) => void;
+  /** The tool's current settings, used to fill in a new preset. */
+  currentSettings: Omit<PresetDraft, 'name' | 'styleModifiers'>;
+  disabled?: boolean;
+}
+
+/** The built-in and saved generation presets as a row of chips. */
+const PresetChips: React.FC<PresetChipsProps> = ({ presets, selectedId, onSelect, onSavePreset, onDeletePreset, currentSettings, disabled }) => {
+  const [editing, setEditing] = useState<{ preset: GenerationPreset | null } | null>(null);
+  const selected = presets.find(preset => preset.id === selectedId) ?? null;
+
+  const handleSave = (draft: PresetDraft) => {
+    const id = onSavePreset(draft, editing?.preset?.id);
+    onSelect({ ...draft, id });
+  };
+
+  const handleDelete = (preset: GenerationPreset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    onDeletePreset(preset.id);
+    if (selectedId === preset.id) onSelect(null);
+  };
+
+  const toDraft = ({ id: _id, builtIn: _builtIn, ...draft }: GenerationPreset): PresetDraft => draft;
+
+  const chipClass = (isActive: boolean) => `px-3 py-1 text-sm font-medium rounded-full transition-colors disabled:opacity-60 ${
+    isActive ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+  }`;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-400 mb-2">Preset</label>
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onSelect(null)} disabled={disabled} className={chipClass(!selected)}>None</button>
+        {presets.map(preset => (
+          <button key={preset.id} onClick={() => onSelect(preset)} disabled={disabled} className={chipClass(selectedId === preset.id)} title={describePreset(preset)}>
+            {preset.name}
+          </button>
+        ))}
+        <button
+          onClick={() => setEditing({ preset: null })}
+          disabled={disabled}
+          className="px-3 py-1 text-sm font-medium rounded-full border border-dashed border-slate-600 text-slate-400 hover:text-white hover:border-slate-400 transition-colors disabled:opacity-60"
+        >
+          + New Preset
+        </button>
+        {selected && !selected.builtIn && (
+          <div className="flex gap-1">
+            <button onClick={() => setEditing({ preset: selected })} disabled={disabled} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700" title="Edit preset">
+              <Icon name="edit" className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleDelete(selected)} disabled={disabled} className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700" title="Delete preset">
+              <Icon name="trash" className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+      {selected?.styleModifiers && <p className="mt-2 text-xs text-slate-500 truncate" title={selected.styleModifiers}>Adds: {selected.styleModifiers}</p>}
+      {editing && (
+        <PresetFormModal
+          preset={editing.preset}
+          initialDraft={editing.preset ? toDraft(editing.preset) : { name: '', styleModifiers: '', ...currentSettings }}
+          onSave={handleSave}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PresetChips;
@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import type { AspectRatio, ImageOutputFormat, PersonGeneration } from '../services/aiProvider';
+import { GenerationPreset, PresetSnapshot, applyStyleModifiers, toPresetSnapshot } from '../services/generationPresets';
+import { getMimeType } from '../services/imageProcessing';
+import { useAIProvider } from '../hooks/useAIProvider';
+import Spinner from './Spinner';
+import { Icon } from './Icon';
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 4;
+
+/** The settings one variant was generated with; a subset of what a history item records. */
+export interface ComparisonSettings {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  negativePrompt?: string;
+  personGeneration?: PersonGeneration;
+  outputFormat?: ImageOutputFormat;
+  preset?: PresetSnapshot;
+}
+
+export interface ComparisonWinner {
+  /** Shared by every variant of a run. */
+  runId: string;
+  /** The variant's letter, A to D. */
+  variant: string;
+  variantCount: number;
+  url: string;
+  mimeType: string;
+  seed?: number;
+  settings: ComparisonSettings;
+}
+
+interface Variant {
+  id: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  negativePrompt: string;
+  presetId: string | null;
+}
+
+interface VariantResult {
+  settings: ComparisonSettings;
+  status: 'loading' | 'done' | 'failed';
+  url?: string;
+  seed?: number;
+  error?: string;
+}
+
+interface ComparisonRun {
+  id: string;
+  results: VariantResult[];
+  winnerIndex: number | null;
+  isSaving: boolean;
+}
+
+const variantLetter = (index: number) => String.fromCharCode(65 + index);
+
+const createVariantId = () => `variant-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const aspectRatioOptions: AspectRatio[] = ['1:1', '16:9', '9:16'];
+
+interface PromptComparisonProps {
+  /** Whether the comparison is on screen; it stays mounted while hidden to keep its results. */
+  isActive: boolean;
+  /** The main form's settings, which blank variants are filled from when the comparison is shown. */
+  baseSettings: { prompt: string; aspectRatio: AspectRatio; negativePrompt: string; presetId: string | null };
+  presets: GenerationPreset[];
+  /** Applied to every variant, so only the prompt and listed parameters differ. */
+  sharedSettings: { seed?: number; personGeneration?: PersonGeneration; outputFormat?: ImageOutputFormat };
+  /** Saves the picked result to history. */
+  onSaveWinner: (winner: ComparisonWinner) => Promise<void>;
+  /** Copies a variant's settings back into the main form. */
+  onUseVariant: (settings: ComparisonSettings) => void;
+}
+
+/** Generates 2–4 prompt or parameter variants side by side so they can be judged against each other. */
+const PromptComparison: React.FC<PromptComparisonProps> = ({ isActive, baseSettings, presets, sharedSettings, onSaveWinner, onUseVariant }) => {
+  const provider = useAIProvider();
+  const [variants, setVariants] = useState<Variant[]>(() =>
+    Array.from({ length: MIN_VARIANTS }, () => ({ id: createVariantId(), ...baseSettings })));
+  const [run, setRun] = useState<ComparisonRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isRunning = !!run?.results.some(result => result.status === 'loading');
+
+  useEffect(() => {
+    if (!isActive || !baseSettings.prompt.trim()) return;
+    setVariants(prev => (prev.every(variant => !variant.prompt.trim()) ? prev.map(variant => ({ ...variant, ...baseSettings })) : prev));
+  }, [isActive]);
+
+  const updateVariant = (id: string, changes: Partial<Variant>) => {
+    setVariants(prev => prev.map(variant => (variant.id === id ? { ...variant, ...changes } : variant)));
+  };
+
+  const addVariant = () => {
+    // A new variant copies the last one, since variants usually differ in a single detail.
+    setVariants(prev => [...prev, { ...prev[prev.length - 1], id: createVariantId() }]);
+  };
+
+  const updateResult = (runId: string, index: number, changes: Partial<VariantResult>) => {
+    setRun(prev => (prev?.id === runId
+      ? { ...prev, results: prev.results.map((result, i) => (i === index ? { ...result, ...changes } : result)) }
+      : prev));
+  };
+
+  const handleRun = async () => {
+    if (variants.some(variant => !variant.prompt.trim())) {
+      setError('Every variant needs a prompt.');
+      return;
+    }
+    setError(null);
+    const runId = `comparison-${Date.now()}`;
+    const settingsList: ComparisonSettings[] = variants.map(variant => {
+      const preset = presets.find(p => p.id === variant.presetId);
+      return {
+        prompt: variant.prompt.trim(),
+        aspectRatio: variant.aspectRatio,
+        negativePrompt: variant.negativePrompt.trim() || undefined,
+        personGeneration: sharedSettings.personGeneration,
+        outputFormat: preset?.outputFormat ?? sharedSettings.outputFormat,
+        preset: preset ? toPresetSnapshot(preset) : undefined,
+      };
+    });
+    setRun({ id: runId, results: settingsList.map(settings => ({ settings, status: 'loading' })), winnerIndex: null, isSaving: false });
+
+    await Promise.all(settingsList.map(async (settings, index) => {
+      try {
+        const [image] = await provider.generateImage(applyStyleModifiers(settings.prompt, settings.preset?.styleModifiers), {
+          ...settings,
+          numberOfImages: 1,
+          seed: provider.supportsImageSeed ? sharedSettings.seed : undefined,
+        });
+        updateResult(runId, index, { status: 'done', url: image.url, seed: image.seed });
+      } catch (e: any) {
+        updateResult(runId, index, { status: 'failed', error: e.message || 'Failed to generate this variant.' });
+      }
+    }));
+  };
+
+  const handlePickWinner = async (index: number) => {
+    const result = run?.results[index];
+    if (!run || !result?.url || run.winnerIndex !== null) return;
+    setRun(prev => prev && { ...prev, isSaving: true });
+    try {
+      await onSaveWinner({
+        runId: run.id,
+        variant: variantLetter(index),
+        variantCount: run.results.length,
+        url: result.url,
+        mimeType: getMimeType(result.url),
+        seed: result.seed,
+        settings: result.settings,
+      });
+      setRun(prev => (prev?.id === run.id ? { ...prev, winnerIndex: index, isSaving: false } : prev));
+    } catch (e: any) {
+      setRun(prev => (prev?.id === run.id ? { ...prev, isSaving: false } : prev));
+      setError(e.message || 'Failed to save the winner to history.');
+    }
+  };
+
+  const fieldClass = 'w-full p-2 text-sm bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid sm:grid-cols-2 gap-4">
+        {variants.map((variant, index) => (
+          <div key={variant.id} className="p-3 rounded-lg border border-slate-700 bg-slate-900/40 space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-bold text-indigo-300">Variant {variantLetter(index)}</span>
+              {variants.length > MIN_VARIANTS && (
+                <button
+                  onClick={() => setVariants(prev => prev.filter(v => v.id !== variant.id))}
+                  disabled={isRunning}
+                  className="text-slate-500 hover:text-red-400"
+                  title="Remove variant"
+                >
+                  <Icon name="close" className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            <textarea
+              value={variant.prompt}
+              onChange={(e) => updateVariant(variant.id, { prompt: e.target.value })}
+              placeholder="Prompt for this variant"
+              className={`${fieldClass} h-20 resize-none`}
+              disabled={isRunning}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={variant.aspectRatio}
+                onChange={(e) => updateVariant(variant.id, { aspectRatio: e.target.value as AspectRatio })}
+                className={fieldClass}
+                disabled={isRunning}
+                aria-label="Aspect ratio"
+              >
+                {aspectRatioOptions.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+              </select>
+              <select
+                value={variant.presetId ?? ''}
+                onChange={(e) => updateVariant(variant.id, { presetId: e.target.value || null })}
+                className={fieldClass}
+                disabled={isRunning}
+                aria-label="Preset"
+              >
+                <option value="">No preset</option>
+                {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+              </select>
+            </div>
+            <input
+              type="text"
+              value={variant.negativePrompt}
+              onChange={(e) => updateVariant(variant.id, { negativePrompt: e.target.value })}
+              placeholder="Negative prompt (optional)"
+              className={fieldClass}
+              disabled={isRunning}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <button
+          onClick={addVariant}
+          disabled={isRunning || variants.length >= MAX_VARIANTS}
+          className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors disabled:opacity-50"
+        >
+          + Add Variant
+        </button>
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className="flex justify-center items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-bold py-3 px-6 rounded-lg transition-transform duration-200 disabled:cursor-not-allowed transform hover:scale-105"
+        >
+          {isRunning ? <Spinner /> : <Icon name="sparkles" className="w-5 h-5" />}
+          <span>{isRunning ? 'Generating...' : `Compare ${variants.length} Variants`}</span>
+        </button>
+      </div>
+
+      {error && <div className="p-3 bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
+
+      {run && (
+        <div className={`grid gap-4 ${run.results.length > 2 ? 'sm:grid-cols-2 lg:grid-cols-4' : 'sm:grid-cols-2'}`}>
+          {run.results.map((result, index) => {
+            const isWinner = run.winnerIndex === index;
+            return (
+              <div
+                key={index}
+                className={`flex flex-col rounded-lg border-2 overflow-hidden bg-slate-900/50 ${isWinner ? 'border-amber-400' : 'border-slate-700'}`}
+              >
+                <div className="relative aspect-square flex items-center justify-center bg-slate-900">
+                  {result.status === 'loading' && <Spinner size="lg" />}
+                  {result.status === 'failed' && <p className="p-3 text-sm text-center text-red-300">{result.error}</p>}
+                  {result.url && <img src={result.url} alt={`Variant ${variantLetter(index)}`} className="w-full h-full object-contain" />}
+                  <span className="absolute top-2 left-2 px-2 py-0.5 text-xs font-bold rounded bg-slate-900/80 text-slate-200">{variantLetter(index)}</span>
+                  {isWinner && <span className="absolute top-2 right-2 px-2 py-0.5 text-xs font-bold rounded bg-amber-400 text-slate-900">Winner</span>}
+                </div>
+                <div className="p-3 flex flex-col gap-2 flex-grow text-xs">
+                  <p className="text-sm text-slate-200 line-clamp-3" title={result.settings.prompt}>{result.settings.prompt}</p>
+                  <p className="text-slate-500">
+                    {[
+                      result.settings.aspectRatio,
+                      result.settings.preset?.name,
+                      result.settings.negativePrompt && `avoid: ${result.settings.negativePrompt}`,
+                      result.seed !== undefined && `seed ${result.seed}`,
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                  <div className="mt-auto flex justify-end gap-2">
+                    <button
+                      onClick={() => onUseVariant(result.settings)}
+                      className="px-2 py-1 rounded-md font-medium bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors"
+                    >
+                      Use Prompt
+                    </button>
+                    <button
+                      onClick={() => handlePickWinner(index)}
+                      disabled={result.status !== 'done' || run.winnerIndex !== null || run.isSaving}
+                      className="flex items-center gap-1 px-2 py-1 rounded-md font-medium bg-amber-500/20 text-amber-300 hover:bg-amber-500/30 transition-colors disabled:opacity-40"
+                      title={run.winnerIndex === null ? 'Mark as the winner and save it to history' : undefined}
+                    >
+                      <Icon name={isWinner ? 'star-filled' : 'star'} className="w-3.5 h-3.5" />
+                      <span>{isWinner ? 'Saved' : 'Winner'}</span>
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptComparison;
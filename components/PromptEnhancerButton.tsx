@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import type { PromptEnhanceOptions } from '../services/aiProvider';
+import { PROMPT_STYLES, diffWords, getPromptStyle } from '../services/promptEnhancer';
+import { useAIProvider } from '../hooks/useAIProvider';
+import Spinner from './Spinner';
+import { Icon } from './Icon';
+
+interface PromptEnhancerModalProps {
+  prompt: string;
+  target: PromptEnhanceOptions['target'];
+  initialStyleId: string | null;
+  onAccept: (text: string, styleId: string | null) => void;
+  onClose: () => void;
+}
+
+const PromptEnhancerModal: React.FC<PromptEnhancerModalProps> = ({ prompt, target, initialStyleId, onAccept, onClose }) => {
+  const provider = useAIProvider();
+  const [styleId, setStyleId] = useState<string | null>(initialStyleId);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  const [draft, setDraft] = useState<string>('');
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const enhance = async (nextStyleId: string | null) => {
+    setLoading(true);
+    setError(null);
+    setIsEditing(false);
+    try {
+      const text = await provider.enhancePrompt(prompt, { target, style: getPromptStyle(nextStyleId)?.description });
+      setSuggestion(text);
+      setDraft(text);
+    } catch (e: any) {
+      setError(e.message || 'Failed to enhance the prompt. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    enhance(styleId);
+  }, []);
+
+  const handleStyleChange = (nextStyleId: string | null) => {
+    setStyleId(nextStyleId);
+    enhance(nextStyleId);
+  };
+
+  const StyleChip: React.FC<{ value: string | null; label: string; title?: string }> = ({ value, label, title }) => (
+    <button
+      onClick={() => handleStyleChange(value)}
+      disabled={loading}
+      title={title}
+      className={`px-2.5 py-1 text-xs font-medium rounded-full transition-colors disabled:opacity-60 ${
+        styleId === value ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg border border-slate-700 max-w-3xl w-full max-h-[90vh] overflow-y-auto p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-slate-100">Enhance Prompt</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Close">
+            <Icon name="close" className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1.5 mb-4">
+          <StyleChip value={null} label="No style" />
+          {PROMPT_STYLES.map(style => <StyleChip key={style.id} value={style.id} label={style.label} title={style.description} />)}
+        </div>
+
+        {error && <div className="mb-3 p-2 text-sm bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
+
+        <div className="min-h-[8rem] p-3 rounded-lg bg-slate-900/70 text-sm leading-relaxed">
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 h-28 text-slate-400"><Spinner /><span>Rewriting your prompt...</span></div>
+          ) : isEditing ? (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              autoFocus
+              className="w-full h-40 p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 resize-none"
+            />
+          ) : suggestion !== null ? (
+            <p className="whitespace-pre-wrap">
+              {diffWords(prompt, suggestion).map((segment, index) => (
+                <span
+                  key={index}
+                  className={
+                    segment.type === 'added' ? 'bg-green-900/50 text-green-300'
+                      : segment.type === 'removed' ? 'bg-red-900/40 text-red-300 line-through'
+                      : 'text-slate-300'
+                  }
+                >
+                  {segment.type === 'removed' && !/\s$/.test(segment.text) ? `${segment.text} ` : segment.text}
+                </span>
+              ))}
+            </p>
+          ) : (
+            <p className="text-slate-500">{prompt}</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-3 mt-4">
+          <button onClick={onClose} className="px-4 py-2 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors">
+            Reject
+          </button>
+          <button
+            onClick={() => enhance(styleId)}
+            disabled={loading}
+            className="px-4 py-2 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors disabled:opacity-50"
+          >
+            Try Again
+          </button>
+          {!isEditing && (
+            <button
+              onClick={() => setIsEditing(true)}
+              disabled={loading || suggestion === null}
+              className="px-4 py-2 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors disabled:opacity-50"
+            >
+              Edit
+            </button>
+          )}
+          <button
+            onClick={() => { onAccept(draft.trim(), styleId); onClose(); }}
+            disabled={loading || suggestion === null || !draft.trim()}
+            className="px-4 py-2 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:bg-indigo-400"
+          >
+            Accept
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface PromptEnhancerButtonProps {
+  prompt: string;
+  target: PromptEnhanceOptions['target'];
+  /** The style the current prompt was enhanced with, saved with the results. */
+  styleId: string | null;
+  onAccept: (text: string, styleId: string | null) => void;
+  onClearStyle: () => void;
+  disabled?: boolean;
+}
+
+/** Rewrites a generator's prompt with the text model, showing what changed before it is used. */
+const PromptEnhancerButton: React.FC<PromptEnhancerButtonProps> = ({ prompt, target, styleId, onAccept, onClearStyle, disabled }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const style = getPromptStyle(styleId);
+  return (
+    <>
+      {style && (
+        <span className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-indigo-900/50 text-indigo-300" title={style.description}>
+          {style.label}
+          <button onClick={onClearStyle} disabled={disabled} className="hover:text-white" title="Clear style">
+            <Icon name="close" className="w-3 h-3" />
+          </button>
+        </span>
+      )}
+      <button
+        onClick={() => setIsOpen(true)}
+        disabled={disabled || !prompt.trim()}
+        className="flex items-center gap-1.5 px-2.5 py-1 text-sm font-medium rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+        title={prompt.trim() ? 'Rewrite the prompt in more detail' : 'Enter a prompt to enhance'}
+      >
+        <Icon name="sparkles" className="w-4 h-4" />
+        <span>Enhance</span>
+      </button>
+      {isOpen && <PromptEnhancerModal prompt={prompt} target={target} initialStyleId={styleId} onAccept={onAccept} onClose={() => setIsOpen(false)} />}
+    </>
+  );
+};
+
+export default PromptEnhancerButton;
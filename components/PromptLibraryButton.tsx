@@ -0,0 +1,347 @@
+import React, { useState, useRef } from 'react';
+import { SavedPrompt } from '../types';
+import { PromptDraft, usePromptLibrary } from '../hooks/usePromptLibrary';
+import { extractVariables, fillTemplate, parsePromptLibrary, serializePromptLibrary } from '../services/promptTemplates';
+import { Icon } from './Icon';
+
+// Folder filter values besides folder names.
+const ALL_FOLDERS = '__all__';
+const UNFILED = '__unfiled__';
+
+type LibraryView =
+  | { kind: 'browse' }
+  | { kind: 'edit'; prompt: SavedPrompt | null; draft: PromptDraft }
+  | { kind: 'fill'; prompt: SavedPrompt; values: Record<string, string> };
+
+const matchesQuery = (prompt: SavedPrompt, query: string): boolean => {
+  if (!query) return true;
+  return [prompt.title, prompt.text, prompt.folder, ...prompt.tags].join(' ').toLowerCase().includes(query.toLowerCase());
+};
+
+const parseTags = (value: string): string[] => [...new Set(value.split(',').map(tag => tag.trim()).filter(Boolean))];
+
+interface PromptLibraryModalProps {
+  currentPrompt: string;
+  onInsert: (text: string) => void;
+  onClose: () => void;
+}
+
+const PromptLibraryModal: React.FC<PromptLibraryModalProps> = ({ currentPrompt, onInsert, onClose }) => {
+  const { prompts, folders, tags, savePrompt, deletePrompt, importPrompts } = usePromptLibrary();
+  const [view, setView] = useState<LibraryView>({ kind: 'browse' });
+  const [query, setQuery] = useState<string>('');
+  const [folderFilter, setFolderFilter] = useState<string>(ALL_FOLDERS);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState<string>('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const visiblePrompts = prompts.filter(prompt =>
+    (folderFilter === ALL_FOLDERS || (folderFilter === UNFILED ? !prompt.folder : prompt.folder === folderFilter))
+    && (!tagFilter || prompt.tags.includes(tagFilter))
+    && matchesQuery(prompt, query));
+
+  const startEditing = (prompt: SavedPrompt | null) => {
+    const draft: PromptDraft = prompt
+      ? { title: prompt.title, text: prompt.text, folder: prompt.folder, tags: prompt.tags }
+      : { title: '', text: currentPrompt, folder: folderFilter !== ALL_FOLDERS && folderFilter !== UNFILED ? folderFilter : '', tags: [] };
+    setTagInput(draft.tags.join(', '));
+    setView({ kind: 'edit', prompt, draft });
+  };
+
+  const handleUse = (prompt: SavedPrompt) => {
+    const variables = extractVariables(prompt.text);
+    if (variables.length === 0) {
+      onInsert(prompt.text);
+      onClose();
+      return;
+    }
+    setView({ kind: 'fill', prompt, values: Object.fromEntries(variables.map(variable => [variable.name, variable.defaultValue])) });
+  };
+
+  const handleDelete = (prompt: SavedPrompt) => {
+    if (window.confirm(`Delete the prompt "${prompt.title}"?`)) deletePrompt(prompt.id);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePromptLibrary(prompts)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `nexus-ai-prompts-${Date.now()}.json`;
+    link.click();
+    // Give the browser a moment to start the download before the URL is released.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const { added, replaced } = importPrompts(parsePromptLibrary(await file.text()));
+      setNotice(`Imported ${added} new ${added === 1 ? 'prompt' : 'prompts'}${replaced ? ` and updated ${replaced}` : ''}.`);
+    } catch (e: any) {
+      setError(`Could not import ${file.name}: ${e.message}`);
+    }
+  };
+
+  const renderBrowse = () => (
+    <>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search prompts..."
+          className="flex-1 min-w-[10rem] p-2 text-sm bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+        />
+        <button onClick={() => startEditing(null)} className="px-3 py-2 text-sm font-medium rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white transition-colors">
+          {currentPrompt.trim() ? 'Save Current Prompt' : 'New Prompt'}
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors">
+          Import
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={prompts.length === 0}
+          className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 transition-colors disabled:opacity-50"
+        >
+          Export
+        </button>
+        <input
+          type="file"
+          ref={importInputRef}
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => { e.target.files?.[0] && handleImport(e.target.files[0]); e.target.value = ''; }}
+        />
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-3">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setTagFilter(prev => (prev === tag ? null : tag))}
+              className={`px-2 py-0.5 text-xs rounded-full transition-colors ${
+                tagFilter === tag ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid sm:grid-cols-[10rem_1fr] gap-3">
+        <nav className="flex sm:flex-col gap-1 overflow-x-auto text-sm">
+          {[{ value: ALL_FOLDERS, label: 'All prompts' }, { value: UNFILED, label: 'Unfiled' }, ...folders.map(folder => ({ value: folder, label: folder }))].map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setFolderFilter(value)}
+              className={`px-2 py-1.5 rounded-md text-left whitespace-nowrap truncate transition-colors ${
+                folderFilter === value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700/50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
+        <ul className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {visiblePrompts.length === 0 && (
+            <li className="p-6 text-center text-sm text-slate-500">
+              {prompts.length === 0 ? 'No saved prompts yet. Save the current prompt or import a library.' : 'No prompts match your filters.'}
+            </li>
+          )}
+          {visiblePrompts.map(prompt => {
+            const variableCount = extractVariables(prompt.text).length;
+            return (
+              <li key={prompt.id} className="p-3 rounded-lg border border-slate-700 bg-slate-900/50">
+                <div className="flex justify-between items-start gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-200 truncate">{prompt.title}</p>
+                    <p className="text-xs text-slate-500">
+                      {prompt.folder || 'Unfiled'}
+                      {prompt.tags.length > 0 && ` · ${prompt.tags.map(tag => `#${tag}`).join(' ')}`}
+                      {variableCount > 0 && ` · ${variableCount} ${variableCount === 1 ? 'variable' : 'variables'}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button onClick={() => handleUse(prompt)} className="px-2.5 py-1 text-xs font-medium rounded-md bg-indigo-600 hover:bg-indigo-700 text-white transition-colors">
+                      Use
+                    </button>
+                    <button onClick={() => startEditing(prompt)} className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors" title="Edit prompt">
+                      <Icon name="edit" className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(prompt)} className="p-1.5 rounded-md text-slate-400 hover:text-red-300 hover:bg-red-900/50 transition-colors" title="Delete prompt">
+                      <Icon name="trash" className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <p className="mt-2 text-sm text-slate-400 line-clamp-2 whitespace-pre-wrap">{prompt.text}</p>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </>
+  );
+
+  const renderEdit = (prompt: SavedPrompt | null, draft: PromptDraft) => {
+    const updateDraft = (changes: Partial<PromptDraft>) => setView({ kind: 'edit', prompt, draft: { ...draft, ...changes } });
+    const variables = extractVariables(draft.text);
+    const handleSave = () => {
+      savePrompt({ ...draft, title: draft.title.trim(), folder: draft.folder.trim(), tags: parseTags(tagInput) }, prompt?.id);
+      setView({ kind: 'browse' });
+    };
+    return (
+      <div className="space-y-3">
+        <input
+          type="text"
+          value={draft.title}
+          onChange={(e) => updateDraft({ title: e.target.value })}
+          placeholder="Title (e.g., Product shot on marble)"
+          className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+        />
+        <div className="grid sm:grid-cols-2 gap-3">
+          <input
+            type="text"
+            list="prompt-library-folders"
+            value={draft.folder}
+            onChange={(e) => updateDraft({ folder: e.target.value })}
+            placeholder="Folder (optional)"
+            className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+          />
+          <datalist id="prompt-library-folders">
+            {folders.map(folder => <option key={folder} value={folder} />)}
+          </datalist>
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="Tags, separated by commas"
+            className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <textarea
+          value={draft.text}
+          onChange={(e) => updateDraft({ text: e.target.value })}
+          placeholder="Prompt text. Use {{subject}} for a variable, or {{style|watercolor}} for one with a default."
+          className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 resize-none h-40"
+        />
+        <p className="text-xs text-slate-500">
+          {variables.length > 0
+            ? `Variables: ${variables.map(variable => variable.name).join(', ')}`
+            : 'Add {{name}} placeholders to fill in different values each time the prompt is used.'}
+        </p>
+        <div className="flex justify-end gap-3">
+          <button onClick={() => setView({ kind: 'browse' })} className="px-4 py-2 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors">Cancel</button>
+          <button
+            onClick={handleSave}
+            disabled={!draft.title.trim() || !draft.text.trim()}
+            className="px-4 py-2 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:bg-indigo-400"
+          >
+            {prompt ? 'Update Prompt' : 'Save Prompt'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderFill = (prompt: SavedPrompt, values: Record<string, string>) => {
+    const variables = extractVariables(prompt.text);
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-slate-400">Fill in the variables of <span className="text-slate-200 font-medium">{prompt.title}</span>.</p>
+        {variables.map((variable, index) => (
+          <div key={variable.name}>
+            <label htmlFor={`prompt-variable-${index}`} className="block text-sm font-medium text-slate-400 mb-1">{variable.name}</label>
+            <input
+              id={`prompt-variable-${index}`}
+              type="text"
+              autoFocus={index === 0}
+              value={values[variable.name] ?? ''}
+              onChange={(e) => setView({ kind: 'fill', prompt, values: { ...values, [variable.name]: e.target.value } })}
+              placeholder={variable.defaultValue || undefined}
+              className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+        ))}
+        <div className="p-3 rounded-lg bg-slate-900/70 text-sm text-slate-300 whitespace-pre-wrap">{fillTemplate(prompt.text, values)}</div>
+        <div className="flex justify-end gap-3">
+          <button onClick={() => setView({ kind: 'browse' })} className="px-4 py-2 rounded-md text-sm font-medium bg-slate-700 hover:bg-slate-600 transition-colors">Back</button>
+          <button
+            onClick={() => { onInsert(fillTemplate(prompt.text, values)); onClose(); }}
+            className="px-4 py-2 rounded-md text-sm font-medium bg-indigo-600 hover:bg-indigo-700 transition-colors"
+          >
+            Use Prompt
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg border border-slate-700 max-w-3xl w-full max-h-[90vh] overflow-y-auto p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-slate-100">
+            {view.kind === 'edit' ? (view.prompt ? 'Edit Prompt' : 'New Prompt') : 'Prompt Library'}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Close">
+            <Icon name="close" className="w-5 h-5" />
+          </button>
+        </div>
+        {notice && <div className="mb-3 p-2 text-sm bg-green-900/40 text-green-300 border border-green-800 rounded-lg">{notice}</div>}
+        {error && <div className="mb-3 p-2 text-sm bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
+        {view.kind === 'browse' && renderBrowse()}
+        {view.kind === 'edit' && renderEdit(view.prompt, view.draft)}
+        {view.kind === 'fill' && renderFill(view.prompt, view.values)}
+      </div>
+    </div>
+  );
+};
+
+interface PromptLibraryButtonProps {
+  /** The text in the tool's prompt box, offered when saving a new prompt. */
+  currentPrompt: string;
+  /** Receives the chosen prompt, with any variables filled in. */
+  onInsert: (text: string) => void;
+  disabled?: boolean;
+  /** A round icon button, for toolbars like the chat composer. */
+  compact?: boolean;
+}
+
+/** Opens the shared prompt library from a tool's prompt box. */
+const PromptLibraryButton: React.FC<PromptLibraryButtonProps> = ({ currentPrompt, onInsert, disabled, compact }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  return (
+    <>
+      {compact ? (
+        <button
+          onClick={() => setIsOpen(true)}
+          disabled={disabled}
+          className="p-3 rounded-full bg-slate-700 hover:bg-slate-600 transition-colors disabled:opacity-70 disabled:cursor-not-allowed"
+          aria-label="Prompt library"
+          title="Save or reuse prompts"
+        >
+          <Icon name="bookmark" className="w-6 h-6" />
+        </button>
+      ) : (
+        <button
+          onClick={() => setIsOpen(true)}
+          disabled={disabled}
+          className="flex items-center gap-1.5 px-2.5 py-1 text-sm font-medium rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+          title="Save or reuse prompts"
+        >
+          <Icon name="bookmark" className="w-4 h-4" />
+          <span>Prompts</span>
+        </button>
+      )}
+      {isOpen && <PromptLibraryModal currentPrompt={currentPrompt} onInsert={onInsert} onClose={() => setIsOpen(false)} />}
+    </>
+  );
+};
+
+export default PromptLibraryButton;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { StorageUsage, formatBytes } from '../services/assetStore';
+
+const StorageUsageLabel: React.FC<{ itemCount: number; usage: StorageUsage | null }> = ({ itemCount, usage }) => {
+  if (!usage) return null;
+  const percentUsed = usage.usage !== null && usage.quota ? Math.round((usage.usage / usage.quota) * 100) : null;
+  return (
+    <span
+      className="text-xs text-slate-500"
+      title={usage.quota ? `${formatBytes(usage.usage ?? 0)} of ${formatBytes(usage.quota)} available browser storage used` : undefined}
+    >
+      {itemCount} {itemCount === 1 ? 'item' : 'items'} · {formatBytes(usage.assetBytes)} stored
+      {percentUsed !== null && ` · ${percentUsed}% of quota`}
+    </span>
+  );
+};
+
+export default StorageUsageLabel;
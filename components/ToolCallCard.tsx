@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import type { ToolCallRecord } from '../types';
+import { chatToolRegistry } from '../services/chatTools';
+import { Icon } from './Icon';
+import Spinner from './Spinner';
+
+const formatJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+// A one-line summary for the collapsed card: the first argument, e.g. the expression or prompt.
+const summarize = (args: Record<string, unknown>) => {
+  const first = Object.values(args).find(value => typeof value === 'string' || typeof value === 'number');
+  return first === undefined ? '' : String(first);
+};
+
+/** A function tool call in the transcript: collapsed to its name and status, expandable to its arguments and result. */
+const ToolCallCard: React.FC<{ call: ToolCallRecord }> = ({ call }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const label = chatToolRegistry[call.name]?.label ?? call.name;
+
+  return (
+    <div className="mb-2 rounded-lg border border-slate-600 bg-slate-800/70 text-sm overflow-hidden">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-slate-700/60 transition-colors"
+        aria-expanded={isOpen}
+      >
+        {call.status === 'running' && <Spinner size="sm" />}
+        {call.status === 'done' && <Icon name="check" className="w-4 h-4 text-green-400 flex-shrink-0" />}
+        {call.status === 'error' && <Icon name="close" className="w-4 h-4 text-red-400 flex-shrink-0" />}
+        <span className="font-medium text-slate-200 flex-shrink-0">{label}</span>
+        <span className="flex-1 min-w-0 truncate text-xs text-slate-400">{summarize(call.args)}</span>
+        <span className="text-xs text-slate-400">{isOpen ? '▾' : '▸'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-3 py-2 space-y-2 border-t border-slate-700 text-xs">
+          <div>
+            <p className="mb-1 font-semibold text-slate-400">Arguments</p>
+            <pre className="p-2 rounded bg-slate-900 overflow-x-auto text-slate-300">{formatJson(call.args)}</pre>
+          </div>
+          {call.result && (
+            <div>
+              <p className={`mb-1 font-semibold ${call.status === 'error' ? 'text-red-300' : 'text-slate-400'}`}>{call.status === 'error' ? 'Error' : 'Result'}</p>
+              <pre className="p-2 rounded bg-slate-900 overflow-x-auto text-slate-300">{formatJson(call.result)}</pre>
+            </div>
+          )}
+        </div>
+      )}
+      {/* Images are what the user asked for, so they show even while the card is collapsed. */}
+      {call.images && call.images.length > 0 && (
+        <div className="flex flex-wrap gap-2 p-2 border-t border-slate-700">
+          {call.images.map((image, index) => (image.data
+            ? <img key={index} src={`data:${image.mimeType};base64,${image.data}`} alt={`${label} result ${index + 1}`} className="rounded-lg max-w-xs" />
+            : <p key={index} className="text-xs italic text-slate-400">{image.assetId ? 'Loading image…' : 'Image no longer available'}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolCallCard;
@@ -1,7 +1,15 @@
-
-import React, { useState, useCallback } from 'react';
-import { generateVideo } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import type { VideoAspectRatio } from '../services/aiProvider';
+import { ASSET_COLLECTIONS, blobToDataUrl, getAsset } from '../services/assetStore';
+import { GenerationPreset, toPresetSnapshot } from '../services/generationPresets';
+import { useAssetCollection } from '../hooks/useAssetCollection';
+import { useGenerationPresets } from '../hooks/useGenerationPresets';
+import { isActiveJob, useVideoJobs } from '../hooks/useVideoJobs';
 import Spinner from './Spinner';
+import PresetChips from './PresetChips';
+import PromptEnhancerButton from './PromptEnhancerButton';
+import PromptLibraryButton from './PromptLibraryButton';
+import VideoJobQueue, { JobProgressBar } from './VideoJobQueue';
 import { Icon } from './Icon';
 
 const loadingMessages = [
@@ -13,92 +21,381 @@ const loadingMessages = [
   "Finalizing and preparing for download...",
 ];
 
-const VideoCreator: React.FC = () => {
+const MESSAGE_INTERVAL_MS = 10000;
+
+const durationOptions = [5, 6, 7, 8];
+
+interface JobVideo {
+  id: string;
+  url: string;
+  mimeType: string;
+}
+
+interface VideoCreatorProps {
+  /** A media library image to use as the starting frame. */
+  incomingAssetId?: string | null;
+  onIncomingAssetHandled?: () => void;
+}
+
+const VideoCreator: React.FC<VideoCreatorProps> = ({ incomingAssetId, onIncomingAssetHandled }) => {
+  const { jobs, focusedJobId, startJob, cancelJob } = useVideoJobs();
   const [prompt, setPrompt] = useState<string>('');
-  const [loading, setLoading] = useState<boolean>(false);
-  const [loadingMessage, setLoadingMessage] = useState<string>('');
+  const [style, setStyle] = useState<string | null>(null);
+  const [aspectRatio, setAspectRatio] = useState<VideoAspectRatio>('16:9');
+  const [durationSeconds, setDurationSeconds] = useState<number>(8);
+  const [numberOfVideos, setNumberOfVideos] = useState<number>(1);
+  const [negativePrompt, setNegativePrompt] = useState<string>('');
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const { presets, savePreset, deletePreset } = useGenerationPresets();
+  const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
+  const [sourceImage, setSourceImage] = useState<string | null>(null);
+  const [isPickerOpen, setIsPickerOpen] = useState<boolean>(false);
+  const [messageIndex, setMessageIndex] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  // Tagged with the asset ids they were loaded for, so stale results are never shown.
+  const [loadedVideos, setLoadedVideos] = useState<{ key: string; videos: JobVideo[] }>({ key: '', videos: [] });
+  const { items: libraryImages } = useAssetCollection<{ prompt?: string }>([ASSET_COLLECTIONS.imageGeneration, ASSET_COLLECTIONS.imageEdits]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleGenerate = useCallback(async () => {
-    if (!prompt) {
-      setError('Please enter a prompt.');
+  // The result panel follows the job picked in the queue, defaulting to the newest one.
+  const focusedJob = (focusedJobId ? jobs.find(job => job.id === focusedJobId) : undefined) ?? jobs[0] ?? null;
+  const isFocusedJobActive = !!focusedJob && isActiveJob(focusedJob);
+  const videoAssetKey = focusedJob?.videoAssetIds.join(',') ?? '';
+  const videos = loadedVideos.key === videoAssetKey ? loadedVideos.videos : null;
+
+  useEffect(() => {
+    if (!isFocusedJobActive) return;
+    setMessageIndex(0);
+    const timer = setInterval(() => setMessageIndex(index => (index + 1) % loadingMessages.length), MESSAGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isFocusedJobActive, focusedJob?.id]);
+
+  // Finished videos are read back from the media library, so they survive reloads.
+  useEffect(() => {
+    if (!videoAssetKey) return;
+    let cancelled = false;
+    const urls: string[] = [];
+    (async () => {
+      try {
+        const loaded: JobVideo[] = [];
+        for (const id of videoAssetKey.split(',')) {
+          const asset = await getAsset(id);
+          if (!asset) continue;
+          const url = URL.createObjectURL(asset.blob);
+          urls.push(url);
+          loaded.push({ id, url, mimeType: asset.mimeType });
+        }
+        if (!cancelled) setLoadedVideos({ key: videoAssetKey, videos: loaded });
+      } catch (e: any) {
+        if (cancelled) return;
+        setLoadedVideos({ key: videoAssetKey, videos: [] });
+        setError(e.message || 'Failed to load the generated videos.');
+      }
+    })();
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [videoAssetKey]);
+
+  useEffect(() => {
+    if (!incomingAssetId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const asset = await getAsset(incomingAssetId);
+        if (!asset) throw new Error('That item is no longer in the media library.');
+        const url = await blobToDataUrl(asset.blob);
+        if (cancelled) return;
+        setSourceImage(url);
+        setError(null);
+      } catch (e: any) {
+        if (!cancelled) setError(e.message || 'Failed to load the image from the media library.');
+      } finally {
+        if (!cancelled) onIncomingAssetHandled?.();
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [incomingAssetId]);
+
+  const handleImageUpload = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      setError('Please upload a valid image file.');
       return;
     }
-    setLoading(true);
     setError(null);
-    setVideoUrl(null);
-    setLoadingMessage(loadingMessages[0]);
-    
     try {
-      let messageIndex = 0;
-      const url = await generateVideo(prompt, () => {
-        messageIndex = (messageIndex + 1) % loadingMessages.length;
-        setLoadingMessage(loadingMessages[messageIndex]);
-      });
-      setVideoUrl(url);
+      setSourceImage(await blobToDataUrl(file));
+    } catch (e: any) {
+      setError(e.message || 'Failed to read the uploaded image.');
+    }
+  };
+
+  const handlePickFromLibrary = async (blob: Blob) => {
+    setError(null);
+    setIsPickerOpen(false);
+    try {
+      setSourceImage(await blobToDataUrl(blob));
     } catch (e: any) {
-      setError(e.message || 'Failed to generate video. Please try again.');
-    } finally {
-      setLoading(false);
+      setError(e.message || 'Failed to load the image from the media library.');
     }
-  }, [prompt]);
+  };
+
+  const preset = presets.find(p => p.id === presetId) ?? null;
+
+  const handleSelectPreset = (selected: GenerationPreset | null) => {
+    setPresetId(selected?.id ?? null);
+    if (!selected) return;
+    // Video has no square format and makes at most two clips.
+    if (selected.aspectRatio && selected.aspectRatio !== '1:1') setAspectRatio(selected.aspectRatio);
+    if (selected.count) setNumberOfVideos(Math.min(selected.count, 2));
+    if (selected.negativePrompt !== undefined) setNegativePrompt(selected.negativePrompt);
+  };
+
+  const handleGenerate = () => {
+    if (!prompt) {
+      setError(sourceImage ? 'Please describe how the image should move.' : 'Please enter a prompt.');
+      return;
+    }
+    setError(null);
+    startJob(prompt, {
+      aspectRatio,
+      durationSeconds,
+      negativePrompt: negativePrompt.trim() || undefined,
+      numberOfVideos,
+      style: style ?? undefined,
+      preset: preset ? toPresetSnapshot(preset) : undefined,
+    }, sourceImage);
+  };
+
+  const OptionButton: React.FC<{ isActive: boolean; onClick: () => void; children: React.ReactNode }> = ({ isActive, onClick, children }) => (
+    <button
+      onClick={onClick}
+      className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+        isActive ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+      }`}
+    >
+      {children}
+    </button>
+  );
 
   return (
     <div className="bg-slate-800 p-6 rounded-lg shadow-xl border border-slate-700 animate-fade-in">
       <h2 className="text-2xl font-bold mb-4 text-slate-100">Video Creator AI Engine (Veo)</h2>
       <div className="space-y-4">
-        <textarea
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          placeholder="e.g., A neon hologram of a cat driving at top speed, a serene lake at sunrise with mist rolling over the water..."
-          className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-shadow duration-200 resize-none h-24"
-          disabled={loading}
+        <div>
+          <label className="block text-sm font-medium text-slate-400 mb-2">Start Image (optional)</label>
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div
+              className="w-full sm:w-48 aspect-video bg-slate-900/50 rounded-lg border-2 border-dashed border-slate-700 flex items-center justify-center relative flex-shrink-0"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => { e.preventDefault(); e.dataTransfer.files[0] && handleImageUpload(e.dataTransfer.files[0]); }}
+            >
+              {sourceImage ? (
+                <>
+                  <img src={sourceImage} alt="Start frame" className="max-w-full max-h-full object-contain rounded-md" />
+                  <button
+                    onClick={() => setSourceImage(null)}
+                    className="absolute top-1 right-1 bg-slate-900/70 text-white p-1 rounded-full hover:bg-red-600 transition-all"
+                    title="Remove Image"
+                  >
+                    <Icon name="close" className="w-4 h-4" />
+                  </button>
+                </>
+              ) : (
+                <Icon name="image" className="w-10 h-10 text-slate-600" />
+              )}
+            </div>
+            <div className="flex flex-col justify-center gap-2">
+              <p className="text-sm text-slate-500">Animate a still by uploading one or picking an image you created earlier.</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="bg-slate-700 hover:bg-slate-600 text-white text-sm font-medium py-2 px-3 rounded-lg transition-colors"
+                >
+                  Upload Image
+                </button>
+                <button
+                  onClick={() => setIsPickerOpen(prev => !prev)}
+                  disabled={libraryImages.length === 0}
+                  className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium py-2 px-3 rounded-lg transition-colors"
+                >
+                  Choose from Library
+                </button>
+              </div>
+            </div>
+          </div>
+          <input
+            type="file"
+            ref={fileInputRef}
+            className="hidden"
+            accept="image/*"
+            onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0])}
+          />
+          {isPickerOpen && (
+            <div className="mt-3 grid grid-cols-4 sm:grid-cols-6 gap-2 max-h-48 overflow-y-auto p-2 bg-slate-900/50 rounded-lg">
+              {libraryImages.map(item => (
+                <button key={item.id} onClick={() => handlePickFromLibrary(item.blob)} className="aspect-square" title={item.metadata.prompt}>
+                  <img src={item.thumbnailUrl} alt={item.metadata.prompt} className="w-full h-full object-cover rounded-md hover:ring-2 hover:ring-indigo-500" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="text-sm font-medium text-slate-400">Prompt</label>
+            <div className="flex items-center gap-1">
+              <PromptEnhancerButton
+                prompt={prompt}
+                target="video"
+                styleId={style}
+                onAccept={(text, styleId) => { setPrompt(text); setStyle(styleId); }}
+                onClearStyle={() => setStyle(null)}
+              />
+              <PromptLibraryButton currentPrompt={prompt} onInsert={setPrompt} />
+            </div>
+          </div>
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder={sourceImage
+              ? "e.g., The camera slowly pushes in while leaves drift across the scene..."
+              : "e.g., A neon hologram of a cat driving at top speed, a serene lake at sunrise with mist rolling over the water..."}
+            className="w-full p-3 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-shadow duration-200 resize-none h-24"
+          />
+        </div>
+        <PresetChips
+          presets={presets}
+          selectedId={presetId}
+          onSelect={handleSelectPreset}
+          onSavePreset={savePreset}
+          onDeletePreset={deletePreset}
+          currentSettings={{ aspectRatio, count: numberOfVideos, negativePrompt: negativePrompt.trim() || undefined }}
         />
-        <div className="flex justify-end">
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">Aspect Ratio</label>
+              <div className="flex space-x-2">
+                <OptionButton isActive={aspectRatio === '16:9'} onClick={() => setAspectRatio('16:9')}>Landscape (16:9)</OptionButton>
+                <OptionButton isActive={aspectRatio === '9:16'} onClick={() => setAspectRatio('9:16')}>Portrait (9:16)</OptionButton>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-400 mb-2">Videos</label>
+              <div className="flex space-x-2">
+                {[1, 2].map(count => (
+                  <OptionButton key={count} isActive={numberOfVideos === count} onClick={() => setNumberOfVideos(count)}>{count}</OptionButton>
+                ))}
+              </div>
+            </div>
+          </div>
           <button
             onClick={handleGenerate}
-            disabled={loading}
             className="w-full sm:w-auto flex justify-center items-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-bold py-3 px-6 rounded-lg transition-transform duration-200 disabled:cursor-not-allowed transform hover:scale-105"
           >
-            {loading ? <Spinner /> : <Icon name="sparkles" className="w-5 h-5" />}
-            <span>{loading ? 'Generating...' : 'Generate Video'}</span>
+            <Icon name="sparkles" className="w-5 h-5" />
+            <span>{numberOfVideos > 1 ? 'Generate Videos' : 'Generate Video'}</span>
           </button>
         </div>
+
+        <div>
+          <button
+            onClick={() => setShowAdvanced(prev => !prev)}
+            className="text-sm font-medium text-slate-400 hover:text-white transition-colors"
+          >
+            {showAdvanced ? '▾' : '▸'} Advanced settings
+          </button>
+          {showAdvanced && (
+            <div className="mt-3 grid sm:grid-cols-3 gap-4">
+              <div className="sm:col-span-2">
+                <label htmlFor="video-negative-prompt" className="block text-sm font-medium text-slate-400 mb-2">Negative Prompt</label>
+                <input
+                  id="video-negative-prompt"
+                  type="text"
+                  value={negativePrompt}
+                  onChange={(e) => setNegativePrompt(e.target.value)}
+                  placeholder="e.g., shaky camera, low quality, text"
+                  className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="video-duration" className="block text-sm font-medium text-slate-400 mb-2">Duration</label>
+                <select
+                  id="video-duration"
+                  value={durationSeconds}
+                  onChange={(e) => setDurationSeconds(Number(e.target.value))}
+                  className="w-full p-2 bg-slate-900 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500"
+                >
+                  {durationOptions.map(seconds => <option key={seconds} value={seconds}>{seconds} seconds</option>)}
+                </select>
+              </div>
+            </div>
+          )}
+        </div>
       </div>
-      
+
       {error && <div className="mt-4 p-3 bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
 
       <div className="mt-6 min-h-[300px] flex items-center justify-center bg-slate-900/50 rounded-lg border-2 border-dashed border-slate-700">
-        {loading && (
-          <div className="text-center text-slate-400 p-4">
+        {focusedJob && isFocusedJobActive && (
+          <div className="text-center text-slate-400 p-4 w-full max-w-md">
             <Spinner size="lg" />
-            <p className="mt-4 font-medium">{loadingMessage}</p>
-            <p className="text-sm text-slate-500 mt-1">Video generation can take a few minutes. Please be patient.</p>
-          </div>
-        )}
-        {videoUrl && !loading && (
-          <div className="p-4 w-full">
-            <video src={videoUrl} controls autoPlay loop className="w-full rounded-lg shadow-lg">
-              Your browser does not support the video tag.
-            </video>
-             <a
-              href={videoUrl}
-              download={`nexus-ai-video-${Date.now()}.mp4`}
-              className="mt-4 inline-flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg"
+            <p className="mt-4 font-medium">{focusedJob.status === 'starting' ? 'Sending your request...' : loadingMessages[messageIndex]}</p>
+            <div className="mt-4"><JobProgressBar job={focusedJob} /></div>
+            <p className="text-sm text-slate-500 mt-2">
+              Video generation can take a few minutes. You can switch tabs or reload; the job keeps running in the queue below.
+            </p>
+            <button
+              onClick={() => cancelJob(focusedJob.id)}
+              className="mt-4 inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md bg-red-900/50 text-red-300 hover:bg-red-900/80 transition-colors"
             >
-              <Icon name="download" className="w-5 h-5" />
-              Download Video
-            </a>
+              <Icon name="stop" className="w-4 h-4" />
+              Cancel
+            </button>
           </div>
         )}
-        {!videoUrl && !loading && (
+        {focusedJob?.status === 'succeeded' && !videos && <Spinner size="lg" />}
+        {focusedJob?.status === 'succeeded' && videos && (
+          videos.length > 0 ? (
+            <div className={`p-4 w-full grid gap-4 ${videos.length > 1 ? 'sm:grid-cols-2' : ''}`}>
+              {videos.map((video, index) => (
+                <div key={video.id}>
+                  <video src={video.url} controls autoPlay loop muted={videos.length > 1} className="w-full rounded-lg shadow-lg">
+                    Your browser does not support the video tag.
+                  </video>
+                  <a
+                    href={video.url}
+                    download={`nexus-ai-video-${focusedJob.createdAt}-${index + 1}.${video.mimeType.split('/')[1] || 'mp4'}`}
+                    className="mt-4 inline-flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg"
+                  >
+                    <Icon name="download" className="w-5 h-5" />
+                    {videos.length > 1 ? `Download Video ${index + 1}` : 'Download Video'}
+                  </a>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-slate-500">These videos are no longer in the media library.</p>
+          )
+        )}
+        {focusedJob?.status === 'failed' && (
+          <p className="p-4 text-red-300">{focusedJob.error || 'Video generation failed.'}</p>
+        )}
+        {focusedJob?.status === 'cancelled' && (
+          <p className="text-slate-500">This job was cancelled.</p>
+        )}
+        {!focusedJob && (
           <div className="text-center text-slate-500">
             <Icon name="video" className="w-16 h-16 mx-auto text-slate-600" />
             <p>Your generated video will appear here.</p>
           </div>
         )}
       </div>
+
+      <VideoJobQueue />
     </div>
   );
 };
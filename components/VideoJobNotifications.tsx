@@ -0,0 +1,53 @@
+import React, { useEffect } from 'react';
+import { VideoJobNotice, useVideoJobs } from '../hooks/useVideoJobs';
+import { Icon } from './Icon';
+
+const AUTO_DISMISS_MS = 8000;
+
+const NoticeToast: React.FC<{ notice: VideoJobNotice; onView: () => void; onDismiss: () => void }> = ({ notice, onView, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => clearTimeout(timer);
+  }, [notice.id]);
+
+  return (
+    <div
+      className={`flex items-center gap-3 p-3 rounded-lg shadow-xl border animate-fade-in ${
+        notice.tone === 'success' ? 'bg-slate-800 border-green-700' : 'bg-slate-800 border-red-700'
+      }`}
+    >
+      <Icon name={notice.tone === 'success' ? 'check' : 'close'} className={`w-5 h-5 ${notice.tone === 'success' ? 'text-green-400' : 'text-red-400'}`} />
+      <span className="text-sm text-slate-200">{notice.message}</span>
+      <button onClick={onView} className="text-sm font-medium text-indigo-400 hover:text-indigo-300">View</button>
+      <button onClick={onDismiss} className="text-slate-500 hover:text-white" title="Dismiss">
+        <Icon name="close" className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+/** In-app toasts for finished video jobs, shown whichever tab is open. */
+const VideoJobNotifications: React.FC<{ onViewJob: () => void }> = ({ onViewJob }) => {
+  const { notices, dismissNotice, focusJob } = useVideoJobs();
+
+  if (notices.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2">
+      {notices.map(notice => (
+        <NoticeToast
+          key={notice.id}
+          notice={notice}
+          onView={() => {
+            focusJob(notice.jobId);
+            dismissNotice(notice.id);
+            onViewJob();
+          }}
+          onDismiss={() => dismissNotice(notice.id)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default VideoJobNotifications;
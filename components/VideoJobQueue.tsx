@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { VideoJob, VideoJobStatus, isActiveJob, useVideoJobs } from '../hooks/useVideoJobs';
+import { Icon } from './Icon';
+
+const statusStyles: Record<VideoJobStatus, { label: string; className: string }> = {
+  starting: { label: 'Starting', className: 'bg-slate-700 text-slate-300' },
+  running: { label: 'Generating', className: 'bg-indigo-900/70 text-indigo-300' },
+  succeeded: { label: 'Done', className: 'bg-green-900/60 text-green-300' },
+  failed: { label: 'Failed', className: 'bg-red-900/60 text-red-300' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-700 text-slate-400' },
+};
+
+export const formatElapsed = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Re-renders every second while any job is active, so elapsed times keep counting.
+const useNow = (isTicking: boolean): number => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!isTicking) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isTicking]);
+  return now;
+};
+
+export const JobProgressBar: React.FC<{ job: VideoJob }> = ({ job }) => (
+  <div className="h-1.5 w-full bg-slate-700 rounded-full overflow-hidden">
+    {job.progressPercent !== undefined ? (
+      <div className="h-full bg-indigo-500 transition-all duration-500" style={{ width: `${job.progressPercent}%` }} />
+    ) : (
+      // The backend doesn't report progress, so show that work is ongoing without a percentage.
+      <div className="h-full w-1/3 bg-indigo-500 animate-pulse" />
+    )}
+  </div>
+);
+
+const VideoJobQueue: React.FC = () => {
+  const { jobs, focusedJobId, focusJob, cancelJob, removeJob, clearFinishedJobs } = useVideoJobs();
+  const now = useNow(jobs.some(isActiveJob));
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="mt-8 pt-6 border-t border-slate-700">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-bold text-slate-200">Video Queue</h3>
+        {jobs.some(job => !isActiveJob(job)) && (
+          <button
+            onClick={clearFinishedJobs}
+            className="text-sm font-medium text-slate-400 hover:text-white transition-colors"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {jobs.map(job => {
+          const status = statusStyles[job.status];
+          const elapsed = (job.finishedAt ?? now) - job.createdAt;
+          return (
+            <li
+              key={job.id}
+              className={`p-3 rounded-lg border bg-slate-900/50 ${job.id === focusedJobId ? 'border-indigo-500' : 'border-slate-700'}`}
+            >
+              <div className="flex items-center gap-3">
+                <button onClick={() => focusJob(job.id)} className="flex-grow min-w-0 text-left" title="Show this job">
+                  <p className="text-sm text-slate-200 truncate">{job.prompt}</p>
+                  <p className="text-xs text-slate-500">
+                    {job.settings.aspectRatio} · {job.settings.durationSeconds}s
+                    {job.settings.numberOfVideos > 1 && ` · ${job.settings.numberOfVideos} videos`}
+                    {job.sourceAssetId && ' · from image'}
+                    {` · ${formatElapsed(elapsed)}`}
+                  </p>
+                </button>
+                <span className={`px-2 py-0.5 text-xs font-medium rounded-md flex-shrink-0 ${status.className}`}>{status.label}</span>
+                {isActiveJob(job) ? (
+                  <button
+                    onClick={() => cancelJob(job.id)}
+                    className="p-1.5 rounded-md text-slate-400 hover:text-red-300 hover:bg-red-900/50 transition-colors flex-shrink-0"
+                    title="Cancel"
+                  >
+                    <Icon name="stop" className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => removeJob(job.id)}
+                    className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors flex-shrink-0"
+                    title="Remove from queue"
+                  >
+                    <Icon name="close" className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              {isActiveJob(job) && <div className="mt-2"><JobProgressBar job={job} /></div>}
+              {job.status === 'failed' && job.error && <p className="mt-1 text-xs text-red-300">{job.error}</p>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default VideoJobQueue;
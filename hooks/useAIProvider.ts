@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import type { AIProvider } from '../services/aiProvider';
+import { geminiProvider } from '../services/geminiService';
+import { mockProvider } from '../services/mockProvider';
+
+// Set AI_PROVIDER=mock in .env.local to run the whole app offline.
+export const getConfiguredProvider = (): AIProvider =>
+  process.env.AI_PROVIDER === 'mock' ? mockProvider : geminiProvider;
+
+export const AIProviderContext = createContext<AIProvider>(getConfiguredProvider());
+
+export const useAIProvider = () => useContext(AIProviderContext);
@@ -0,0 +1,133 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  AssetKind,
+  AssetRecord,
+  StorageUsage,
+  clearCollection,
+  deleteAssets,
+  evictOverLimit,
+  getAssets,
+  getStorageUsage,
+  putAsset,
+  setAssetFavorite,
+  urlToBlob,
+} from '../services/assetStore';
+
+export interface AssetItem<TMeta> {
+  id: string;
+  collection: string;
+  kind: AssetKind;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  metadata: TMeta;
+  sourceIds: string[];
+  favorite: boolean;
+  blob: Blob;
+  /** Object URL for the full asset; valid while the owning component is mounted. */
+  url: string;
+  /** Object URL for the thumbnail, falling back to the full asset when there is none. */
+  thumbnailUrl: string;
+}
+
+interface AssetCollectionOptions {
+  /** Oldest items beyond this count are evicted after each addition. */
+  maxItems?: number;
+  /** Assets that are still in use elsewhere, which eviction skips. */
+  keepIds?: Set<string>;
+  /** Runs once before the first load, e.g. to migrate a legacy localStorage history. */
+  migrate?: () => Promise<void>;
+}
+
+/**
+ * Loads one or more asset collections, newest first. New assets are added to the first collection.
+ */
+export const useAssetCollection = <TMeta>(collections: string | string[], { maxItems, keepIds, migrate }: AssetCollectionOptions = {}) => {
+  const collectionList = Array.isArray(collections) ? collections : [collections];
+  const collection = collectionList[0];
+  const collectionsKey = collectionList.join(',');
+  const [items, setItems] = useState<AssetItem<TMeta>[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const objectUrlsRef = useRef<Map<string, string[]>>(new Map());
+
+  const toItem = useCallback((record: AssetRecord<TMeta>): AssetItem<TMeta> => {
+    const url = URL.createObjectURL(record.blob);
+    const thumbnailUrl = record.thumbnail ? URL.createObjectURL(record.thumbnail) : url;
+    objectUrlsRef.current.set(record.id, thumbnailUrl === url ? [url] : [url, thumbnailUrl]);
+    const { blob, thumbnail, favorite, ...rest } = record;
+    return { ...rest, favorite: !!favorite, blob, url, thumbnailUrl };
+  }, []);
+
+  const releaseUrls = (ids: string[]) => {
+    for (const id of ids) {
+      objectUrlsRef.current.get(id)?.forEach(url => URL.revokeObjectURL(url));
+      objectUrlsRef.current.delete(id);
+    }
+  };
+
+  const refreshUsage = useCallback(async () => {
+    try {
+      setUsage(await getStorageUsage());
+    } catch (error) {
+      console.error("Could not read storage usage", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        if (migrate) await migrate();
+        const records = (await Promise.all(collectionList.map(name => getAssets<TMeta>(name)))).flat();
+        if (cancelled) return;
+        setItems(records.sort((a, b) => b.createdAt - a.createdAt).map(toItem));
+      } catch (error) {
+        console.error(`Failed to load ${collectionsKey} history`, error);
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+      refreshUsage();
+    })();
+    return () => {
+      cancelled = true;
+      releaseUrls([...objectUrlsRef.current.keys()]);
+    };
+  }, [collectionsKey]);
+
+  const removeFromState = (ids: string[]) => {
+    releaseUrls(ids);
+    setItems(prev => prev.filter(item => !ids.includes(item.id)));
+  };
+
+  /** Stores a Blob or URL and adds it to the front of the collection. Throws if it can't be saved. */
+  const addAsset = async (content: Blob | string, metadata: TMeta, sourceIds?: string[]): Promise<AssetItem<TMeta>> => {
+    const blob = typeof content === 'string' ? await urlToBlob(content) : content;
+    const record = await putAsset({ collection, blob, metadata, sourceIds });
+    const item = toItem(record);
+    setItems(prev => [item, ...prev]);
+    if (maxItems !== undefined) removeFromState(await evictOverLimit(collection, maxItems, keepIds));
+    refreshUsage();
+    return item;
+  };
+
+  const removeAssets = async (ids: string[]) => {
+    removeFromState(await deleteAssets(ids));
+    refreshUsage();
+  };
+
+  const setFavorite = async (id: string, favorite: boolean) => {
+    await setAssetFavorite(id, favorite);
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, favorite } : item)));
+  };
+
+  /** Deletes the whole collection and returns the ids that were removed. */
+  const clear = async (): Promise<string[]> => {
+    const removed = await clearCollection(collection);
+    removeFromState(removed);
+    refreshUsage();
+    return removed;
+  };
+
+  return { items, usage, isLoaded, addAsset, removeAssets, setFavorite, clear };
+};
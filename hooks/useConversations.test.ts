@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { Conversation, Message } from '../types';
+import { createMessageTree, getActivePath } from './useConversations';
+
+const message = (role: Message['role'], text: string): Message => ({ role, parts: [{ text }] });
+
+const conversationOf = (tree: Pick<Conversation, 'nodes' | 'rootId'>): Conversation => ({
+  id: 'conv-1',
+  title: 'Test',
+  personaId: 'Professional',
+  ...tree,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('createMessageTree', () => {
+  it('chains the messages into a single branch', () => {
+    const messages = [message('model', 'Hi'), message('user', 'Hello'), message('model', 'How can I help?')];
+    const { nodes, rootId } = createMessageTree(messages);
+
+    expect(Object.keys(nodes)).toHaveLength(3);
+    const root = nodes[rootId];
+    expect(root.parentId).toBeNull();
+    expect(root.message).toBe(messages[0]);
+    expect(root.childIds).toEqual([root.selectedChildId]);
+
+    const second = nodes[root.selectedChildId!];
+    expect(second.parentId).toBe(rootId);
+    expect(second.message).toBe(messages[1]);
+
+    const last = nodes[second.selectedChildId!];
+    expect(last.message).toBe(messages[2]);
+    expect(last.childIds).toEqual([]);
+    expect(last.selectedChildId).toBeNull();
+  });
+
+  it('gives every node its own id', () => {
+    const { nodes } = createMessageTree([message('user', 'a'), message('model', 'b'), message('user', 'c')]);
+    expect(new Set(Object.values(nodes).map(node => node.id)).size).toBe(3);
+    Object.entries(nodes).forEach(([id, node]) => expect(node.id).toBe(id));
+  });
+});
+
+describe('getActivePath', () => {
+  it('follows the selected children from the root', () => {
+    const messages = [message('model', 'Hi'), message('user', 'Hello'), message('model', 'Hey')];
+    const conversation = conversationOf(createMessageTree(messages));
+    expect(getActivePath(conversation).map(node => node.message)).toEqual(messages);
+  });
+
+  it('switches to another branch when a different child is selected', () => {
+    const conversation = conversationOf(createMessageTree([message('user', 'Question'), message('model', 'First answer')]));
+    const root = conversation.nodes[conversation.rootId];
+    const firstAnswerId = root.selectedChildId!;
+    conversation.nodes['alternative'] = {
+      id: 'alternative',
+      message: message('model', 'Second answer'),
+      parentId: root.id,
+      childIds: [],
+      selectedChildId: null,
+    };
+    conversation.nodes[root.id] = { ...root, childIds: [firstAnswerId, 'alternative'], selectedChildId: 'alternative' };
+
+    expect(getActivePath(conversation).map(node => node.message.parts[0].text)).toEqual(['Question', 'Second answer']);
+  });
+
+  it('stops at a selected child that no longer exists', () => {
+    const conversation = conversationOf(createMessageTree([message('user', 'Question')]));
+    const root = conversation.nodes[conversation.rootId];
+    conversation.nodes[root.id] = { ...root, selectedChildId: 'missing' };
+
+    expect(getActivePath(conversation)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,314 @@
+import { useState, useEffect, useRef } from 'react';
+import { Conversation, Message, MessageNode } from '../types';
+import { deleteAssets } from '../services/assetStore';
+import { restoreMessageFiles } from '../services/chatAttachments';
+
+const STORAGE_KEY = 'nexus-conversations';
+const ACTIVE_KEY = 'nexus-active-conversation';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New Chat';
+
+const createNodeId = () => `msg-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createNode = (message: Message, parentId: string | null): MessageNode => ({
+  id: createNodeId(),
+  message,
+  parentId,
+  childIds: [],
+  selectedChildId: null,
+});
+
+/** Builds a single-branch tree from a list of messages, returning its nodes and root id. */
+export const createMessageTree = (messages: Message[]): Pick<Conversation, 'nodes' | 'rootId'> => {
+  const nodes: Record<string, MessageNode> = {};
+  let parent: MessageNode | null = null;
+  for (const message of messages) {
+    const node = createNode(message, parent?.id ?? null);
+    nodes[node.id] = node;
+    if (parent) {
+      parent.childIds.push(node.id);
+      parent.selectedChildId = node.id;
+    }
+    parent = node;
+  }
+  const rootId = Object.values(nodes).find(node => node.parentId === null)!.id;
+  return { nodes, rootId };
+};
+
+/** The nodes on the currently selected branch, from the root to the newest message. */
+export const getActivePath = (conversation: Conversation): MessageNode[] => {
+  const path: MessageNode[] = [];
+  let node: MessageNode | undefined = conversation.nodes[conversation.rootId];
+  while (node) {
+    path.push(node);
+    node = node.selectedChildId ? conversation.nodes[node.selectedChildId] : undefined;
+  }
+  return path;
+};
+
+// Conversations saved before branching was introduced stored a flat `messages` array.
+const migrateConversation = (stored: Conversation & { messages?: Message[] }): Conversation | null => {
+  if (stored.nodes) return stored;
+  if (!stored.messages?.length) return null;
+  const { messages, ...rest } = stored;
+  return { ...rest, ...createMessageTree(messages) };
+};
+
+// Files live in the asset store, so the saved copy of a message keeps only their ids; whole images,
+// PDFs and documents would soon exceed localStorage's quota.
+const withoutFiles = (message: Message): Message => ({
+  ...message,
+  parts: message.parts.map(part => {
+    if (!part.assetId) return part;
+    if (part.inlineData) return { ...part, inlineData: { ...part.inlineData, data: '' } };
+    const { text: _text, ...rest } = part;
+    return rest;
+  }),
+  ...(message.toolCalls ? {
+    toolCalls: message.toolCalls.map(call => (call.images
+      ? { ...call, images: call.images.map(image => (image.assetId ? { ...image, data: '' } : image)) }
+      : call)),
+  } : {}),
+});
+
+const toStored = (conversations: Record<string, Conversation>): Record<string, Conversation> =>
+  Object.fromEntries(Object.entries(conversations).map(([id, conversation]) => [id, {
+    ...conversation,
+    nodes: Object.fromEntries(Object.entries(conversation.nodes).map(([nodeId, node]) => [nodeId, { ...node, message: withoutFiles(node.message) }])),
+  }]));
+
+const isMissingFiles = (message: Message) =>
+  message.parts.some(part => part.assetId && (part.inlineData ? !part.inlineData.data : !part.text))
+  || !!message.toolCalls?.some(call => call.images?.some(image => image.assetId && !image.data));
+
+const assetIdsOf = (nodes: MessageNode[]): string[] => [...new Set(nodes.flatMap(({ message }) => [
+  ...message.parts.flatMap(part => (part.assetId ? [part.assetId] : [])),
+  ...(message.toolCalls ?? []).flatMap(call => (call.images ?? []).flatMap(image => (image.assetId ? [image.assetId] : []))),
+]))];
+
+const releaseFiles = (assetIds: string[]) => {
+  if (assetIds.length === 0) return;
+  deleteAssets(assetIds).catch(error => console.error("Could not delete chat files", error));
+};
+
+const loadConversations = (): Record<string, Conversation> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return {};
+    const parsed: Record<string, Conversation> = JSON.parse(stored);
+    const migrated: Record<string, Conversation> = {};
+    for (const [id, conversation] of Object.entries(parsed)) {
+      const result = migrateConversation(conversation);
+      if (result) migrated[id] = result;
+    }
+    return migrated;
+  } catch (error) {
+    console.error("Could not load conversations from localStorage", error);
+    return {};
+  }
+};
+
+const loadActiveId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch (error) {
+    console.error("Could not load active conversation from localStorage", error);
+    return null;
+  }
+};
+
+// Derives a sidebar title from the first user message of a conversation.
+const titleFromMessage = (message: Message): string | null => {
+  const text = message.parts.map(part => part.text ?? '').join(' ').replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+export const useConversations = () => {
+  // Loaded synchronously so the chat never starts a fresh conversation before the stored ones are known.
+  const [conversations, setConversations] = useState<Record<string, Conversation>>(loadConversations);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(loadActiveId);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+
+  useEffect(() => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(toStored(conversations)));
+        setSaveError(null);
+    } catch (error) {
+        console.error("Could not save conversations to localStorage", error);
+        setSaveError("Your chats couldn't be saved, so recent messages will be lost when the page is closed. Deleting old conversations frees up space.");
+    }
+  }, [conversations]);
+
+  // Saved messages only point at their files, which are loaded back once after start-up.
+  useEffect(() => {
+    const pending = Object.values(conversationsRef.current).flatMap(conversation => Object.values(conversation.nodes)
+      .filter(node => isMissingFiles(node.message))
+      .map(node => ({ conversationId: conversation.id, node })));
+    if (pending.length === 0) return;
+    let cancelled = false;
+    Promise.all(pending.map(async ({ conversationId, node }) => ({ conversationId, nodeId: node.id, message: await restoreMessageFiles(node.message) })))
+      .then(restored => {
+        if (cancelled) return;
+        setConversations(prev => {
+          const updated = { ...prev };
+          for (const { conversationId, nodeId, message } of restored) {
+            const conversation = updated[conversationId];
+            const node = conversation?.nodes[nodeId];
+            if (!node) continue;
+            updated[conversationId] = { ...conversation, nodes: { ...conversation.nodes, [nodeId]: { ...node, message } } };
+          }
+          return updated;
+        });
+      })
+      .catch(error => console.error("Could not load chat files", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    try {
+        if (activeConversationId) {
+          localStorage.setItem(ACTIVE_KEY, activeConversationId);
+        } else {
+          localStorage.removeItem(ACTIVE_KEY);
+        }
+    } catch (error) {
+        console.error("Could not save active conversation to localStorage", error);
+    }
+  }, [activeConversationId]);
+
+  const createConversation = (personaId: string, welcomeMessage: string): string => {
+    const now = Date.now();
+    const conversation: Conversation = {
+      id: `conv-${now}`,
+      title: DEFAULT_CONVERSATION_TITLE,
+      personaId,
+      ...createMessageTree([{ role: 'model', parts: [{ text: welcomeMessage }] }]),
+      createdAt: now,
+      updatedAt: now,
+    };
+    setConversations(prev => ({ ...prev, [conversation.id]: conversation }));
+    setActiveConversationId(conversation.id);
+    return conversation.id;
+  };
+
+  const updateConversation = (id: string, changes: Partial<Omit<Conversation, 'id'>>) => {
+    setConversations(prev => {
+      if (!prev[id]) return prev;
+      return { ...prev, [id]: { ...prev[id], ...changes, updatedAt: Date.now() } };
+    });
+  };
+
+  // Applies a change to a single conversation's node map.
+  const updateNodes = (id: string, updater: (nodes: Record<string, MessageNode>, conversation: Conversation) => Partial<Conversation>) => {
+    setConversations(prev => {
+      const conversation = prev[id];
+      if (!conversation) return prev;
+      const changes = updater({ ...conversation.nodes }, conversation);
+      return { ...prev, [id]: { ...conversation, ...changes, updatedAt: Date.now() } };
+    });
+  };
+
+  const renameConversation = (id: string, title: string) => {
+    if (!title.trim()) return;
+    updateConversation(id, { title: title.trim() });
+  };
+
+  const deleteConversation = (id: string) => {
+    const conversation = conversationsRef.current[id];
+    if (conversation) releaseFiles(assetIdsOf(Object.values(conversation.nodes)));
+    setConversations(prev => {
+      const updated = { ...prev };
+      delete updated[id];
+      return updated;
+    });
+    if (activeConversationId === id) {
+      setActiveConversationId(null);
+    }
+  };
+
+  /**
+   * Adds a message as the newest child of `parentId` and makes it the active branch.
+   * The node id is returned synchronously so a streaming reply can keep writing to it.
+   */
+  const addMessage = (id: string, parentId: string, message: Message): string => {
+    const node = createNode(message, parentId);
+    updateNodes(id, (nodes, conversation) => {
+      const parent = nodes[parentId];
+      if (!parent) return {};
+      nodes[parentId] = { ...parent, childIds: [...parent.childIds, node.id], selectedChildId: node.id };
+      nodes[node.id] = node;
+
+      let title = conversation.title;
+      if (title === DEFAULT_CONVERSATION_TITLE && message.role === 'user') {
+        title = titleFromMessage(message) || title;
+      }
+      return { nodes, title };
+    });
+    return node.id;
+  };
+
+  const updateMessage = (id: string, nodeId: string, updater: (message: Message) => Message) => {
+    updateNodes(id, (nodes) => {
+      const node = nodes[nodeId];
+      if (!node) return {};
+      nodes[nodeId] = { ...node, message: updater(node.message) };
+      return { nodes };
+    });
+  };
+
+  // Removes a message that never completed (e.g., a failed reply). Only leaf nodes are removed.
+  const removeMessage = (id: string, nodeId: string) => {
+    const conversation = conversationsRef.current[id];
+    const removed = conversation?.nodes[nodeId];
+    if (conversation && removed && removed.childIds.length === 0) {
+      // An edited message shares its attachments' files with the original.
+      const kept = new Set(assetIdsOf(Object.values(conversation.nodes).filter(node => node.id !== nodeId)));
+      releaseFiles(assetIdsOf([removed]).filter(assetId => !kept.has(assetId)));
+    }
+    updateNodes(id, (nodes) => {
+      const node = nodes[nodeId];
+      if (!node || node.childIds.length > 0 || !node.parentId) return {};
+      const parent = nodes[node.parentId];
+      const childIds = parent.childIds.filter(childId => childId !== nodeId);
+      nodes[parent.id] = {
+        ...parent,
+        childIds,
+        selectedChildId: parent.selectedChildId === nodeId ? childIds[childIds.length - 1] ?? null : parent.selectedChildId,
+      };
+      delete nodes[nodeId];
+      return { nodes };
+    });
+  };
+
+  /** Switches the active path to the branch that contains `nodeId`. */
+  const selectBranch = (id: string, nodeId: string) => {
+    updateNodes(id, (nodes) => {
+      const node = nodes[nodeId];
+      if (!node?.parentId) return {};
+      nodes[node.parentId] = { ...nodes[node.parentId], selectedChildId: nodeId };
+      return { nodes };
+    });
+  };
+
+  const activeConversation = activeConversationId ? conversations[activeConversationId] ?? null : null;
+
+  return {
+    conversations,
+    activeConversation,
+    saveError,
+    selectConversation: setActiveConversationId,
+    createConversation,
+    updateConversation,
+    renameConversation,
+    deleteConversation,
+    addMessage,
+    updateMessage,
+    removeMessage,
+    selectBranch,
+  };
+};
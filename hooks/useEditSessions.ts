@@ -0,0 +1,262 @@
+import { useState, useEffect, useMemo } from 'react';
+import { deleteAssets } from '../services/assetStore';
+
+const STORAGE_KEY = 'nexus-edit-sessions';
+const ACTIVE_KEY = 'nexus-active-edit-session';
+// Older sessions are forgotten; their edits stay in the editor history and media library.
+const MAX_SESSIONS = 20;
+
+export interface EditStep {
+  id: string;
+  /** Null for the original image the session started from. */
+  parentId: string | null;
+  childIds: string[];
+  /** The child shown in the filmstrip and restored by redo; other children are forks. */
+  selectedChildId: string | null;
+  /** The step's image in the asset store. */
+  assetId: string;
+  prompt: string;
+  masked?: boolean;
+  createdAt: number;
+}
+
+/**
+ * A retouching session: a tree of edits where each step was made from its parent's image.
+ * Only ids and prompts live here; the images are in the asset store.
+ */
+export interface EditSession {
+  id: string;
+  title: string;
+  steps: Record<string, EditStep>;
+  rootId: string;
+  /** The step being viewed, which the next edit is applied to. */
+  headId: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NewEditStep = Pick<EditStep, 'assetId' | 'prompt' | 'masked'>;
+
+const DEFAULT_SESSION_TITLE = 'Untitled session';
+
+const createStepId = () => `step-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createStep = (step: NewEditStep, parentId: string | null): EditStep => ({
+  ...step,
+  id: createStepId(),
+  parentId,
+  childIds: [],
+  selectedChildId: null,
+  createdAt: Date.now(),
+});
+
+/** The steps in the filmstrip: from the original along the selected children, including any that can be redone. */
+export const getStepPath = (session: EditSession): EditStep[] => {
+  const path: EditStep[] = [];
+  let step: EditStep | undefined = session.steps[session.rootId];
+  while (step) {
+    path.push(step);
+    step = step.selectedChildId ? session.steps[step.selectedChildId] : undefined;
+  }
+  return path;
+};
+
+const hasEdits = (session: EditSession) => Object.keys(session.steps).length > 1;
+
+// An original that was never edited isn't referenced by any history item, so it would never be cleaned up.
+const releaseUneditedSession = (session: EditSession | undefined) => {
+  if (!session || hasEdits(session)) return;
+  deleteAssets([session.steps[session.rootId].assetId]).catch(error => console.error("Could not delete the unedited original", error));
+};
+
+const loadSessions = (): Record<string, EditSession> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Could not load edit sessions from localStorage", error);
+    return {};
+  }
+};
+
+const loadActiveId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch (error) {
+    console.error("Could not load active edit session from localStorage", error);
+    return null;
+  }
+};
+
+export const useEditSessions = () => {
+  const [sessions, setSessions] = useState<Record<string, EditSession>>(loadSessions);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(loadActiveId);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+    } catch (error) {
+      console.error("Could not save edit sessions to localStorage", error);
+    }
+  }, [sessions]);
+
+  useEffect(() => {
+    try {
+      if (activeSessionId) {
+        localStorage.setItem(ACTIVE_KEY, activeSessionId);
+      } else {
+        localStorage.removeItem(ACTIVE_KEY);
+      }
+    } catch (error) {
+      console.error("Could not save active edit session to localStorage", error);
+    }
+  }, [activeSessionId]);
+
+  // Applies a change to a single session's step map.
+  const updateSteps = (id: string, updater: (steps: Record<string, EditStep>, session: EditSession) => Partial<EditSession>) => {
+    setSessions(prev => {
+      const session = prev[id];
+      if (!session) return prev;
+      const changes = updater({ ...session.steps }, session);
+      return { ...prev, [id]: { ...session, ...changes, updatedAt: Date.now() } };
+    });
+  };
+
+  /**
+   * Starts a session from a stored original, optionally with an existing edit as its first step.
+   * A previously active session without any edits is discarded.
+   */
+  const startSession = (originalAssetId: string, firstEdit?: NewEditStep): string => {
+    const now = Date.now();
+    const root = createStep({ assetId: originalAssetId, prompt: '' }, null);
+    const steps: Record<string, EditStep> = { [root.id]: root };
+    let headId = root.id;
+    if (firstEdit) {
+      const step = createStep(firstEdit, root.id);
+      steps[step.id] = step;
+      steps[root.id] = { ...root, childIds: [step.id], selectedChildId: step.id };
+      headId = step.id;
+    }
+    const session: EditSession = {
+      id: `edit-session-${now}`,
+      title: firstEdit?.prompt || DEFAULT_SESSION_TITLE,
+      steps,
+      rootId: root.id,
+      headId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const kept = { ...sessions, [session.id]: session };
+    const dropped: EditSession[] = [];
+    if (activeSessionId && kept[activeSessionId] && !hasEdits(kept[activeSessionId])) {
+      dropped.push(kept[activeSessionId]);
+      delete kept[activeSessionId];
+    }
+    dropped.push(...Object.values(kept).sort((a, b) => b.updatedAt - a.updatedAt).slice(MAX_SESSIONS));
+    dropped.forEach(releaseUneditedSession);
+    setSessions(prev => {
+      const updated = { ...prev, [session.id]: session };
+      dropped.forEach(old => delete updated[old.id]);
+      return updated;
+    });
+    setActiveSessionId(session.id);
+    return session.id;
+  };
+
+  const deleteSession = (id: string) => {
+    releaseUneditedSession(sessions[id]);
+    setSessions(prev => {
+      const updated = { ...prev };
+      delete updated[id];
+      return updated;
+    });
+    if (activeSessionId === id) {
+      setActiveSessionId(null);
+    }
+  };
+
+  /** Every asset a saved session refers to, which history eviction must keep. */
+  const referencedAssetIds = useMemo(
+    () => new Set(Object.values(sessions).flatMap(session => Object.values(session.steps).map(step => step.assetId))),
+    [sessions],
+  );
+
+  /** Forgets the sessions that refer to any of the deleted assets, since their steps can no longer be shown. */
+  const forgetDeletedAssets = (assetIds: string[]) => {
+    const deleted = new Set(assetIds);
+    const isAffected = (session: EditSession) => Object.values(session.steps).some(step => deleted.has(step.assetId));
+    setSessions(prev => Object.fromEntries(Object.entries(prev).filter(([, session]) => !isAffected(session))));
+    if (activeSessionId && sessions[activeSessionId] && isAffected(sessions[activeSessionId])) {
+      setActiveSessionId(null);
+    }
+  };
+
+  /** Adds an edit made from `parentId` and moves to it. Editing an earlier step forks a new branch. */
+  const addStep = (id: string, parentId: string, edit: NewEditStep): string => {
+    const step = createStep(edit, parentId);
+    updateSteps(id, (steps, session) => {
+      const parent = steps[parentId];
+      if (!parent) return {};
+      steps[parentId] = { ...parent, childIds: [...parent.childIds, step.id], selectedChildId: step.id };
+      steps[step.id] = step;
+      const title = session.title === DEFAULT_SESSION_TITLE ? edit.prompt || session.title : session.title;
+      return { steps, headId: step.id, title };
+    });
+    return step.id;
+  };
+
+  /** Moves to any step, selecting the branches that lead to it so it shows in the filmstrip. */
+  const goToStep = (id: string, stepId: string) => {
+    updateSteps(id, (steps) => {
+      if (!steps[stepId]) return {};
+      let step = steps[stepId];
+      while (step.parentId) {
+        const parent = steps[step.parentId];
+        steps[parent.id] = { ...parent, selectedChildId: step.id };
+        step = parent;
+      }
+      return { steps, headId: stepId };
+    });
+  };
+
+  const undo = (id: string) => {
+    const session = sessions[id];
+    const parentId = session?.steps[session.headId]?.parentId;
+    if (parentId) goToStep(id, parentId);
+  };
+
+  const redo = (id: string) => {
+    const session = sessions[id];
+    const childId = session?.steps[session.headId]?.selectedChildId;
+    if (childId) goToStep(id, childId);
+  };
+
+  /** Shows a different fork in the filmstrip, moving there if the current step was on the fork being hidden. */
+  const selectBranch = (id: string, stepId: string) => {
+    updateSteps(id, (steps, session) => {
+      const step = steps[stepId];
+      if (!step?.parentId) return {};
+      steps[step.parentId] = { ...steps[step.parentId], selectedChildId: stepId };
+      let ancestorId = steps[session.headId]?.parentId ?? null;
+      while (ancestorId && ancestorId !== step.parentId) ancestorId = steps[ancestorId].parentId;
+      return ancestorId ? { steps, headId: stepId } : { steps };
+    });
+  };
+
+  const activeSession = activeSessionId ? sessions[activeSessionId] ?? null : null;
+
+  return {
+    sessions,
+    activeSession,
+    selectSession: setActiveSessionId,
+    startSession,
+    deleteSession,
+    referencedAssetIds,
+    forgetDeletedAssets,
+    addStep,
+    goToStep,
+    undo,
+    redo,
+    selectBranch,
+  };
+};
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { BUILT_IN_PRESETS, GenerationPreset, createPresetId } from '../services/generationPresets';
+
+const STORAGE_KEY = 'nexus-generation-presets';
+
+export type PresetDraft = Omit<GenerationPreset, 'id' | 'builtIn'>;
+
+const loadPresets = (): GenerationPreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Could not load generation presets from localStorage", error);
+    return [];
+  }
+};
+
+/** The built-in presets followed by the user's own, which are shared by the image and video tools. */
+export const useGenerationPresets = () => {
+  const [userPresets, setUserPresets] = useState<GenerationPreset[]>(loadPresets);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(userPresets));
+    } catch (error) {
+      console.error("Could not save generation presets to localStorage", error);
+    }
+  }, [userPresets]);
+
+  /** Creates a preset, or updates the user preset with `id`. */
+  const savePreset = (draft: PresetDraft, id?: string): string => {
+    const presetId = id ?? createPresetId();
+    setUserPresets(prev => (
+      prev.some(preset => preset.id === presetId)
+        ? prev.map(preset => (preset.id === presetId ? { ...draft, id: presetId } : preset))
+        : [...prev, { ...draft, id: presetId }]
+    ));
+    return presetId;
+  };
+
+  const deletePreset = (id: string) => {
+    setUserPresets(prev => prev.filter(preset => preset.id !== id));
+  };
+
+  const presets = [...BUILT_IN_PRESETS, ...userPresets];
+
+  return { presets, savePreset, deletePreset };
+};
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { defaultPersonas, Persona } from '../types';
+import { migratePersona } from '../services/personaTransfer';
 
 const STORAGE_KEY = 'nexus-custom-personas';
 
@@ -10,8 +11,15 @@ export const usePersonas = () => {
     try {
         const stored = localStorage.getItem(STORAGE_KEY);
         if (stored) {
-          const customPersonas = JSON.parse(stored);
+          // Personas saved before the model, sampling and voice settings existed are brought up to date.
+          const customPersonas = Object.fromEntries(
+            Object.entries(JSON.parse(stored))
+              .map(([id, persona]) => [id, migratePersona(persona, id)] as const)
+              .filter((entry): entry is readonly [string, Persona] => entry[1] !== null)
+          );
           setPersonas({ ...defaultPersonas, ...customPersonas });
+          const migrated = JSON.stringify(customPersonas);
+          if (migrated !== stored) localStorage.setItem(STORAGE_KEY, migrated);
         }
     } catch (error) {
         console.error("Could not load custom personas from localStorage", error);
@@ -30,6 +38,19 @@ export const usePersonas = () => {
     }
   };
 
+  /** Saves several personas at once, e.g., from an import; ones with an existing id replace it. */
+  const importPersonas = (imported: Persona[]) => {
+    const updated = { ...personas, ...Object.fromEntries(imported.map(persona => [persona.id, persona])) };
+    setPersonas(updated);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(
+          Object.fromEntries(Object.entries(updated).filter(([key]) => !defaultPersonas[key]))
+        ));
+    } catch (error) {
+        console.error("Could not save imported personas to localStorage", error);
+    }
+  };
+
   const deletePersona = (id: string) => {
     if (defaultPersonas[id]) return; // Cannot delete default personas
     const updated = { ...personas };
@@ -44,5 +65,5 @@ export const usePersonas = () => {
     }
   };
 
-  return { personas, savePersona, deletePersona };
+  return { personas, savePersona, importPersonas, deletePersona };
 };
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { SavedPrompt } from '../types';
+import { createPromptId } from '../services/promptTemplates';
+
+const STORAGE_KEY = 'nexus-prompt-library';
+
+export type PromptDraft = Pick<SavedPrompt, 'title' | 'text' | 'folder' | 'tags'>;
+
+const loadPrompts = (): Record<string, SavedPrompt> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Could not load the prompt library from localStorage", error);
+    return {};
+  }
+};
+
+export const usePromptLibrary = () => {
+  const [promptsById, setPromptsById] = useState<Record<string, SavedPrompt>>(loadPrompts);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(promptsById));
+    } catch (error) {
+      console.error("Could not save the prompt library to localStorage", error);
+    }
+  }, [promptsById]);
+
+  /** Creates a prompt, or updates the one with `id`. */
+  const savePrompt = (draft: PromptDraft, id?: string): string => {
+    const now = Date.now();
+    const promptId = id ?? createPromptId();
+    setPromptsById(prev => ({
+      ...prev,
+      [promptId]: { ...draft, id: promptId, createdAt: prev[promptId]?.createdAt ?? now, updatedAt: now },
+    }));
+    return promptId;
+  };
+
+  const deletePrompt = (id: string) => {
+    setPromptsById(prev => {
+      const updated = { ...prev };
+      delete updated[id];
+      return updated;
+    });
+  };
+
+  /** Adds imported prompts; ones whose id already exists replace the local copy. */
+  const importPrompts = (imported: SavedPrompt[]): { added: number; replaced: number } => {
+    const replaced = imported.filter(prompt => promptsById[prompt.id]).length;
+    setPromptsById(prev => ({ ...prev, ...Object.fromEntries(imported.map(prompt => [prompt.id, prompt])) }));
+    return { added: imported.length - replaced, replaced };
+  };
+
+  const prompts = Object.values(promptsById).sort((a, b) => b.updatedAt - a.updatedAt);
+  const folders = [...new Set(prompts.map(prompt => prompt.folder).filter(Boolean))].sort();
+  const tags = [...new Set(prompts.flatMap(prompt => prompt.tags))].sort();
+
+  return { prompts, folders, tags, savePrompt, deletePrompt, importPrompts };
+};
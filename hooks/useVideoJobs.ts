@@ -0,0 +1,315 @@
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
+import type { AIProvider, VideoAspectRatio } from '../services/aiProvider';
+import { ASSET_COLLECTIONS, dataUrlToBlob, deleteAssets, evictOverLimit, putAsset } from '../services/assetStore';
+import { PresetSnapshot, applyStyleModifiers } from '../services/generationPresets';
+import { getMimeType } from '../services/imageProcessing';
+
+const STORAGE_KEY = 'nexus-video-jobs';
+// Videos are large, so fewer are kept than images.
+const MAX_SAVED_VIDEOS = 30;
+const MAX_FINISHED_JOBS = 20;
+// Polls that fail this many times in a row (e.g., while offline) fail the job.
+const MAX_POLL_FAILURES = 3;
+
+export type VideoJobStatus = 'starting' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface VideoSettings {
+  aspectRatio: VideoAspectRatio;
+  durationSeconds: number;
+  negativePrompt?: string;
+  numberOfVideos: number;
+  /** The style preset the prompt was enhanced with. */
+  style?: string;
+  /** Its style modifiers are added to the prompt when the job is sent. */
+  preset?: PresetSnapshot;
+}
+
+/** Metadata stored with each generated video in the asset store. */
+export interface VideoMetadata extends Omit<VideoSettings, 'numberOfVideos'> {
+  prompt: string;
+  model?: string;
+}
+
+export interface VideoJob {
+  id: string;
+  providerId: string;
+  model: string;
+  /** Set once the provider has accepted the request; this is what gets polled. */
+  operationName: string | null;
+  prompt: string;
+  settings: VideoSettings;
+  /** The stored start image, for image-to-video jobs. */
+  sourceAssetId: string | null;
+  status: VideoJobStatus;
+  progressPercent?: number;
+  error?: string;
+  pollFailures: number;
+  createdAt: number;
+  finishedAt?: number;
+  /** Assets of the finished videos in the media library. */
+  videoAssetIds: string[];
+}
+
+export interface VideoJobNotice {
+  id: string;
+  jobId: string;
+  tone: 'success' | 'error';
+  message: string;
+}
+
+export const isActiveJob = (job: VideoJob) => job.status === 'starting' || job.status === 'running';
+
+const createJobId = () => `video-job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const loadJobs = (): VideoJob[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error("Could not load video jobs from localStorage", error);
+    return [];
+  }
+};
+
+// A job that had no operation name yet when the page closed can't be resumed.
+const failInterruptedJob = (job: VideoJob): VideoJob => (job.status === 'starting'
+  ? { ...job, status: 'failed', error: 'The page was closed before the video generation started.', finishedAt: Date.now() }
+  : job);
+
+// Keeps every active job but only the newest finished ones.
+const pruneFinished = (jobs: VideoJob[]): VideoJob[] => {
+  let finished = 0;
+  return jobs.filter(job => isActiveJob(job) || ++finished <= MAX_FINISHED_JOBS);
+};
+
+const showBrowserNotification = (title: string, body: string) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body });
+  } catch (error) {
+    console.error("Could not show a browser notification", error);
+  }
+};
+
+const releaseSource = (sourceAssetId: string | null) => {
+  if (!sourceAssetId) return;
+  deleteAssets([sourceAssetId]).catch(error => console.error("Could not delete the video start image", error));
+};
+
+/**
+ * Runs video generations in the background. Jobs are persisted to localStorage and polled from
+ * here rather than from the Video Creator, so they keep going when the user switches tabs and are
+ * resumed after a reload. Use once near the root and share through `VideoJobsContext`.
+ */
+export const useVideoJobManager = (provider: AIProvider) => {
+  const [storedJobs] = useState<VideoJob[]>(loadJobs);
+  const [jobs, setJobs] = useState<VideoJob[]>(() => storedJobs.map(failInterruptedJob));
+  const [notices, setNotices] = useState<VideoJobNotice[]>([]);
+  const [focusedJobId, setFocusedJobId] = useState<string | null>(null);
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  const cancelledIdsRef = useRef<Set<string>>(new Set());
+  const isPollingRef = useRef(false);
+
+  // Interrupted jobs release their start image like any other failure. Deleting is idempotent,
+  // so running this twice in development is harmless.
+  useEffect(() => {
+    storedJobs.filter(job => job.status === 'starting').forEach(job => releaseSource(job.sourceAssetId));
+  }, []);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+    } catch (error) {
+      console.error("Could not save video jobs to localStorage", error);
+    }
+  }, [jobs]);
+
+  // Changes are dropped once a job has finished, so a late poll can't revive a cancelled job.
+  const updateActiveJob = (id: string, changes: Partial<VideoJob>) => {
+    setJobs(prev => pruneFinished(prev.map(job => (job.id === id && isActiveJob(job) ? { ...job, ...changes } : job))));
+  };
+
+  const addNotice = (job: VideoJob, tone: VideoJobNotice['tone'], message: string) => {
+    setNotices(prev => [...prev, { id: `${job.id}-${tone}`, jobId: job.id, tone, message }]);
+    showBrowserNotification(message, job.prompt);
+  };
+
+  const failJob = (job: VideoJob, error: string) => {
+    if (cancelledIdsRef.current.has(job.id)) return;
+    updateActiveJob(job.id, { status: 'failed', error, finishedAt: Date.now() });
+    releaseSource(job.sourceAssetId);
+    addNotice(job, 'error', 'Video generation failed');
+  };
+
+  const saveVideos = async (job: VideoJob, videos: Blob[]): Promise<string[]> => {
+    const { numberOfVideos: _count, ...settings } = job.settings;
+    const metadata: VideoMetadata = { prompt: job.prompt, model: job.model, ...settings };
+    const ids: string[] = [];
+    for (const blob of videos) {
+      const record = await putAsset({
+        collection: ASSET_COLLECTIONS.videos,
+        blob,
+        metadata,
+        sourceIds: job.sourceAssetId ? [job.sourceAssetId] : [],
+      });
+      ids.push(record.id);
+    }
+    await evictOverLimit(ASSET_COLLECTIONS.videos, MAX_SAVED_VIDEOS);
+    return ids;
+  };
+
+  const pollJob = async (job: VideoJob) => {
+    if (job.providerId !== provider.id) {
+      failJob(job, `This job was started with a different AI provider (${job.providerId}).`);
+      return;
+    }
+    let status;
+    try {
+      status = await provider.getVideoGenerationStatus(job.operationName!);
+    } catch (error: any) {
+      console.error("Could not poll the video operation", error);
+      if (job.pollFailures + 1 >= MAX_POLL_FAILURES) {
+        failJob(job, error.message || 'Lost contact with the video generation service.');
+      } else {
+        updateActiveJob(job.id, { pollFailures: job.pollFailures + 1 });
+      }
+      return;
+    }
+    if (cancelledIdsRef.current.has(job.id)) return;
+
+    if (!status.done) {
+      updateActiveJob(job.id, { progressPercent: status.progressPercent, pollFailures: 0 });
+    } else if (status.error || !status.videos?.length) {
+      failJob(job, status.error || 'Video generation completed without returning a video.');
+    } else {
+      try {
+        const videoAssetIds = await saveVideos(job, status.videos);
+        updateActiveJob(job.id, { status: 'succeeded', progressPercent: 100, videoAssetIds, finishedAt: Date.now() });
+        addNotice(job, 'success', status.videos.length > 1 ? 'Your videos are ready' : 'Your video is ready');
+      } catch (error: any) {
+        failJob(job, `The video was generated but could not be saved: ${error.message}`);
+      }
+    }
+  };
+
+  const pollJobs = async () => {
+    if (isPollingRef.current) return;
+    isPollingRef.current = true;
+    try {
+      for (const job of jobsRef.current.filter(job => job.status === 'running' && job.operationName)) {
+        await pollJob(job);
+      }
+    } finally {
+      isPollingRef.current = false;
+      // Touch state so the polling effect schedules the next round.
+      setJobs(prev => [...prev]);
+    }
+  };
+
+  const hasRunningJobs = jobs.some(job => job.status === 'running');
+  useEffect(() => {
+    if (!hasRunningJobs) return;
+    const timer = setTimeout(pollJobs, provider.videoPollIntervalMs);
+    return () => clearTimeout(timer);
+  }, [jobs, provider]);
+
+  /** Queues a new generation and returns the job id straight away; the request is sent in the background. */
+  const startJob = (prompt: string, settings: VideoSettings, sourceImage: string | null): string => {
+    const job: VideoJob = {
+      id: createJobId(),
+      providerId: provider.id,
+      model: provider.models.video,
+      operationName: null,
+      prompt,
+      settings,
+      sourceAssetId: null,
+      status: 'starting',
+      pollFailures: 0,
+      createdAt: Date.now(),
+      videoAssetIds: [],
+    };
+    setJobs(prev => [job, ...prev]);
+    setFocusedJobId(job.id);
+    if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      Notification.requestPermission().catch(error => console.error("Could not request notification permission", error));
+    }
+
+    (async () => {
+      let sourceAssetId: string | null = null;
+      try {
+        if (sourceImage) {
+          const source = await putAsset({ collection: ASSET_COLLECTIONS.videoSources, blob: dataUrlToBlob(sourceImage), metadata: {} });
+          sourceAssetId = source.id;
+          updateActiveJob(job.id, { sourceAssetId });
+        }
+        const operationName = await provider.startVideoGeneration(applyStyleModifiers(prompt, settings.preset?.styleModifiers), {
+          ...settings,
+          image: sourceImage ? { data: sourceImage.split(',')[1], mimeType: getMimeType(sourceImage) } : undefined,
+        });
+        if (cancelledIdsRef.current.has(job.id)) {
+          provider.cancelVideoGeneration?.(operationName).catch(error => console.error("Could not cancel the video operation", error));
+          releaseSource(sourceAssetId);
+          return;
+        }
+        updateActiveJob(job.id, { operationName, status: 'running' });
+      } catch (error: any) {
+        if (cancelledIdsRef.current.has(job.id)) releaseSource(sourceAssetId);
+        failJob({ ...job, sourceAssetId }, error.message || 'Failed to start video generation.');
+      }
+    })();
+    return job.id;
+  };
+
+  /**
+   * Stops tracking a job. The backend is asked to stop too where it supports that; otherwise the
+   * operation may still finish on the server, but its result is discarded.
+   */
+  const cancelJob = (id: string) => {
+    const job = jobsRef.current.find(job => job.id === id);
+    if (!job || !isActiveJob(job)) return;
+    cancelledIdsRef.current.add(id);
+    updateActiveJob(id, { status: 'cancelled', finishedAt: Date.now() });
+    if (job.operationName) {
+      provider.cancelVideoGeneration?.(job.operationName).catch(error => console.error("Could not cancel the video operation", error));
+      releaseSource(job.sourceAssetId);
+    }
+  };
+
+  const removeJob = (id: string) => {
+    setJobs(prev => prev.filter(job => job.id !== id || isActiveJob(job)));
+  };
+
+  const clearFinishedJobs = () => {
+    setJobs(prev => prev.filter(isActiveJob));
+  };
+
+  const dismissNotice = (id: string) => {
+    setNotices(prev => prev.filter(notice => notice.id !== id));
+  };
+
+  return {
+    jobs,
+    notices,
+    focusedJobId,
+    focusJob: setFocusedJobId,
+    startJob,
+    cancelJob,
+    removeJob,
+    clearFinishedJobs,
+    dismissNotice,
+  };
+};
+
+export type VideoJobManager = ReturnType<typeof useVideoJobManager>;
+
+export const VideoJobsContext = createContext<VideoJobManager | null>(null);
+
+export const useVideoJobs = (): VideoJobManager => {
+  const manager = useContext(VideoJobsContext);
+  if (!manager) {
+    throw new Error("useVideoJobs must be used inside a VideoJobsContext provider.");
+  }
+  return manager;
+};
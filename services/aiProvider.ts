@@ -0,0 +1,177 @@
+import type { ChatGenerationConfig, ChatToolId, Message, MessageGrounding, MessagePart } from '../types';
+
+export type AspectRatio = '1:1' | '16:9' | '9:16';
+
+export type PersonGeneration = 'DONT_ALLOW' | 'ALLOW_ADULT' | 'ALLOW_ALL';
+
+export type ImageOutputFormat = 'image/png' | 'image/jpeg';
+
+export interface ImageGenerationOptions {
+  aspectRatio: AspectRatio;
+  /** How many candidates to generate, from 1 to 4. */
+  numberOfImages?: number;
+  negativePrompt?: string;
+  seed?: number;
+  personGeneration?: PersonGeneration;
+  /** Defaults to whatever the provider produces natively. */
+  outputFormat?: ImageOutputFormat;
+}
+
+export interface GeneratedImage {
+  url: string;
+  /** The seed that produced this image, when the provider reports one. */
+  seed?: number;
+}
+
+export interface InlineData {
+  data: string;
+  mimeType: string;
+}
+
+export type VideoAspectRatio = '16:9' | '9:16';
+
+export interface VideoGenerationOptions {
+  /** A still image to animate; the prompt then describes the motion. */
+  image?: InlineData;
+  aspectRatio: VideoAspectRatio;
+  /** Clip length, from 5 to 8 seconds. */
+  durationSeconds?: number;
+  negativePrompt?: string;
+  /** How many videos to generate, 1 or 2. */
+  numberOfVideos?: number;
+}
+
+export interface VideoOperationStatus {
+  done: boolean;
+  /** Completion from 0 to 100, when the backend reports it. */
+  progressPercent?: number;
+  /** Why the operation failed, once `done`. */
+  error?: string;
+  /** The finished videos, once `done` without an error. */
+  videos?: Blob[];
+}
+
+/** An input image for an edit, labeled so prompts can refer to it ("the logo", "image 2"). */
+export interface SourceImage extends InlineData {
+  label?: string;
+}
+
+export interface ImageEditOptions {
+  /** Index of the image being edited; the other images are references. Defaults to 0. */
+  targetIndex?: number;
+  /**
+   * A black-and-white image the size of the target image: white marks the region to change.
+   * Callers should still composite the result through the mask, as models may touch other areas.
+   */
+  mask?: InlineData;
+}
+
+export interface PromptEnhanceOptions {
+  /** What the prompt will be fed to, since video prompts also describe motion. */
+  target: 'image' | 'video';
+  /** A visual style to steer the rewrite toward, described in words. */
+  style?: string;
+}
+
+export interface EditedImageResponse {
+  imageUrl: string | null;
+  text: string | null;
+}
+
+/** The subset of JSON Schema used to describe function tool parameters. */
+export interface JsonSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  enum?: string[];
+  items?: JsonSchema;
+}
+
+/** A function the model may ask the app to run; see `services/chatTools.ts`. */
+export interface FunctionDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface FunctionCall {
+  /** Echoed back in the matching `functionResponse`, when the provider assigns one. */
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ChatOptions {
+  model: string;
+  systemInstruction: string;
+  /** Earlier turns of the conversation, oldest first. Must start with a user turn. */
+  history: Message[];
+  generation?: ChatGenerationConfig;
+  tools?: ChatToolId[];
+  /**
+   * Functions the app runs on the model's behalf; results go back via `functionResponse` parts.
+   * Ignored when `tools` has any built-in tool, since the two can't be combined in one request.
+   */
+  functions?: FunctionDeclaration[];
+}
+
+export interface ChatStreamChunk {
+  text: string;
+  /** The sources found so far when search grounding is on; later chunks supersede earlier ones. */
+  grounding?: MessageGrounding;
+  /** Functions the model wants run before it carries on with its reply. */
+  functionCalls?: FunctionCall[];
+}
+
+export interface SendMessageOptions {
+  /** Aborting stops the stream; chunks already yielded are kept by the caller. */
+  signal?: AbortSignal;
+}
+
+export interface ChatSession {
+  sendMessageStream: (parts: MessagePart[], options?: SendMessageOptions) => Promise<AsyncIterable<ChatStreamChunk>>;
+}
+
+/** The model each capability runs on, recorded alongside saved results. */
+export interface ProviderModels {
+  chat: string;
+  image: string;
+  imageEdit: string;
+  video: string;
+  transcription: string;
+  /** Short one-off text tasks, such as rewriting prompts. */
+  text: string;
+}
+
+/**
+ * Everything the app needs from a generative AI backend. Components only talk to this
+ * interface, so a provider can be swapped (e.g., for the offline mock) without touching them.
+ */
+export interface AIProvider {
+  id: string;
+  name: string;
+  models: ProviderModels;
+  /** The chat models a persona can choose from, including `models.chat`. */
+  chatModels: string[];
+  /** Whether `ImageGenerationOptions.seed` is honored, making results reproducible. */
+  supportsImageSeed: boolean;
+  createChat: (options: ChatOptions) => ChatSession;
+  generateImage: (prompt: string, options: ImageGenerationOptions) => Promise<GeneratedImage[]>;
+  /** Edits one image, optionally guided by reference images. Images are sent in the given order. */
+  editImage: (prompt: string, images: SourceImage[], options?: ImageEditOptions) => Promise<EditedImageResponse>;
+  /** How long to wait between polls of a running video operation. */
+  videoPollIntervalMs: number;
+  /**
+   * Starts a long-running video generation and resolves with its operation name, which stays
+   * valid across page reloads so the operation can be polled again later.
+   */
+  startVideoGeneration: (prompt: string, options: VideoGenerationOptions) => Promise<string>;
+  /** Throws only when the status could not be fetched; failed operations report `error`. */
+  getVideoGenerationStatus: (operationName: string) => Promise<VideoOperationStatus>;
+  /** Asks the backend to stop an operation, where the backend supports it. */
+  cancelVideoGeneration?: (operationName: string) => Promise<void>;
+  transcribeAudio: (audio: InlineData) => Promise<string>;
+  /** Expands a short generation prompt into a detailed one, keeping the user's intent. */
+  enhancePrompt: (prompt: string, options: PromptEnhanceOptions) => Promise<string>;
+}
@@ -0,0 +1,337 @@
+import { captureVideoFrame, loadImage } from './imageProcessing';
+
+// Generated media is kept as binary Blobs in IndexedDB rather than as base64 strings in
+// localStorage, whose ~5MB quota is exhausted by a handful of images.
+
+const DB_NAME = 'nexus-assets';
+const DB_VERSION = 1;
+const STORE_NAME = 'assets';
+const THUMBNAIL_SIZE = 256;
+
+/**
+ * Collections owned by each tool. Everything except the source images and the chat's files appears
+ * in the media library.
+ */
+export const ASSET_COLLECTIONS = {
+  imageGeneration: 'image-generation',
+  imageEdits: 'image-edits',
+  imageEditSources: 'image-edit-sources',
+  videos: 'videos',
+  videoSources: 'video-sources',
+  chatFiles: 'chat-files',
+} as const;
+
+export type AssetKind = 'image' | 'video' | 'file';
+
+export interface AssetRecord<TMeta = Record<string, unknown>> {
+  id: string;
+  /** Groups assets by the feature that owns them, e.g. 'image-generation'. */
+  collection: string;
+  kind: AssetKind;
+  mimeType: string;
+  size: number;
+  blob: Blob;
+  thumbnail: Blob | null;
+  createdAt: number;
+  metadata: TMeta;
+  /** Assets this one was derived from. They are deleted with it once nothing else refers to them. */
+  sourceIds: string[];
+  /** Favorites are never evicted automatically. */
+  favorite?: boolean;
+}
+
+export interface NewAsset<TMeta = Record<string, unknown>> {
+  id?: string;
+  collection: string;
+  blob: Blob;
+  metadata: TMeta;
+  createdAt?: number;
+  sourceIds?: string[];
+}
+
+export interface StorageUsage {
+  /** Bytes used by every asset in the store. */
+  assetBytes: number;
+  /** Origin-wide usage and quota as reported by the browser, when available. */
+  usage: number | null;
+  quota: number | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("Your browser does not support IndexedDB, so history cannot be saved."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('collection', 'collection');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g., blocked by another tab).
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const createAssetId = () => `asset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/:(.*?)[;,]/)?.[1] || 'application/octet-stream';
+  if (!header.includes(';base64')) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType });
+  }
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+/** Reads a data URL, object URL or remote URL into a Blob. */
+export const urlToBlob = async (url: string): Promise<Blob> => {
+  if (url.startsWith('data:')) return dataUrlToBlob(url);
+  const response = await fetch(url);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+const kindFor = (mimeType: string): AssetKind =>
+  mimeType.startsWith('video/') ? 'video' : mimeType.startsWith('image/') ? 'image' : 'file';
+
+const createThumbnail = async (blob: Blob): Promise<Blob | null> => {
+  const isVideo = blob.type.startsWith('video/');
+  if (!isVideo && !blob.type.startsWith('image/')) return null;
+  const url = URL.createObjectURL(blob);
+  try {
+    const source = isVideo ? await captureVideoFrame(url) : await loadImage(url);
+    const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+    const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', 0.8));
+  } catch (error) {
+    console.error("Could not create asset thumbnail", error);
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const getAssets = async <TMeta = Record<string, unknown>>(collection: string): Promise<AssetRecord<TMeta>[]> => {
+  const records = await runTransaction('readonly', store => store.index('collection').getAll(collection));
+  return ((records ?? []) as AssetRecord<TMeta>[]).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getAsset = async <TMeta = Record<string, unknown>>(id: string): Promise<AssetRecord<TMeta> | null> => {
+  const record = await runTransaction('readonly', store => store.get(id));
+  return (record as AssetRecord<TMeta> | undefined) ?? null;
+};
+
+const getAllAssets = async (): Promise<AssetRecord[]> => {
+  const records = await runTransaction('readonly', store => store.getAll());
+  return (records ?? []) as AssetRecord[];
+};
+
+/**
+ * Deletes assets together with any source assets no remaining asset refers to.
+ * Returns the ids of everything that was removed.
+ */
+export const deleteAssets = async (ids: string[]): Promise<string[]> => {
+  if (ids.length === 0) return [];
+  const all = await getAllAssets();
+  const deleted = new Set(ids);
+  const remaining = all.filter(asset => !deleted.has(asset.id));
+  const stillReferenced = new Set(remaining.flatMap(asset => asset.sourceIds));
+  for (const asset of all) {
+    if (!deleted.has(asset.id)) continue;
+    for (const sourceId of asset.sourceIds) {
+      if (!stillReferenced.has(sourceId)) deleted.add(sourceId);
+    }
+  }
+  await runTransaction('readwrite', store => {
+    deleted.forEach(id => store.delete(id));
+  });
+  return [...deleted];
+};
+
+export const clearCollection = async (collection: string): Promise<string[]> => {
+  const assets = await getAssets(collection);
+  return deleteAssets(assets.map(asset => asset.id));
+};
+
+/** Sets the favorite flag on an asset and returns the updated record. */
+export const setAssetFavorite = async (id: string, favorite: boolean): Promise<AssetRecord | null> => {
+  const record = await getAsset(id);
+  if (!record) return null;
+  const updated = { ...record, favorite };
+  await runTransaction('readwrite', store => store.put(updated));
+  return updated;
+};
+
+/**
+ * Keeps only the newest `maxItems` non-favorite assets of a collection. Assets in `keepIds` are
+ * never evicted and don't count towards the limit. Returns the ids that were evicted.
+ */
+export const evictOverLimit = async (collection: string, maxItems: number, keepIds?: Set<string>): Promise<string[]> => {
+  const assets = (await getAssets(collection)).filter(asset => !asset.favorite && !keepIds?.has(asset.id));
+  return deleteAssets(assets.slice(maxItems).map(asset => asset.id));
+};
+
+// Frees space by dropping the oldest non-favorite assets of the collection being written to.
+const evictOldest = async (collection: string, count: number): Promise<number> => {
+  const assets = (await getAssets(collection)).filter(asset => !asset.favorite);
+  const evicted = await deleteAssets(assets.slice(-count).map(asset => asset.id));
+  return evicted.length;
+};
+
+export const putAsset = async <TMeta>(asset: NewAsset<TMeta>): Promise<AssetRecord<TMeta>> => {
+  const record: AssetRecord<TMeta> = {
+    id: asset.id ?? createAssetId(),
+    collection: asset.collection,
+    kind: kindFor(asset.blob.type),
+    mimeType: asset.blob.type,
+    size: asset.blob.size,
+    blob: asset.blob,
+    thumbnail: await createThumbnail(asset.blob),
+    createdAt: asset.createdAt ?? Date.now(),
+    metadata: asset.metadata,
+    sourceIds: asset.sourceIds ?? [],
+  };
+
+  try {
+    await runTransaction('readwrite', store => store.put(record));
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    // Out of space: evict a few of the oldest assets in this collection and try once more.
+    if (await evictOldest(asset.collection, 5) === 0) {
+      throw new Error("Not enough storage space to save this item. Try clearing some history.");
+    }
+    await runTransaction('readwrite', store => store.put(record));
+  }
+  return record;
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const all = await getAllAssets();
+  const assetBytes = all.reduce((total, asset) => total + asset.size + (asset.thumbnail?.size ?? 0), 0);
+  let usage: number | null = null;
+  let quota: number | null = null;
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage = estimate.usage ?? null;
+    quota = estimate.quota ?? null;
+  }
+  return { assetBytes, usage, quota };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+export interface LegacyHistoryEntry<TMeta> {
+  id: string;
+  createdAt: number;
+  dataUrl: string;
+  metadata: TMeta;
+  /** Extra images the entry refers to, stored first and linked through `sourceIds`. */
+  sources?: { id: string; dataUrl: string; collection: string }[];
+}
+
+/**
+ * Moves a history that used to be kept in localStorage into the asset store. Entries that fail to
+ * convert are skipped so one bad item can't block the rest; they are written back under the key
+ * for the next load to retry, and the key is only removed once everything has moved.
+ */
+export const migrateLocalStorageHistory = async <TItem, TMeta>(
+  storageKey: string,
+  collection: string,
+  toEntry: (item: TItem) => LegacyHistoryEntry<TMeta>,
+): Promise<void> => {
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(storageKey);
+  } catch (error) {
+    console.error(`Could not read ${storageKey} from localStorage`, error);
+  }
+  if (!stored) return;
+
+  let items: TItem[];
+  try {
+    items = JSON.parse(stored);
+  } catch (error) {
+    // Left in place rather than deleted, in case a later version can make sense of it.
+    console.error(`Could not parse ${storageKey} from localStorage`, error);
+    return;
+  }
+
+  const failed: TItem[] = [];
+  for (const item of items) {
+    try {
+      const entry = toEntry(item);
+      for (const source of entry.sources ?? []) {
+        await putAsset({ id: source.id, collection: source.collection, blob: dataUrlToBlob(source.dataUrl), metadata: {}, createdAt: entry.createdAt });
+      }
+      await putAsset({
+        id: entry.id,
+        collection,
+        blob: dataUrlToBlob(entry.dataUrl),
+        metadata: entry.metadata,
+        createdAt: entry.createdAt,
+        sourceIds: entry.sources?.map(source => source.id),
+      });
+    } catch (error) {
+      console.error(`Could not migrate an entry from ${storageKey}`, error);
+      failed.push(item);
+    }
+  }
+
+  try {
+    if (failed.length === 0) {
+      localStorage.removeItem(storageKey);
+    } else {
+      localStorage.setItem(storageKey, JSON.stringify(failed));
+    }
+  } catch (error) {
+    console.error(`Could not update ${storageKey} in localStorage`, error);
+  }
+};
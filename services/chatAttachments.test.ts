@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from '../types';
+import { ChatAttachment, fitsInlineLimit, limitHistoryAttachments, toAttachmentParts } from './chatAttachments';
+import { DOCUMENT_TEXT_BUDGET } from './documents';
+
+const MB = 1024 * 1024;
+
+const image = (id: string, size = 1000): ChatAttachment => ({ type: 'image', id, name: `${id}.png`, size, mimeType: 'image/png', data: 'aW1n' });
+
+const pdf = (id: string, size = 1000): ChatAttachment => ({
+  type: 'document',
+  id,
+  document: { name: `${id}.pdf`, mimeType: 'application/pdf', size, kind: 'pdf', data: 'cGRm' },
+});
+
+const textDocument = (id: string, text: string, size = text.length): ChatAttachment => ({
+  type: 'document',
+  id,
+  document: { name: `${id}.txt`, mimeType: 'text/plain', size, kind: 'text', text },
+});
+
+// Sections of 4,000 characters, each starting with its own word so the query can pick them.
+const longText = (words: string[]) => words.map(word => `${word.padEnd(3_999, '.')}\n`).join('');
+
+describe('fitsInlineLimit', () => {
+  it('counts images and PDFs against the 20 MB limit', () => {
+    expect(fitsInlineLimit([image('a', 7 * MB), pdf('b', 12 * MB)], image('c', MB))).toBe(true);
+    expect(fitsInlineLimit([image('a', 7 * MB), pdf('b', 12 * MB)], image('c', MB + 1))).toBe(false);
+  });
+
+  it('does not count text documents, which are sent as text', () => {
+    expect(fitsInlineLimit([pdf('a', 20 * MB)], textDocument('t', 'Large', 30 * MB))).toBe(true);
+  });
+});
+
+describe('toAttachmentParts', () => {
+  it('keeps the attachments in order, each pointing at its file', () => {
+    const parts = toAttachmentParts([image('i'), textDocument('t', 'Hello'), pdf('p')], '');
+
+    expect(parts.map(part => part.assetId)).toEqual(['i', 't', 'p']);
+    expect(parts[0].inlineData).toEqual({ data: 'aW1n', mimeType: 'image/png' });
+    expect(parts[1].text).toContain('Hello');
+    expect(parts[2].inlineData?.mimeType).toBe('application/pdf');
+  });
+
+  it('sends a document whole when it fits the text budget', () => {
+    const text = longText(['a', 'b', 'c']);
+    const [part] = toAttachmentParts([textDocument('t', text)], '');
+    expect(part.document?.excerpt).toBeUndefined();
+  });
+
+  it('shares the text budget between text documents', () => {
+    const sections = DOCUMENT_TEXT_BUDGET / 4_000;
+    // Each document alone would fit, but two together don't.
+    const text = longText(Array.from({ length: sections * 0.75 }, (_, index) => `s${index}`));
+    const parts = toAttachmentParts([textDocument('one', text), image('i'), textDocument('two', text)], 's3');
+
+    const excerpts = parts.flatMap(part => (part.document?.excerpt ? [part.document.excerpt] : []));
+    expect(excerpts).toEqual([
+      { included: sections / 2, total: sections * 0.75 },
+      { included: sections / 2, total: sections * 0.75 },
+    ]);
+    expect(parts[0].text).toContain('s3.');
+  });
+});
+
+describe('limitHistoryAttachments', () => {
+  const userMessage = (parts: Message['parts']): Message => ({ role: 'user', parts });
+
+  it('leaves history that fits alone', () => {
+    const history = [userMessage([...toAttachmentParts([image('i'), textDocument('t', 'Hi')], ''), { text: 'Look' }])];
+    expect(limitHistoryAttachments(history, [{ text: 'And now?' }])).toEqual(history);
+  });
+
+  it('replaces the oldest documents once the text budget is used up', () => {
+    const text = longText(Array.from({ length: DOCUMENT_TEXT_BUDGET / 4_000 / 2 }, (_, index) => `s${index}`));
+    const older = userMessage(toAttachmentParts([textDocument('old', text)], ''));
+    const newer = userMessage(toAttachmentParts([textDocument('new', text)], ''));
+    const current = toAttachmentParts([textDocument('current', 'short')], '');
+
+    const [limitedOlder, limitedNewer] = limitHistoryAttachments([older, newer], current);
+
+    expect(limitedNewer).toEqual(newer);
+    expect(limitedOlder.parts).toEqual([{ text: expect.stringContaining('The document "old.txt" was sent earlier') }]);
+  });
+
+  it('counts inline data against the size limit, including the message being sent', () => {
+    const base64 = (bytes: number) => 'A'.repeat(bytes / 3 * 4);
+    const history = [
+      userMessage([{ inlineData: { data: base64(9 * MB), mimeType: 'image/png' } }]),
+      userMessage([{ inlineData: { data: base64(9 * MB), mimeType: 'image/png' } }]),
+    ];
+    const current = [{ inlineData: { data: base64(3 * MB), mimeType: 'image/png' } }];
+
+    const [first, second] = limitHistoryAttachments(history, current);
+
+    expect(second).toEqual(history[1]);
+    expect(first.parts[0].text).toContain('An attachment was sent earlier');
+  });
+
+  it('notes attachments whose file is gone', () => {
+    const history = [userMessage([
+      { inlineData: { data: '', mimeType: 'image/png' } },
+      { document: { name: 'gone.txt', mimeType: 'text/plain', size: 10 } },
+      { text: 'Question' },
+    ])];
+
+    const [message] = limitHistoryAttachments(history, []);
+
+    expect(message.parts).toEqual([
+      { text: '[An attachment from this message is no longer available.]' },
+      { text: '[The document "gone.txt" from this message is no longer available.]' },
+      { text: 'Question' },
+    ]);
+  });
+});
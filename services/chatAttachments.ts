@@ -0,0 +1,202 @@
+import type { Message, MessagePart } from '../types';
+import type { InlineData } from './aiProvider';
+import { ASSET_COLLECTIONS, blobToDataUrl, createAssetId, dataUrlToBlob, formatBytes, getAsset, putAsset } from './assetStore';
+import { DOCUMENT_TEXT_BUDGET, DocumentAttachment, isDocumentFile, readDocument, toDocumentPart } from './documents';
+import { loadImage } from './imageProcessing';
+
+// Files attached to a chat message in the composer, in the order they were added.
+
+export type ChatAttachment =
+  | { type: 'image'; id: string; name: string; size: number; mimeType: string; data: string }
+  | { type: 'document'; id: string; document: DocumentAttachment };
+
+export const MAX_ATTACHMENTS = 10;
+const MAX_IMAGE_BYTES = 7 * 1024 * 1024;
+/** Inline files travel in the request itself, which the API caps at about 20 MB. */
+const MAX_INLINE_BYTES = 20 * 1024 * 1024;
+
+// Formats the model accepts as they are; other images the browser can decode are converted to PNG.
+const MODEL_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+const createAttachmentId = () => `attachment-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toPngDataUrl = async (file: File): Promise<string> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth || 1024;
+    canvas.height = image.naturalHeight || 1024;
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+  } catch {
+    throw new Error(`${file.name} is an image format that can't be sent.`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const readImage = async (file: File): Promise<ChatAttachment> => {
+  if (file.size > MAX_IMAGE_BYTES) throw new Error(`${file.name} is larger than ${formatBytes(MAX_IMAGE_BYTES)}, the limit for images.`);
+  const dataUrl = MODEL_IMAGE_TYPES.includes(file.type) ? await blobToDataUrl(file) : await toPngDataUrl(file);
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:(.*?);/)?.[1] ?? 'image/png';
+  return { type: 'image', id: createAttachmentId(), name: file.name || 'Pasted image', size: file.size, mimeType, data };
+};
+
+/** Reads an image or document for attaching, throwing an Error that explains why it can't be. */
+export const readAttachment = async (file: File): Promise<ChatAttachment> => {
+  if (file.type.startsWith('image/')) return readImage(file);
+  if (isDocumentFile(file)) return { type: 'document', id: createAttachmentId(), document: await readDocument(file) };
+  throw new Error(`${file.name} is not a supported file type.`);
+};
+
+const inlineBytes = (attachment: ChatAttachment) =>
+  attachment.type === 'image' ? attachment.size : attachment.document.kind === 'pdf' ? attachment.document.size : 0;
+
+/** Whether `attachment` can join `attachments` without the message going over the inline size limit. */
+export const fitsInlineLimit = (attachments: ChatAttachment[], attachment: ChatAttachment): boolean =>
+  attachments.reduce((total, existing) => total + inlineBytes(existing), inlineBytes(attachment)) <= MAX_INLINE_BYTES;
+
+export const INLINE_LIMIT_LABEL = formatBytes(MAX_INLINE_BYTES);
+
+/**
+ * The message parts for the attachments, in the same order. Long text documents share the text
+ * budget, and `query` (the message text) picks which of their sections are sent. Each part points
+ * at its attachment's file by id; see `storeAttachments`.
+ */
+export const toAttachmentParts = (attachments: ChatAttachment[], query: string): MessagePart[] => {
+  const textDocumentCount = attachments.filter(attachment => attachment.type === 'document' && attachment.document.kind === 'text').length;
+  const budget = DOCUMENT_TEXT_BUDGET / Math.max(textDocumentCount, 1);
+  return attachments.map(attachment => (attachment.type === 'image'
+    ? { inlineData: { data: attachment.data, mimeType: attachment.mimeType }, assetId: attachment.id }
+    : { ...toDocumentPart(attachment.document, query, budget), assetId: attachment.id }));
+};
+
+// The files of chat messages are kept in the asset store, so saved conversations only hold their
+// ids. Attachments are stored under their own id; a text document is stored whole, so the sections
+// sent can be picked again when the message is edited or the conversation is reloaded.
+
+const storeFile = (id: string, blob: Blob) => putAsset({ id, collection: ASSET_COLLECTIONS.chatFiles, blob, metadata: {} });
+
+const base64ToBlob = (data: string, mimeType: string) => dataUrlToBlob(`data:${mimeType};base64,${data}`);
+
+const toBase64 = async (blob: Blob) => (await blobToDataUrl(blob)).split(',')[1];
+
+const attachmentBlob = (attachment: ChatAttachment): Blob => {
+  if (attachment.type === 'image') return base64ToBlob(attachment.data, attachment.mimeType);
+  const { document } = attachment;
+  return document.kind === 'pdf'
+    ? base64ToBlob(document.data ?? '', document.mimeType)
+    : new Blob([document.text ?? ''], { type: document.mimeType });
+};
+
+/** Stores the attachments' files before they are sent. Throws if there isn't room for them. */
+export const storeAttachments = async (attachments: ChatAttachment[]): Promise<void> => {
+  for (const attachment of attachments) await storeFile(attachment.id, attachmentBlob(attachment));
+};
+
+/** Stores images a tool produced and returns them with their `assetId`; any that can't be stored stay inline. */
+export const storeToolImages = (images: InlineData[]): Promise<(InlineData & { assetId?: string })[]> =>
+  Promise.all(images.map(async image => {
+    try {
+      const record = await storeFile(createAssetId(), base64ToBlob(image.data, image.mimeType));
+      return { ...image, assetId: record.id };
+    } catch (error) {
+      console.error("Could not store a tool image", error);
+      return image;
+    }
+  }));
+
+// Rebuilds the attachment a part was made from, or null when its file is no longer stored.
+const restoreAttachment = async (part: MessagePart): Promise<ChatAttachment | null> => {
+  const record = part.assetId ? await getAsset(part.assetId) : null;
+  if (!record) return null;
+  const { id, blob } = record;
+  if (!part.document) {
+    return { type: 'image', id, name: 'Image', size: blob.size, mimeType: part.inlineData?.mimeType ?? blob.type, data: await toBase64(blob) };
+  }
+  const { name, mimeType, size } = part.document;
+  return part.inlineData
+    ? { type: 'document', id, document: { name, mimeType, size, kind: 'pdf', data: await toBase64(blob) } }
+    : { type: 'document', id, document: { name, mimeType, size, kind: 'text', text: await blob.text() } };
+};
+
+/**
+ * Rebuilds the stored attachments among `parts` from the asset store, with document sections
+ * picked for `query`. Parts whose file is gone lose their `assetId`; other parts are kept as they are.
+ */
+export const restoreAttachmentParts = async (parts: MessagePart[], query: string): Promise<MessagePart[]> => {
+  const restored = await Promise.all(parts.filter(part => part.assetId).map(restoreAttachment));
+  const attachments = restored.filter((attachment): attachment is ChatAttachment => attachment !== null);
+  const rebuilt = toAttachmentParts(attachments, query);
+  return parts.map(part => {
+    if (!part.assetId) return part;
+    const index = attachments.findIndex(attachment => attachment.id === part.assetId);
+    if (index !== -1) return rebuilt[index];
+    const { assetId: _assetId, ...rest } = part;
+    return rest;
+  });
+};
+
+/** The text the user typed in a message, without its documents. */
+export const messageQuery = (parts: MessagePart[]): string =>
+  parts.map(part => (part.document ? '' : part.text ?? '')).join('');
+
+/** Loads the files a saved message points at back into it. */
+export const restoreMessageFiles = async (message: Message): Promise<Message> => {
+  const parts = message.parts.some(part => part.assetId)
+    ? await restoreAttachmentParts(message.parts, messageQuery(message.parts))
+    : message.parts;
+  const toolCalls = message.toolCalls && await Promise.all(message.toolCalls.map(async call => {
+    if (!call.images) return call;
+    const images = await Promise.all(call.images.map(async image => {
+      if (!image.assetId || image.data) return image;
+      const record = await getAsset(image.assetId);
+      if (record) return { ...image, data: await toBase64(record.blob) };
+      const { assetId: _assetId, ...rest } = image;
+      return rest;
+    }));
+    return { ...call, images };
+  }));
+  return { ...message, parts, ...(toolCalls ? { toolCalls } : {}) };
+};
+
+// Base64 takes four characters for every three bytes.
+const inlinePartBytes = (part: MessagePart) => (part.inlineData ? Math.ceil(part.inlineData.data.length * 3 / 4) : 0);
+const documentTextLength = (part: MessagePart) => (part.document && part.text ? part.text.length : 0);
+
+const describe = (part: MessagePart) => (part.document ? `The document "${part.document.name}"` : 'An attachment');
+
+const omittedNote = (part: MessagePart): MessagePart => ({
+  text: `[${describe(part)} was sent earlier in the conversation and is left out here to keep the request within its size limits.]`,
+});
+
+// A stored file that was deleted (or hasn't loaded yet) leaves its part empty.
+const isMissingFile = (part: MessagePart) =>
+  part.inlineData ? !part.inlineData.data : !!part.document && !part.text;
+
+/**
+ * Keeps the attachments of earlier turns within what one request can carry: document text shares
+ * the text budget, and images and PDFs the inline size limit, with the message being sent. The
+ * newest are kept; older ones that no longer fit, and files that are gone, are replaced by a short note.
+ */
+export const limitHistoryAttachments = (history: Message[], current: MessagePart[]): Message[] => {
+  let textLeft = DOCUMENT_TEXT_BUDGET - current.reduce((sum, part) => sum + documentTextLength(part), 0);
+  let bytesLeft = MAX_INLINE_BYTES - current.reduce((sum, part) => sum + inlinePartBytes(part), 0);
+  const fit = (part: MessagePart): MessagePart => {
+    if (isMissingFile(part)) return { text: `[${describe(part)} from this message is no longer available.]` };
+    const text = documentTextLength(part);
+    const bytes = inlinePartBytes(part);
+    if (text === 0 && bytes === 0) return part;
+    if (text > textLeft || bytes > bytesLeft) return omittedNote(part);
+    textLeft -= text;
+    bytesLeft -= bytes;
+    return part;
+  };
+  return history
+    .slice()
+    .reverse()
+    .map(message => ({ ...message, parts: message.parts.slice().reverse().map(fit).reverse() }))
+    .reverse();
+};
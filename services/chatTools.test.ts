@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './chatTools';
+
+describe('evaluateExpression', () => {
+  it('follows operator precedence', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+    expect(evaluateExpression('20 / 4 / 5')).toBe(1);
+    expect(evaluateExpression('17 % 5')).toBe(2);
+  });
+
+  it('treats powers as right-associative and binding tighter than unary minus', () => {
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateExpression('2 ** 10')).toBe(1024);
+    expect(evaluateExpression('-2 ^ 2')).toBe(-4);
+    expect(evaluateExpression('2 ^ -1')).toBe(0.5);
+  });
+
+  it('reads decimals and exponent notation', () => {
+    expect(evaluateExpression('.5 + 1.25')).toBe(1.75);
+    expect(evaluateExpression('1.5e3 + 2e-1')).toBe(1500.2);
+  });
+
+  it('knows the constants and functions, in any case', () => {
+    expect(evaluateExpression('PI')).toBe(Math.PI);
+    expect(evaluateExpression('sqrt(16) + abs(-2)')).toBe(6);
+    expect(evaluateExpression('Log(1000)')).toBeCloseTo(3);
+    expect(evaluateExpression('ln(e)')).toBe(1);
+    expect(evaluateExpression('round(2.5) + floor(-1.5) + ceil(0.2)')).toBe(2);
+  });
+
+  it('rejects unknown symbols and malformed expressions', () => {
+    expect(() => evaluateExpression('2 + foo')).toThrow('Unknown symbol "foo"');
+    expect(() => evaluateExpression('2 +')).toThrow('ended unexpectedly');
+    expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"');
+    expect(() => evaluateExpression('1 2')).toThrow('Unexpected "2"');
+    expect(() => evaluateExpression('sqrt 4')).toThrow('Expected "("');
+    expect(() => evaluateExpression('alert(1); 2')).toThrow();
+  });
+
+  it('rejects results that are not finite', () => {
+    expect(() => evaluateExpression('1 / 0')).toThrow('not a finite number');
+    expect(() => evaluateExpression('sqrt(-1)')).toThrow('not a finite number');
+  });
+});
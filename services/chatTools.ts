@@ -0,0 +1,222 @@
+import type { AIProvider, AspectRatio, FunctionCall, FunctionDeclaration, InlineData } from './aiProvider';
+import { getMimeType } from './imageProcessing';
+
+// Function tools the chat model can call. Each tool declares its parameters as JSON Schema for
+// the model and has a handler that runs in the browser. Arguments come from the model, so
+// handlers check them rather than trusting the schema.
+
+export interface ChatToolContext {
+  provider: AIProvider;
+  /** Images in the conversation so far, oldest first: attachments and earlier tool results. */
+  images: InlineData[];
+}
+
+export interface ChatToolOutput {
+  /** Sent back to the model as the function response's `output`. */
+  output: Record<string, unknown>;
+  /** Images to show with the call; the model only sees the `output`. */
+  images?: InlineData[];
+}
+
+export interface ChatFunctionTool extends FunctionDeclaration {
+  /** Shown on the call's card in the transcript. */
+  label: string;
+  /** Gets the arguments as the model sent them; read them with the checks below. */
+  run: (args: Record<string, unknown>, context: ChatToolContext) => Promise<ChatToolOutput>;
+}
+
+const readString = (args: Record<string, unknown>, key: string): string => {
+  const value = args[key];
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`The "${key}" argument must be a non-empty string.`);
+  return value.trim();
+};
+
+// Optional arguments fall back to a default rather than failing the call.
+const readOptionalString = (args: Record<string, unknown>, key: string): string | undefined => {
+  const value = args[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const functions: Record<string, (value: number) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  ln: Math.log, log: Math.log10, exp: Math.exp,
+};
+
+const constants: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluates an arithmetic expression without `eval`: numbers, + - * / % ^ (right-associative),
+ * parentheses, unary minus, the constants pi and e, and the one-argument functions above.
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z]+|\*\*|[-+*/%^()]|\S/gi) ?? [];
+  let position = 0;
+  const peek = () => tokens[position];
+  const take = () => tokens[position++];
+  const expect = (token: string) => {
+    if (take() !== token) throw new Error(`Expected "${token}" in the expression.`);
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') value = take() === '+' ? value + parseProduct() : value - parseProduct();
+    return value;
+  };
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = take();
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  const parseUnary = (): number => {
+    if (peek() === '-') { take(); return -parseUnary(); }
+    if (peek() === '+') { take(); return parseUnary(); }
+    return parsePower();
+  };
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (peek() === '^' || peek() === '**') { take(); return base ** parseUnary(); }
+    return base;
+  };
+  const parseAtom = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error('The expression ended unexpectedly.');
+    if (token === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (/^\d*\.?\d+/.test(token)) return Number(token);
+    const name = token.toLowerCase();
+    if (name in constants) return constants[name];
+    if (name in functions) {
+      expect('(');
+      const value = parseSum();
+      expect(')');
+      return functions[name](value);
+    }
+    throw new Error(`Unknown symbol "${token}" in the expression.`);
+  };
+
+  const result = parseSum();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in the expression.`);
+  if (!Number.isFinite(result)) throw new Error('The result is not a finite number.');
+  return result;
+};
+
+const calculator: ChatFunctionTool = {
+  name: 'calculator',
+  label: 'Calculator',
+  description: 'Evaluates an arithmetic expression exactly. Use it for any calculation instead of working it out yourself.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: {
+        type: 'string',
+        description: 'For example "(12.5 * 4) / 3 + sqrt(2)". Supports + - * / % ^, parentheses, pi, e, sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log and exp.',
+      },
+    },
+    required: ['expression'],
+  },
+  run: async (args) => {
+    const expression = readString(args, 'expression');
+    // Rounding away floating-point noise, e.g. 0.1 + 0.2.
+    return { output: { expression, result: Number(evaluateExpression(expression).toPrecision(15)) } };
+  },
+};
+
+const currentDateTime: ChatFunctionTool = {
+  name: 'get_current_datetime',
+  label: 'Current date and time',
+  description: "Returns the current date and time, in the user's time zone unless another is given.",
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'An IANA time zone such as "Europe/Paris". Optional.' },
+    },
+  },
+  run: async (args) => {
+    const now = new Date();
+    const timeZone = readOptionalString(args, 'timeZone') ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+    let formatted: string;
+    try {
+      formatted = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' });
+    } catch {
+      throw new Error(`"${timeZone}" is not a known time zone.`);
+    }
+    return { output: { iso: now.toISOString(), timeZone, formatted } };
+  },
+};
+
+const aspectRatios: AspectRatio[] = ['1:1', '16:9', '9:16'];
+
+const isAspectRatio = (value: unknown): value is AspectRatio =>
+  aspectRatios.some(aspectRatio => aspectRatio === value);
+
+const toInlineData = (dataUrl: string): InlineData => ({ mimeType: getMimeType(dataUrl), data: dataUrl.split(',')[1] });
+
+const generateImage: ChatFunctionTool = {
+  name: 'generate_image',
+  label: 'Generate image',
+  description: 'Creates a new image from a text description and shows it to the user.',
+  parameters: {
+    type: 'object',
+    properties: {
+      prompt: { type: 'string', description: 'A detailed description of the image.' },
+      aspectRatio: { type: 'string', enum: aspectRatios, description: 'Defaults to 1:1.' },
+    },
+    required: ['prompt'],
+  },
+  run: async (args, { provider }) => {
+    const prompt = readString(args, 'prompt');
+    const aspectRatio = isAspectRatio(args.aspectRatio) ? args.aspectRatio : '1:1';
+    const [image] = await provider.generateImage(prompt, { aspectRatio });
+    return { output: { status: 'The image was generated and is shown to the user.', prompt, aspectRatio }, images: [toInlineData(image.url)] };
+  },
+};
+
+const editImage: ChatFunctionTool = {
+  name: 'edit_image',
+  label: 'Edit image',
+  description: 'Edits the most recent image in the conversation (one the user attached, or one generated earlier) and shows the result.',
+  parameters: {
+    type: 'object',
+    properties: {
+      instruction: { type: 'string', description: 'What to change, e.g. "make the sky a sunset".' },
+    },
+    required: ['instruction'],
+  },
+  run: async (args, { provider, images }) => {
+    const instruction = readString(args, 'instruction');
+    const image = images[images.length - 1];
+    if (!image) throw new Error('There is no image in the conversation to edit. Ask the user to attach one.');
+    const result = await provider.editImage(instruction, [image]);
+    if (!result.imageUrl) throw new Error(result.text || 'The model did not return an edited image.');
+    return {
+      output: { status: 'The edited image is shown to the user.', instruction, ...(result.text ? { note: result.text } : {}) },
+      images: [toInlineData(result.imageUrl)],
+    };
+  },
+};
+
+/** Every function tool offered to the chat model, by name. */
+export const chatToolRegistry: Record<string, ChatFunctionTool> = Object.fromEntries(
+  [calculator, currentDateTime, generateImage, editImage].map(tool => [tool.name, tool]),
+);
+
+export const chatToolDeclarations: FunctionDeclaration[] = Object.values(chatToolRegistry)
+  .map(({ name, description, parameters }) => ({ name, description, parameters }));
+
+/** How many rounds of tool calls one reply may make before the app stops it. */
+export const MAX_TOOL_STEPS = 5;
+
+/** Runs one call, throwing an Error whose message is meant for both the user and the model. */
+export const runChatTool = async (call: FunctionCall, context: ChatToolContext): Promise<ChatToolOutput> => {
+  const tool = chatToolRegistry[call.name];
+  if (!tool) throw new Error(`There is no tool named "${call.name}".`);
+  return tool.run(call.args, context);
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { selectSections, splitIntoSections, toDocumentPart } from './documents';
+
+describe('splitIntoSections', () => {
+  it('keeps short text in one section', () => {
+    expect(splitIntoSections('Short text.', 100)).toEqual(['Short text.']);
+    expect(splitIntoSections('', 100)).toEqual([]);
+  });
+
+  it('breaks at a paragraph before a line or a space', () => {
+    const text = `${'a'.repeat(30)}\n\n${'b'.repeat(10)}\n${'c'.repeat(5)} ${'d'.repeat(60)}`;
+    const sections = splitIntoSections(text, 50);
+
+    expect(sections[0]).toBe(`${'a'.repeat(30)}\n\n`);
+    expect(sections.join('')).toBe(text);
+  });
+
+  it('falls back to a line break, then a space', () => {
+    expect(splitIntoSections(`${'a'.repeat(7)}\n${'b'.repeat(6)}`, 10)[0]).toBe(`${'a'.repeat(7)}\n`);
+    expect(splitIntoSections(`${'a'.repeat(7)} ${'b'.repeat(6)}`, 10)[0]).toBe(`${'a'.repeat(7)} `);
+  });
+
+  it('cuts mid-word rather than leave a tiny section', () => {
+    const text = `ab ${'c'.repeat(30)}`;
+    const sections = splitIntoSections(text, 10);
+
+    expect(sections[0]).toBe(text.slice(0, 10));
+    expect(sections.every(section => section.length <= 10)).toBe(true);
+    expect(sections.join('')).toBe(text);
+  });
+});
+
+describe('selectSections', () => {
+  const sections = ['Title\n', 'apples and pears, ripe ', 'bananas ', 'more apples, apples ', 'cherries '];
+
+  it('keeps every section when they all fit', () => {
+    expect(selectSections(sections, 'anything', 1000)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('keeps the first section and those matching the query most, in file order', () => {
+    const budget = sections[0].length + sections[1].length + sections[3].length;
+    expect(selectSections(sections, 'Apples?', budget)).toEqual([0, 1, 3]);
+  });
+
+  it('fills the budget with later sections when the best match does not fit', () => {
+    const budget = sections[0].length + sections[2].length + sections[4].length;
+    expect(selectSections(sections, 'apples', budget)).toEqual([0, 2, 4]);
+  });
+
+  it('ignores words shorter than three characters', () => {
+    // Counting "an" would favor "bananas" over "cherries".
+    const budget = sections[0].length + sections[4].length;
+    expect(selectSections(sections, 'an cherries', budget)).toEqual([0, 4]);
+  });
+});
+
+describe('toDocumentPart', () => {
+  it('sends a short text document whole, labeled with its name', () => {
+    const part = toDocumentPart({ name: 'notes "v2".txt', mimeType: 'text/plain', size: 5, kind: 'text', text: 'Hello' }, '', 1000);
+
+    expect(part.text).toBe('<document name="notes \'v2\'.txt">\nAttached file.\n\nHello\n</document>');
+    expect(part.document).toEqual({ name: 'notes "v2".txt', mimeType: 'text/plain', size: 5 });
+  });
+
+  it('marks an excerpt with the sections it includes and the gaps between them', () => {
+    const text = ['intro', 'alpha', 'beta', 'gamma alpha'].map(word => `${word.padEnd(3_999, '.')}\n`).join('');
+    const part = toDocumentPart({ name: 'long.txt', mimeType: 'text/plain', size: text.length, kind: 'text', text }, 'alpha', 12_000);
+
+    expect(part.document?.excerpt).toEqual({ included: 3, total: 4 });
+    expect(part.text).toContain('sections 1, 2, 4 of 4');
+    expect(part.text).toContain('\n[…]\ngamma');
+  });
+
+  it('sends a PDF as inline data', () => {
+    const part = toDocumentPart({ name: 'a.pdf', mimeType: 'application/pdf', size: 3, kind: 'pdf', data: 'QUJD' }, '', 1000);
+    expect(part.inlineData).toEqual({ data: 'QUJD', mimeType: 'application/pdf' });
+    expect(part.text).toBeUndefined();
+  });
+});
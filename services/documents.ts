@@ -0,0 +1,142 @@
+import type { MessagePart } from '../types';
+import { blobToDataUrl } from './assetStore';
+
+// Documents attached to a chat message. PDFs are sent as-is, since the model reads them
+// natively; text files are read into the message, and long ones are cut into sections so
+// only the parts most relevant to the question are sent when the whole file won't fit.
+
+export interface DocumentAttachment {
+  name: string;
+  mimeType: string;
+  size: number;
+  kind: 'pdf' | 'text';
+  /** The file's contents, for text documents. */
+  text?: string;
+  /** Base64 file data, for PDFs. */
+  data?: string;
+}
+
+const MAX_PDF_BYTES = 15 * 1024 * 1024;
+const MAX_TEXT_BYTES = 10 * 1024 * 1024;
+
+/** Roughly 100k tokens of document text per request, shared between its documents and any from earlier turns. */
+export const DOCUMENT_TEXT_BUDGET = 400_000;
+const SECTION_LENGTH = 4_000;
+
+const TEXT_EXTENSIONS = [
+  'txt', 'text', 'log', 'md', 'markdown', 'csv', 'tsv', 'json', 'xml', 'yaml', 'yml', 'toml', 'ini', 'html', 'htm', 'css', 'scss',
+  'js', 'jsx', 'mjs', 'ts', 'tsx', 'py', 'ipynb', 'rb', 'php', 'java', 'kt', 'swift', 'go', 'rs', 'c', 'h', 'cpp', 'hpp', 'cc', 'cs',
+  'sql', 'sh', 'bash', 'ps1', 'r', 'scala', 'lua', 'dart', 'vue', 'svelte', 'tex',
+];
+
+/** The `accept` list for file inputs that take documents. */
+export const DOCUMENT_ACCEPT = ['application/pdf', '.pdf', 'text/*', ...TEXT_EXTENSIONS.map(extension => `.${extension}`)].join(',');
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+const isPdf = (file: File) => file.type === 'application/pdf' || extensionOf(file.name) === 'pdf';
+
+export const isDocumentFile = (file: File): boolean =>
+  isPdf(file) || file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(extensionOf(file.name));
+
+const megabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+/** Reads a document for attaching, throwing an Error that explains why it can't be. */
+export const readDocument = async (file: File): Promise<DocumentAttachment> => {
+  const base = { name: file.name, size: file.size };
+  if (isPdf(file)) {
+    if (file.size > MAX_PDF_BYTES) throw new Error(`${file.name} is larger than ${megabytes(MAX_PDF_BYTES)}, the limit for PDFs.`);
+    const dataUrl = await blobToDataUrl(file);
+    return { ...base, mimeType: 'application/pdf', kind: 'pdf', data: dataUrl.split(',')[1] };
+  }
+  if (file.size > MAX_TEXT_BYTES) throw new Error(`${file.name} is larger than ${megabytes(MAX_TEXT_BYTES)}, the limit for text files.`);
+  const text = await file.text();
+  // A NUL character means this is a binary file that merely has a text extension.
+  if (text.includes('\0')) throw new Error(`${file.name} doesn't look like a text file.`);
+  if (!text.trim()) throw new Error(`${file.name} is empty.`);
+  return { ...base, mimeType: file.type || 'text/plain', kind: 'text', text };
+};
+
+/** Cuts text into sections of about `length` characters, breaking at paragraphs, lines or spaces where it can. */
+export const splitIntoSections = (text: string, length = SECTION_LENGTH): string[] => {
+  const sections: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + length, text.length);
+    if (end < text.length) {
+      for (const separator of ['\n\n', '\n', ' ']) {
+        const index = text.lastIndexOf(separator, end);
+        // Only break in the second half, so sections don't end up tiny.
+        if (index > start + length / 2) {
+          end = index + separator.length;
+          break;
+        }
+      }
+    }
+    sections.push(text.slice(start, end));
+    start = end;
+  }
+  return sections;
+};
+
+const queryTerms = (query: string) =>
+  [...new Set(query.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? [])];
+
+const countOccurrences = (text: string, term: string) => {
+  let count = 0;
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) count++;
+  return count;
+};
+
+/**
+ * Picks which sections to send when they don't all fit in `budget` characters: the first section
+ * (titles, table headers) and then those mentioning the query's words most, kept in file order.
+ */
+export const selectSections = (sections: string[], query: string, budget: number): number[] => {
+  const total = sections.reduce((sum, section) => sum + section.length, 0);
+  if (total <= budget) return sections.map((_, index) => index);
+
+  const terms = queryTerms(query);
+  const scores = sections.map(section => {
+    const lower = section.toLowerCase();
+    return terms.reduce((score, term) => score + countOccurrences(lower, term), 0);
+  });
+  const ranked = sections.map((_, index) => index).slice(1).sort((a, b) => scores[b] - scores[a] || a - b);
+
+  const selected = [0];
+  let used = sections[0].length;
+  for (const index of ranked) {
+    if (used + sections[index].length > budget) continue;
+    selected.push(index);
+    used += sections[index].length;
+  }
+  return selected.sort((a, b) => a - b);
+};
+
+/**
+ * The message part carrying a document. Text is labeled with the file name so the model can tell
+ * documents apart; `query` (the message text) steers which sections are kept when it is too long.
+ */
+export const toDocumentPart = (document: DocumentAttachment, query: string, budget: number): MessagePart => {
+  const info = { name: document.name, mimeType: document.mimeType, size: document.size };
+  if (document.kind === 'pdf') {
+    return { inlineData: { data: document.data!, mimeType: 'application/pdf' }, document: info };
+  }
+
+  const sections = splitIntoSections(document.text!);
+  const selected = selectSections(sections, query, budget);
+  const isExcerpt = selected.length < sections.length;
+  const body = selected
+    .map((index, position) => {
+      const gap = position > 0 && index !== selected[position - 1] + 1;
+      return `${gap ? '\n[…]\n' : ''}${sections[index]}`;
+    })
+    .join('');
+  const note = isExcerpt
+    ? ` The file is too long to include whole; these are sections ${selected.map(index => index + 1).join(', ')} of ${sections.length}, chosen for relevance, with […] marking gaps.`
+    : '';
+  return {
+    text: `<document name="${document.name.replace(/"/g, "'")}">\nAttached file.${note}\n\n${body}\n</document>`,
+    document: isExcerpt ? { ...info, excerpt: { included: selected.length, total: sections.length } } : info,
+  };
+};
@@ -0,0 +1,64 @@
+import type { GroundingMetadata } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { insertCitationMarkers } from './grounding';
+import { toGrounding } from './geminiService';
+
+const reply = 'The Eiffel Tower is 330 metres tall. It was completed in 1889 for the World\'s Fair. It is repainted every seven years.';
+
+// Grounding metadata as the API returned it for the reply above, with a retrieved-context chunk
+// mixed in among the web results.
+const recordedMetadata: GroundingMetadata = {
+  webSearchQueries: ['eiffel tower height', 'eiffel tower repainting schedule'],
+  searchEntryPoint: { renderedContent: '<div class="container">…</div>' },
+  groundingChunks: [
+    { web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQE1', title: 'wikipedia.org' } },
+    { retrievedContext: { uri: 'gs://travel-notes/paris.txt', title: 'paris.txt' } },
+    { web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQE2', title: '' } },
+  ],
+  groundingSupports: [
+    {
+      segment: { startIndex: 0, endIndex: 36, text: 'The Eiffel Tower is 330 metres tall.' },
+      groundingChunkIndices: [0, 2],
+      confidenceScores: [0.93, 0.81],
+    },
+    {
+      segment: { startIndex: 37, endIndex: 83, text: 'It was completed in 1889 for the World\'s Fair.' },
+      groundingChunkIndices: [1],
+      confidenceScores: [0.88],
+    },
+    {
+      segment: { startIndex: 84, endIndex: 118, text: 'It is repainted every seven years.' },
+      groundingChunkIndices: [1, 2],
+      confidenceScores: [0.7, 0.9],
+    },
+  ],
+};
+
+describe('toGrounding', () => {
+  it('keeps the web sources and re-points the supports at them', () => {
+    expect(toGrounding(recordedMetadata)).toEqual({
+      sources: [
+        { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQE1', title: 'wikipedia.org' },
+        { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQE2', title: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQE2' },
+      ],
+      citations: [
+        { text: 'The Eiffel Tower is 330 metres tall.', sourceIndices: [0, 1] },
+        { text: 'It is repainted every seven years.', sourceIndices: [1] },
+      ],
+      queries: ['eiffel tower height', 'eiffel tower repainting schedule'],
+    });
+  });
+
+  it('accepts metadata with nothing in it', () => {
+    expect(toGrounding({})).toEqual({ sources: [], citations: [], queries: [] });
+  });
+
+  it('lets the citations be placed in the reply', () => {
+    const first = '[[1]](<https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQE1> "wikipedia.org")';
+    const second = '[[2]](<https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQE2> "https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQE2")';
+
+    expect(insertCitationMarkers(reply, toGrounding(recordedMetadata))).toBe(
+      `The Eiffel Tower is 330 metres tall.${first}${second} It was completed in 1889 for the World's Fair. It is repainted every seven years.${second}`,
+    );
+  });
+});
@@ -1,34 +1,111 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
+import { GenerateVideosOperation, GoogleGenAI, GroundingMetadata, Modality, PersonGeneration } from "@google/genai";
+import type { AIProvider, ChatOptions, ChatSession, EditedImageResponse, GeneratedImage, ImageEditOptions, ImageGenerationOptions, InlineData, PromptEnhanceOptions, ProviderModels, SourceImage, SendMessageOptions, VideoGenerationOptions, VideoOperationStatus } from './aiProvider';
+import type { MessageGrounding, MessagePart } from '../types';
+import { emptyGrounding, mergeGrounding } from './grounding';
 
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
+const models: ProviderModels = {
+    chat: 'gemini-2.5-flash',
+    image: 'imagen-4.0-generate-001',
+    imageEdit: 'gemini-2.5-flash-image-preview',
+    video: 'veo-2.0-generate-001',
+    transcription: 'gemini-2.5-flash',
+    text: 'gemini-2.5-flash',
+};
+
+let client: GoogleGenAI | null = null;
 
-export const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The client is created on first use so a missing key only breaks Gemini calls, not the whole app.
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new Error("API_KEY environment variable not set");
+  }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const toolConfigs = {
+  googleSearch: { googleSearch: {} },
+  codeExecution: { codeExecution: {} },
+};
+
+// Only web results can be cited, so other chunk kinds (e.g., retrieved context) are left out and
+// each support's chunk indexes are re-pointed at the web sources; supports left with none are dropped.
+export const toGrounding = (metadata: GroundingMetadata): MessageGrounding => {
+  const chunks = metadata.groundingChunks ?? [];
+  const webIndexes = chunks.flatMap((chunk, index) => (chunk.web?.uri ? [index] : []));
+  return {
+    sources: webIndexes.map(index => ({ uri: chunks[index].web!.uri!, title: chunks[index].web!.title || chunks[index].web!.uri! })),
+    citations: (metadata.groundingSupports ?? []).flatMap(support => {
+      const sourceIndices = (support.groundingChunkIndices ?? []).map(index => webIndexes.indexOf(index)).filter(index => index !== -1);
+      return support.segment?.text && sourceIndices.length > 0 ? [{ text: support.segment.text, sourceIndices }] : [];
+    }),
+    queries: metadata.webSearchQueries ?? [],
+  };
+};
 
-type AspectRatio = '1:1' | '16:9' | '9:16';
+// `document` only labels a part for display and `assetId` says where its file is kept; the API
+// gets the text or file data it carries.
+const toApiParts = (parts: MessagePart[]) => parts.map(({ document: _document, assetId: _assetId, ...part }) => part);
 
-export interface EditedImageResponse {
-    imageUrl: string | null;
-    text: string | null;
-}
+// The API doesn't accept function declarations alongside built-in tools, so a chat with
+// search or code execution turned on goes without the app's function tools. The persona editor
+// and the chat's search toggle tell the user so.
+const createChat = ({ model, systemInstruction, history, generation = {}, tools = [], functions = [] }: ChatOptions): ChatSession => {
+  const { thinkingBudget, ...sampling } = generation;
+  const chatTools = tools.length > 0
+    ? tools.map(tool => toolConfigs[tool])
+    : functions.length > 0
+      ? [{ functionDeclarations: functions.map(({ name, description, parameters }) => ({ name, description, parametersJsonSchema: parameters })) }]
+      : undefined;
+  const chat = getClient().chats.create({
+    model,
+    config: {
+      systemInstruction,
+      ...sampling,
+      thinkingConfig: thinkingBudget !== undefined ? { thinkingBudget } : undefined,
+      tools: chatTools,
+    },
+    history: history.map(message => ({ role: message.role, parts: toApiParts(message.parts) })),
+  });
 
-export const generateImage = async (prompt: string, aspectRatio: AspectRatio): Promise<string> => {
+  return {
+    sendMessageStream: async (parts: MessagePart[], options?: SendMessageOptions) => {
+      const stream = await chat.sendMessageStream({ message: toApiParts(parts), config: { abortSignal: options?.signal } });
+      return (async function* () {
+        let grounding: MessageGrounding | undefined;
+        for await (const chunk of stream) {
+          const metadata = chunk.candidates?.[0]?.groundingMetadata;
+          if (metadata) grounding = mergeGrounding(grounding ?? emptyGrounding(), toGrounding(metadata));
+          const functionCalls = chunk.functionCalls?.map(call => ({ id: call.id, name: call.name ?? '', args: call.args ?? {} }));
+          yield { text: chunk.text ?? '', grounding, functionCalls };
+        }
+      })();
+    },
+  };
+};
+
+// The Gemini API rejects `negativePrompt` and `seed` for Imagen, so the negative prompt is
+// folded into the prompt text and seeds are not supported (see `supportsImageSeed`).
+const generateImage = async (prompt: string, options: ImageGenerationOptions): Promise<GeneratedImage[]> => {
+  const { aspectRatio, numberOfImages = 1, negativePrompt, personGeneration, outputFormat = 'image/jpeg' } = options;
   try {
-    const response = await ai.models.generateImages({
-      model: 'imagen-4.0-generate-001',
-      prompt: prompt,
+    const response = await getClient().models.generateImages({
+      model: models.image,
+      prompt: negativePrompt?.trim() ? `${prompt}\n\nAvoid: ${negativePrompt.trim()}` : prompt,
       config: {
-        numberOfImages: 1,
-        outputMimeType: 'image/jpeg',
+        numberOfImages,
+        outputMimeType: outputFormat,
         aspectRatio: aspectRatio,
+        personGeneration: personGeneration as PersonGeneration | undefined,
       },
     });
 
-    if (response.generatedImages && response.generatedImages.length > 0) {
-      const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-      return `data:image/jpeg;base64,${base64ImageBytes}`;
+    const images = (response.generatedImages ?? []).filter(generated => generated.image?.imageBytes);
+    if (images.length > 0) {
+      return images.map(generated => ({ url: `data:${outputFormat};base64,${generated.image!.imageBytes}` }));
     } else {
       throw new Error("No image was generated.");
     }
@@ -38,19 +115,35 @@ export const generateImage = async (prompt: string, aspectRatio: AspectRatio): P
   }
 };
 
-export const editImage = async (prompt: string, image: { data: string; mimeType: string }): Promise<EditedImageResponse> => {
+// Numbers images the way prompts refer to them, e.g. "Image 2 (logo)".
+const imageName = (images: SourceImage[], index: number) =>
+    `Image ${index + 1}${images[index].label ? ` (${images[index].label})` : ''}`;
+
+// The image model has no mask parameter, so the mask is sent as an extra image with instructions.
+const maskInstruction = (target: string) =>
+    `The last image is a mask for ${target}. Only change the area of ${target} that is white in the mask and leave everything in the black area exactly as it is.`;
+
+const editImage = async (prompt: string, images: SourceImage[], options: ImageEditOptions = {}): Promise<EditedImageResponse> => {
+    const targetIndex = options.targetIndex ?? 0;
+    const isComposition = images.length > 1;
+    // A single image keeps the plain request; several are introduced by name so the prompt can refer to them.
+    const target = isComposition ? imageName(images, targetIndex) : 'the image';
+    const instructions = [
+        prompt,
+        isComposition ? `Edit ${target} and return it; use the other images as references.` : '',
+        options.mask ? maskInstruction(target) : '',
+    ].filter(Boolean).join('\n\n');
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image-preview',
+        const response = await getClient().models.generateContent({
+            model: models.imageEdit,
             contents: {
                 parts: [
-                    {
-                        inlineData: {
-                            data: image.data,
-                            mimeType: image.mimeType,
-                        },
-                    },
-                    { text: prompt },
+                    ...images.flatMap((image, index) => [
+                        ...(isComposition ? [{ text: `${imageName(images, index)}:` }] : []),
+                        { inlineData: { data: image.data, mimeType: image.mimeType } },
+                    ]),
+                    ...(options.mask ? [{ inlineData: options.mask }] : []),
+                    { text: instructions },
                 ],
             },
             config: {
@@ -90,38 +183,100 @@ export const editImage = async (prompt: string, image: { data: string; mimeType:
     }
 };
 
-export const generateVideo = async (prompt: string, onProgress: () => void): Promise<string> => {
+// Veo runs as a long-running operation. Only its name is kept between polls, so a job can be
+// resumed after a reload by rebuilding the operation from the stored name.
+const startVideoGeneration = async (prompt: string, options: VideoGenerationOptions): Promise<string> => {
     try {
-        let operation = await ai.models.generateVideos({
-            model: 'veo-2.0-generate-001',
+        const operation = await getClient().models.generateVideos({
+            model: models.video,
             prompt: prompt,
+            image: options.image ? { imageBytes: options.image.data, mimeType: options.image.mimeType } : undefined,
             config: {
-                numberOfVideos: 1
+                numberOfVideos: options.numberOfVideos ?? 1,
+                aspectRatio: options.aspectRatio,
+                durationSeconds: options.durationSeconds,
+                negativePrompt: options.negativePrompt,
             }
         });
-
-        while (!operation.done) {
-            onProgress();
-            await new Promise(resolve => setTimeout(resolve, 10000));
-            operation = await ai.operations.getVideosOperation({ operation: operation });
+        if (!operation.name) {
+            throw new Error("The video service did not return an operation to track.");
         }
+        return operation.name;
+    } catch (error) {
+        console.error("Error starting video generation:", error);
+        throw new Error("Failed to communicate with the video generation service.");
+    }
+};
 
-        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-        if (!downloadLink) {
-            throw new Error("Video generation completed but no download link was found.");
-        }
-        
-        // The response.body contains the MP4 bytes. You must append an API key when fetching from the download link.
+const getVideoGenerationStatus = async (operationName: string): Promise<VideoOperationStatus> => {
+    const pending = new GenerateVideosOperation();
+    pending.name = operationName;
+    const operation = await getClient().operations.getVideosOperation({ operation: pending });
+    if (!operation.done) {
+        return { done: false };
+    }
+    if (operation.error) {
+        return { done: true, error: String(operation.error.message ?? "Video generation failed.") };
+    }
+
+    const downloadLinks = (operation.response?.generatedVideos ?? [])
+        .map(generated => generated.video?.uri)
+        .filter((uri): uri is string => !!uri);
+    if (downloadLinks.length === 0) {
+        return { done: true, error: "Video generation completed but no download link was found." };
+    }
+
+    // The response.body contains the MP4 bytes. You must append an API key when fetching from the download link.
+    const videos = await Promise.all(downloadLinks.map(async (downloadLink) => {
         const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
         if (!response.ok) {
             throw new Error(`Failed to fetch video file: ${response.statusText}`);
         }
-        
-        const videoBlob = await response.blob();
-        return URL.createObjectURL(videoBlob);
+        return response.blob();
+    }));
+    return { done: true, videos };
+};
 
-    } catch (error) {
-        console.error("Error generating video:", error);
-        throw new Error("Failed to communicate with the video generation service.");
+const transcribeAudio = async (audio: InlineData): Promise<string> => {
+    const response = await getClient().models.generateContent({
+        model: models.transcription,
+        contents: { parts: [{ text: "Transcribe the following audio file precisely:" }, { inlineData: audio }] },
+    });
+    return response.text ?? '';
+};
+
+const enhancePrompt = async (prompt: string, { target, style }: PromptEnhanceOptions): Promise<string> => {
+    const instructions = [
+        `You rewrite prompts for an AI ${target} generator.`,
+        "Expand the user's prompt into one detailed paragraph covering subject, setting, composition, lighting and mood.",
+        target === 'video' ? 'Also describe camera movement and how the subject moves.' : '',
+        style ? `Render it in this style: ${style}.` : '',
+        "Keep everything the user asked for and do not add text overlays. Reply with the rewritten prompt only, without quotes or commentary.",
+    ].filter(Boolean).join(' ');
+    const response = await getClient().models.generateContent({
+        model: models.text,
+        contents: prompt,
+        config: { systemInstruction: instructions },
+    });
+    const text = response.text?.trim();
+    if (!text) {
+        throw new Error("The model did not return a rewritten prompt.");
     }
+    return text;
+};
+
+export const geminiProvider: AIProvider = {
+    id: 'gemini',
+    name: 'Gemini',
+    models,
+    chatModels: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+    supportsImageSeed: false,
+    createChat,
+    generateImage,
+    editImage,
+    videoPollIntervalMs: 10000,
+    startVideoGeneration,
+    getVideoGenerationStatus,
+    transcribeAudio,
+    enhancePrompt,
 };
@@ -0,0 +1,46 @@
+import type { AspectRatio, ImageOutputFormat } from './aiProvider';
+import { getPromptStyle } from './promptEnhancer';
+
+/**
+ * A named bundle of generation settings. Settings a preset leaves out keep whatever the user
+ * picked; ones a tool can't use (e.g., the output format for video) are ignored there.
+ */
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  /** Appended to the prompt, e.g., "35mm film, soft grain". */
+  styleModifiers: string;
+  aspectRatio?: AspectRatio;
+  /** Images per generation; video tools clamp it to what they support. */
+  count?: number;
+  negativePrompt?: string;
+  outputFormat?: ImageOutputFormat;
+  builtIn?: boolean;
+}
+
+/** What a result records about the preset it was generated with, so it can be reproduced after the preset changes. */
+export interface PresetSnapshot {
+  id: string;
+  name: string;
+  styleModifiers: string;
+}
+
+const styleOf = (id: string) => getPromptStyle(id)?.description ?? '';
+
+export const BUILT_IN_PRESETS: GenerationPreset[] = [
+  { id: 'builtin-cinematic', name: 'Cinematic', styleModifiers: styleOf('cinematic'), aspectRatio: '16:9', negativePrompt: 'cartoon, flat lighting, text', builtIn: true },
+  { id: 'builtin-product', name: 'Product Shot', styleModifiers: styleOf('product'), aspectRatio: '1:1', count: 4, negativePrompt: 'clutter, people, watermark', outputFormat: 'image/png', builtIn: true },
+  { id: 'builtin-anime', name: 'Anime', styleModifiers: styleOf('anime'), negativePrompt: 'photorealistic, 3d render', builtIn: true },
+  { id: 'builtin-portrait', name: 'Portrait', styleModifiers: `${styleOf('photoreal')}, 85mm portrait lens, bokeh background`, aspectRatio: '9:16', negativePrompt: 'distorted hands, extra limbs', builtIn: true },
+  { id: 'builtin-watercolor', name: 'Watercolor', styleModifiers: styleOf('watercolor'), count: 2, builtIn: true },
+];
+
+export const createPresetId = () => `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const toPresetSnapshot = ({ id, name, styleModifiers }: GenerationPreset): PresetSnapshot => ({ id, name, styleModifiers });
+
+/** The prompt actually sent to the model: the user's prompt followed by the preset's style modifiers. */
+export const applyStyleModifiers = (prompt: string, styleModifiers: string | undefined): string => {
+  const modifiers = styleModifiers?.trim();
+  return modifiers ? `${prompt.trim().replace(/[.,\s]+$/, '')}, ${modifiers}` : prompt;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { MessageGrounding } from '../types';
+import { emptyGrounding, insertCitationMarkers, mergeGrounding } from './grounding';
+
+const sourceA = { uri: 'https://a.example/page', title: 'Page A' };
+const sourceB = { uri: 'https://b.example/', title: 'Site "B"' };
+
+const grounding = (overrides: Partial<MessageGrounding>): MessageGrounding => ({ ...emptyGrounding(), ...overrides });
+
+describe('mergeGrounding', () => {
+  it('adds new sources and re-points citations at the merged list', () => {
+    const current = grounding({ sources: [sourceA], citations: [{ text: 'First.', sourceIndices: [0] }] });
+    const next = grounding({ sources: [sourceB, sourceA], citations: [{ text: 'Second.', sourceIndices: [0, 1] }] });
+
+    const merged = mergeGrounding(current, next);
+
+    expect(merged.sources).toEqual([sourceA, sourceB]);
+    expect(merged.citations).toEqual([
+      { text: 'First.', sourceIndices: [0] },
+      { text: 'Second.', sourceIndices: [1, 0] },
+    ]);
+  });
+
+  it('ignores citations and queries that repeat', () => {
+    const current = grounding({ sources: [sourceA], citations: [{ text: 'Same.', sourceIndices: [0] }], queries: ['weather'] });
+    const merged = mergeGrounding(current, current);
+
+    expect(merged).toEqual(current);
+  });
+
+  it('drops citations that only point at unknown sources', () => {
+    const next = grounding({ sources: [sourceA], citations: [{ text: 'Lost.', sourceIndices: [3] }, { text: 'Kept.', sourceIndices: [0, 3] }] });
+
+    expect(mergeGrounding(emptyGrounding(), next).citations).toEqual([{ text: 'Kept.', sourceIndices: [0] }]);
+  });
+
+  it('keeps queries in the order they were first seen', () => {
+    const merged = mergeGrounding(grounding({ queries: ['a', 'b'] }), grounding({ queries: ['b', 'c'] }));
+    expect(merged.queries).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('insertCitationMarkers', () => {
+  it('adds numbered links after each cited stretch', () => {
+    const text = 'Paris is the capital. It is large.';
+    const result = insertCitationMarkers(text, grounding({
+      sources: [sourceA, sourceB],
+      citations: [{ text: 'Paris is the capital.', sourceIndices: [1, 0] }, { text: 'It is large.', sourceIndices: [1] }],
+    }));
+
+    expect(result).toBe(
+      'Paris is the capital.[[1]](<https://a.example/page> "Page A")[[2]](<https://b.example/> "Site \'B\'")'
+      + ' It is large.[[2]](<https://b.example/> "Site \'B\'")',
+    );
+  });
+
+  it('places a repeated phrase at its next occurrence', () => {
+    const text = 'Yes. Then yes. Yes.';
+    const result = insertCitationMarkers(text, grounding({
+      sources: [sourceA],
+      citations: [{ text: 'Then yes.', sourceIndices: [0] }, { text: 'Yes.', sourceIndices: [0] }],
+    }));
+
+    expect(result).toBe('Yes. Then yes.[[1]](<https://a.example/page> "Page A") Yes.[[1]](<https://a.example/page> "Page A")');
+  });
+
+  it('merges citations that end at the same place', () => {
+    const result = insertCitationMarkers('One fact.', grounding({
+      sources: [sourceA, sourceB],
+      citations: [{ text: 'One fact.', sourceIndices: [1] }, { text: 'fact.', sourceIndices: [0, 1] }],
+    }));
+
+    expect(result).toBe('One fact.[[1]](<https://a.example/page> "Page A")[[2]](<https://b.example/> "Site \'B\'")');
+  });
+
+  it('leaves out citations whose text is not in the reply', () => {
+    const text = 'Nothing cited here.';
+    const result = insertCitationMarkers(text, grounding({
+      sources: [sourceA],
+      citations: [{ text: 'Something else.', sourceIndices: [0] }, { text: '  ', sourceIndices: [0] }],
+    }));
+
+    expect(result).toBe(text);
+  });
+
+  it('skips source indices with no source', () => {
+    const result = insertCitationMarkers('Cited.', grounding({ sources: [sourceA], citations: [{ text: 'Cited.', sourceIndices: [5] }] }));
+    expect(result).toBe('Cited.');
+  });
+});
@@ -0,0 +1,62 @@
+import type { GroundingCitation, MessageGrounding } from '../types';
+
+export const emptyGrounding = (): MessageGrounding => ({ sources: [], citations: [], queries: [] });
+
+/**
+ * Folds `next` into `current`. Sources are matched by URL and the citations re-pointed at the
+ * merged list, so metadata spread over several stream chunks (or repeated in the last one) adds up.
+ */
+export const mergeGrounding = (current: MessageGrounding, next: MessageGrounding): MessageGrounding => {
+  const sources = [...current.sources];
+  const indexMap = next.sources.map(source => {
+    const existing = sources.findIndex(s => s.uri === source.uri);
+    if (existing !== -1) return existing;
+    sources.push(source);
+    return sources.length - 1;
+  });
+  const citations = [...current.citations];
+  for (const citation of next.citations) {
+    const sourceIndices = citation.sourceIndices.map(index => indexMap[index]).filter(index => index !== undefined);
+    const duplicate = citations.some(c => c.text === citation.text && c.sourceIndices.join() === sourceIndices.join());
+    if (sourceIndices.length > 0 && !duplicate) citations.push({ text: citation.text, sourceIndices });
+  }
+  const queries = [...current.queries, ...next.queries.filter(query => !current.queries.includes(query))];
+  return { sources, citations, queries };
+};
+
+const citationLink = (grounding: MessageGrounding, index: number) => {
+  const source = grounding.sources[index];
+  // Angle brackets let the URL hold characters Markdown would otherwise end the link at.
+  return `[[${index + 1}]](<${source.uri}> "${source.title.replace(/"/g, "'")}")`;
+};
+
+/**
+ * Adds numbered Markdown links after each cited stretch of `text`, pointing at its sources.
+ * Citations are found by their text rather than by offset, since offsets from the API count
+ * bytes rather than characters; a citation whose text isn't in the reply is left out.
+ */
+export const insertCitationMarkers = (text: string, grounding: MessageGrounding): string => {
+  const markers = new Map<number, Set<number>>();
+  let searchFrom = 0;
+  const place = (citation: GroundingCitation) => {
+    // Citations usually arrive in reply order; searching on from the last one keeps repeated phrases apart.
+    let start = text.indexOf(citation.text, searchFrom);
+    if (start === -1) start = text.indexOf(citation.text);
+    if (start === -1 || !citation.text.trim()) return;
+    const end = start + citation.text.length;
+    searchFrom = end;
+    const indices = markers.get(end) ?? new Set<number>();
+    citation.sourceIndices.filter(index => grounding.sources[index]).forEach(index => indices.add(index));
+    markers.set(end, indices);
+  };
+  grounding.citations.forEach(place);
+
+  let result = text;
+  // Inserting from the end keeps the earlier positions valid.
+  [...markers.entries()].sort(([a], [b]) => b - a).forEach(([position, indices]) => {
+    if (indices.size === 0) return;
+    const links = [...indices].sort((a, b) => a - b).map(index => citationLink(grounding, index)).join('');
+    result = `${result.slice(0, position)}${links}${result.slice(position)}`;
+  });
+  return result;
+};
@@ -0,0 +1,330 @@
+// Canvas-based image helpers that run entirely in the browser.
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not load the image."));
+    image.src = src;
+  });
+};
+
+export const getMimeType = (dataUrl: string): string => dataUrl.match(/^data:(.*?)[;,]/)?.[1] || 'image/png';
+
+/**
+ * Resamples an image to `factor` times its size with high-quality smoothing. This is a local
+ * resize rather than an AI upscale, so it adds no detail. Vector images are rasterized to PNG.
+ */
+export const upscaleImage = async (dataUrl: string, factor = 2): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth * factor;
+  canvas.height = image.naturalHeight * factor;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Your browser does not support canvas image processing.");
+  }
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const mimeType = getMimeType(dataUrl);
+  return canvas.toDataURL(mimeType === 'image/jpeg' || mimeType === 'image/webp' ? mimeType : 'image/png', 0.92);
+};
+
+/** Draws an early frame of a video onto a canvas, e.g. to use as its thumbnail. */
+export const captureVideoFrame = (src: string): Promise<HTMLCanvasElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    // Some recordings never report a seekable frame; give up rather than block the caller.
+    const timeout = setTimeout(() => reject(new Error("Timed out reading a video frame.")), 10000);
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => {
+      // Seeking slightly past the start avoids the black first frame many encoders produce.
+      video.currentTime = Math.min(0.5, (video.duration || 0) / 2);
+    };
+    video.onseeked = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth || 1;
+      canvas.height = video.videoHeight || 1;
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      clearTimeout(timeout);
+      resolve(canvas);
+    };
+    video.onerror = () => {
+      clearTimeout(timeout);
+      reject(new Error("Could not load the video."));
+    };
+    video.src = src;
+  });
+};
+
+/**
+ * Lays `editedUrl` over `originalUrl` only where `maskUrl` is white, so everything outside the
+ * mask stays pixel-identical to the original. The edit is stretched to the original's size, and
+ * the mask edge is feathered by `featherPx` to hide the seam.
+ */
+export const compositeWithMask = async (originalUrl: string, editedUrl: string, maskUrl: string, featherPx = 2): Promise<string> => {
+  const [original, edited, mask] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(maskUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+  const createCanvas = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      throw new Error("Your browser does not support canvas image processing.");
+    }
+    return { canvas, context };
+  };
+
+  // Convert the black-and-white mask into transparency: white stays opaque, black disappears.
+  const alpha = createCanvas();
+  alpha.context.filter = `blur(${featherPx}px)`;
+  alpha.context.drawImage(mask, 0, 0, width, height);
+  const pixels = alpha.context.getImageData(0, 0, width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i];
+  }
+  alpha.context.putImageData(pixels, 0, 0);
+
+  const cutout = createCanvas();
+  cutout.context.drawImage(edited, 0, 0, width, height);
+  cutout.context.globalCompositeOperation = 'destination-in';
+  cutout.context.drawImage(alpha.canvas, 0, 0);
+
+  const result = createCanvas();
+  result.context.drawImage(original, 0, 0, width, height);
+  result.context.drawImage(cutout.canvas, 0, 0);
+  return result.canvas.toDataURL('image/png');
+};
+
+export interface ImageDiff {
+  /** PNG data URL: a dimmed copy of the first image with changed pixels painted from yellow (slight) to red (strong). */
+  heatmapUrl: string;
+  /** Share of pixels, from 0 to 1, whose largest channel difference exceeds `threshold`. */
+  changedRatio: number;
+}
+
+/**
+ * Compares two images pixel by pixel at the size of `beforeUrl`, stretching `afterUrl` to match.
+ * Differences at or below `threshold` (0–255) are treated as compression noise.
+ */
+export const diffImages = async (beforeUrl: string, afterUrl: string, threshold = 16): Promise<ImageDiff> => {
+  const [before, after] = await Promise.all([loadImage(beforeUrl), loadImage(afterUrl)]);
+  const width = before.naturalWidth;
+  const height = before.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error("Your browser does not support canvas image processing.");
+  }
+  context.drawImage(after, 0, 0, width, height);
+  const afterPixels = context.getImageData(0, 0, width, height).data;
+  context.clearRect(0, 0, width, height);
+  context.drawImage(before, 0, 0, width, height);
+  const heatmap = context.getImageData(0, 0, width, height);
+  const pixels = heatmap.data;
+
+  let changed = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const difference = Math.max(
+      Math.abs(pixels[i] - afterPixels[i]),
+      Math.abs(pixels[i + 1] - afterPixels[i + 1]),
+      Math.abs(pixels[i + 2] - afterPixels[i + 2]),
+    );
+    if (difference > threshold) {
+      changed++;
+      const strength = Math.min(1, difference / 128);
+      pixels[i] = 255;
+      pixels[i + 1] = Math.round(220 * (1 - strength));
+      pixels[i + 2] = 0;
+    } else {
+      const gray = (pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114) * 0.35;
+      pixels[i] = pixels[i + 1] = pixels[i + 2] = gray;
+    }
+    pixels[i + 3] = 255;
+  }
+  context.putImageData(heatmap, 0, 0);
+  return { heatmapUrl: canvas.toDataURL('image/png'), changedRatio: changed / (width * height) };
+};
+
+/** File extension for a MIME type, e.g. `jpg` for `image/jpeg`. */
+export const extensionForMimeType = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1] ?? 'bin';
+  if (subtype === 'svg+xml') return 'svg';
+  if (subtype === 'jpeg') return 'jpg';
+  return subtype;
+};
+
+export type OutputFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface Watermark {
+  text?: string;
+  /** Data URL of a logo drawn to the left of the text. */
+  logoUrl?: string;
+  position: WatermarkPosition;
+  /** From 0 to 1. */
+  opacity: number;
+  /** Height of the watermark as a share of the output's shorter side. */
+  size: number;
+}
+
+export interface PostProcessOptions {
+  /** Width divided by height to center-crop to; omit to keep the whole image. */
+  cropAspectRatio?: number;
+  /** Output size in pixels after cropping; defaults to the cropped size. */
+  width?: number;
+  height?: number;
+  format: OutputFormat;
+  /** From 0 to 1; only used by JPEG and WebP. */
+  quality?: number;
+  watermark?: Watermark;
+  /** Text fields to embed in the file. Supported for PNG and JPEG; WebP files are left as they are. */
+  metadata?: Record<string, string>;
+}
+
+/** The centered region of a `width` × `height` image that has the given aspect ratio. */
+export const getCropRect = (width: number, height: number, aspectRatio?: number) => {
+  if (!aspectRatio) return { x: 0, y: 0, width, height };
+  const cropWidth = Math.min(width, Math.round(height * aspectRatio));
+  const cropHeight = Math.min(height, Math.round(width / aspectRatio));
+  return { x: Math.round((width - cropWidth) / 2), y: Math.round((height - cropHeight) / 2), width: cropWidth, height: cropHeight };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the image."))), type, quality);
+  });
+};
+
+const drawWatermark = async (context: CanvasRenderingContext2D, watermark: Watermark) => {
+  const { width, height } = context.canvas;
+  const size = Math.max(8, Math.round(Math.min(width, height) * watermark.size));
+  const padding = Math.round(size / 2);
+  const logo = watermark.logoUrl ? await loadImage(watermark.logoUrl) : null;
+  const logoWidth = logo ? Math.round((logo.naturalWidth / logo.naturalHeight) * size) : 0;
+  context.font = `600 ${size}px sans-serif`;
+  context.textBaseline = 'middle';
+  const text = watermark.text?.trim() ?? '';
+  const textWidth = text ? context.measureText(text).width : 0;
+  const gap = logo && text ? padding / 2 : 0;
+  const totalWidth = logoWidth + gap + textWidth;
+
+  const x = watermark.position === 'center' ? (width - totalWidth) / 2
+    : watermark.position.endsWith('left') ? padding : width - padding - totalWidth;
+  const y = watermark.position === 'center' ? (height - size) / 2
+    : watermark.position.startsWith('top') ? padding : height - padding - size;
+
+  context.save();
+  context.globalAlpha = watermark.opacity;
+  context.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  context.shadowBlur = size / 6;
+  if (logo) context.drawImage(logo, x, y, logoWidth, size);
+  if (text) {
+    context.fillStyle = 'white';
+    context.fillText(text, x + logoWidth + gap, y + size / 2);
+  }
+  context.restore();
+};
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// An uncompressed iTXt chunk, which holds UTF-8 text (tEXt is limited to Latin-1).
+const createPngTextChunk = (keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  const data = new Uint8Array([...encoder.encode(keyword.slice(0, 79)), 0, 0, 0, 0, 0, ...encoder.encode(text)]);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode('iTXt'), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+// A JPEG comment segment; one segment holds at most 65533 bytes.
+const createJpegComment = (text: string): Uint8Array => {
+  const data = new TextEncoder().encode(text).slice(0, 65533);
+  const segment = new Uint8Array(4 + data.length);
+  segment.set([0xff, 0xfe, (data.length + 2) >> 8, (data.length + 2) & 0xff]);
+  segment.set(data, 4);
+  return segment;
+};
+
+const insertBytes = (bytes: Uint8Array, offset: number, inserted: Uint8Array[]): Uint8Array => {
+  const total = inserted.reduce((sum, part) => sum + part.length, bytes.length);
+  const result = new Uint8Array(total);
+  result.set(bytes.subarray(0, offset));
+  let position = offset;
+  for (const part of inserted) {
+    result.set(part, position);
+    position += part.length;
+  }
+  result.set(bytes.subarray(offset), position);
+  return result;
+};
+
+/** Embeds text fields as PNG iTXt chunks or a JPEG comment. Other formats are returned unchanged. */
+export const embedMetadata = async (blob: Blob, metadata: Record<string, string>): Promise<Blob> => {
+  const entries = Object.entries(metadata).filter(([, value]) => value);
+  if (entries.length === 0) return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (blob.type === 'image/png') {
+    // Chunks go straight after IHDR: the 8-byte signature plus the 25-byte IHDR chunk.
+    const chunks = entries.map(([key, value]) => createPngTextChunk(key, value));
+    return new Blob([insertBytes(bytes, 33, chunks)], { type: blob.type });
+  }
+  if (blob.type === 'image/jpeg') {
+    // After the JFIF APP0 segment when there is one, which must stay first.
+    const offset = bytes[2] === 0xff && bytes[3] === 0xe0 ? 4 + ((bytes[4] << 8) | bytes[5]) : 2;
+    const comment = createJpegComment(entries.map(([key, value]) => `${key}: ${value}`).join('\n'));
+    return new Blob([insertBytes(bytes, offset, [comment])], { type: blob.type });
+  }
+  return blob;
+};
+
+/**
+ * Crops, resizes, watermarks and re-encodes an image. Browsers that can't encode the requested
+ * format fall back to PNG, so check the returned Blob's type for the file extension.
+ */
+export const postProcessImage = async (url: string, options: PostProcessOptions): Promise<Blob> => {
+  const image = await loadImage(url);
+  const crop = getCropRect(image.naturalWidth, image.naturalHeight, options.cropAspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(options.width ?? crop.width));
+  canvas.height = Math.max(1, Math.round(options.height ?? crop.height));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Your browser does not support canvas image processing.");
+  }
+  if (options.format === 'image/jpeg') {
+    // JPEG has no transparency, which would otherwise turn black.
+    context.fillStyle = 'white';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  if (options.watermark && (options.watermark.text?.trim() || options.watermark.logoUrl)) {
+    await drawWatermark(context, options.watermark);
+  }
+  const blob = await canvasToBlob(canvas, options.format, options.quality);
+  return options.metadata ? embedMetadata(blob, options.metadata) : blob;
+};
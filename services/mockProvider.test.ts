@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChatOptions, ChatStreamChunk } from './aiProvider';
+import { mockProvider } from './mockProvider';
+import { geminiProvider } from './geminiService';
+
+// The mock waits a little before each response to feel like a network call; fake timers skip that.
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const settle = async <T,>(promise: Promise<T>): Promise<T> => {
+  await vi.runAllTimersAsync();
+  return promise;
+};
+
+const collect = async (stream: AsyncIterable<ChatStreamChunk>): Promise<ChatStreamChunk[]> => {
+  const chunks: ChatStreamChunk[] = [];
+  return settle((async () => {
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+  })());
+};
+
+const replyText = (chunks: ChatStreamChunk[]) => chunks.map(chunk => chunk.text).join('');
+
+const chatOptions = (overrides: Partial<ChatOptions> = {}): ChatOptions => ({
+  model: 'gemini-2.5-flash',
+  systemInstruction: 'Be helpful.',
+  history: [],
+  ...overrides,
+});
+
+const decodeSvg = (url: string) => atob(url.split(',')[1]);
+
+describe('mockProvider chat', () => {
+  it('streams a numbered reply that repeats the message', async () => {
+    const chat = mockProvider.createChat(chatOptions());
+    const chunks = await collect(await chat.sendMessageStream([{ text: 'Hello there' }]));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(replyText(chunks)).toBe('This is mock reply #1. You said: "Hello there".');
+  });
+
+  it('numbers replies after the turns already in the history', async () => {
+    const chat = mockProvider.createChat(chatOptions({
+      history: [{ role: 'user', parts: [{ text: 'One' }] }, { role: 'model', parts: [{ text: 'Reply' }] }],
+    }));
+
+    expect(replyText(await collect(await chat.sendMessageStream([{ text: 'Two' }])))).toMatch(/^This is mock reply #2\./);
+    expect(replyText(await collect(await chat.sendMessageStream([{ text: 'Three' }])))).toMatch(/^This is mock reply #3\./);
+  });
+
+  it('counts attachments', async () => {
+    const chat = mockProvider.createChat(chatOptions());
+    const parts = [{ inlineData: { mimeType: 'image/png', data: 'aW1n' } }, { inlineData: { mimeType: 'image/png', data: 'aW1n' } }];
+
+    expect(replyText(await collect(await chat.sendMessageStream(parts)))).toBe('This is mock reply #1. You sent no text. I received 2 attachments.');
+  });
+
+  it('stops streaming once aborted', async () => {
+    const controller = new AbortController();
+    const chat = mockProvider.createChat(chatOptions());
+    const stream = await chat.sendMessageStream([{ text: 'A long message to interrupt' }], { signal: controller.signal });
+    controller.abort();
+
+    expect(await collect(stream)).toEqual([]);
+  });
+
+  it('cites canned sources on the last chunk when search is on', async () => {
+    const chat = mockProvider.createChat(chatOptions({ tools: ['googleSearch'] }));
+    const chunks = await collect(await chat.sendMessageStream([{ text: 'How does grounding work?' }]));
+    const last = chunks[chunks.length - 1];
+
+    expect(chunks.slice(0, -1).every(chunk => !chunk.grounding)).toBe(true);
+    expect(last.grounding?.queries).toEqual(['How does grounding work?']);
+    for (const citation of last.grounding?.citations ?? []) expect(replyText(chunks)).toContain(citation.text);
+  });
+});
+
+describe('mockProvider function calls', () => {
+  const declare = (...names: string[]) => names.map(name => ({ name, description: name, parameters: { type: 'object' as const, properties: {} } }));
+  const callsIn = (chunks: ChatStreamChunk[]) => chunks.flatMap(chunk => chunk.functionCalls ?? []);
+
+  it('calls a declared function picked by keyword, after the reply', async () => {
+    const chat = mockProvider.createChat(chatOptions({ functions: declare('calculator', 'get_current_datetime') }));
+    const chunks = await collect(await chat.sendMessageStream([{ text: 'What is (2 + 3) * 4?' }]));
+
+    expect(callsIn(chunks)).toEqual([{ id: 'mock-call-1', name: 'calculator', args: { expression: '(2 + 3) * 4' } }]);
+    expect(chunks[chunks.length - 1].functionCalls).toBeDefined();
+    expect(replyText(chunks)).toContain('Let me use the calculator tool.');
+  });
+
+  it('numbers call ids across the chat', async () => {
+    const chat = mockProvider.createChat(chatOptions({ functions: declare('get_current_datetime') }));
+    await collect(await chat.sendMessageStream([{ text: 'What time is it?' }]));
+    const chunks = await collect(await chat.sendMessageStream([{ text: 'And the date?' }]));
+
+    expect(callsIn(chunks).map(call => call.id)).toEqual(['mock-call-2']);
+  });
+
+  it('only calls functions that were declared, and none alongside built-in tools', async () => {
+    const undeclared = mockProvider.createChat(chatOptions({ functions: declare('calculator') }));
+    const searching = mockProvider.createChat(chatOptions({ tools: ['googleSearch'], functions: declare('generate_image') }));
+
+    expect(callsIn(await collect(await undeclared.sendMessageStream([{ text: 'Draw an image of a cat' }])))).toEqual([]);
+    expect(callsIn(await collect(await searching.sendMessageStream([{ text: 'Draw an image of a cat' }])))).toEqual([]);
+  });
+
+  it('reports function results without starting a new turn', async () => {
+    const chat = mockProvider.createChat(chatOptions({ functions: declare('calculator') }));
+    const results = [
+      { functionResponse: { id: 'mock-call-1', name: 'calculator', response: { output: 20 } } },
+      { functionResponse: { id: 'mock-call-2', name: 'calculator', response: { error: 'Unknown symbol "x"' } } },
+    ];
+
+    expect(replyText(await collect(await chat.sendMessageStream(results))))
+      .toBe('The calculator tool returned 20. The calculator tool failed: Unknown symbol "x"');
+    expect(replyText(await collect(await chat.sendMessageStream([{ text: 'Thanks' }])))).toMatch(/^This is mock reply #1\./);
+  });
+});
+
+describe('mockProvider images', () => {
+  it('draws the same image for the same prompt and seed', async () => {
+    const [first] = await settle(mockProvider.generateImage('A red fox', { aspectRatio: '1:1', seed: 7 }));
+    const [second] = await settle(mockProvider.generateImage('A red fox', { aspectRatio: '1:1', seed: 7 }));
+    const [other] = await settle(mockProvider.generateImage('A red fox', { aspectRatio: '1:1', seed: 8 }));
+
+    expect(first).toEqual(second);
+    expect(other.url).not.toBe(first.url);
+  });
+
+  it('derives a seed from the prompt and numbers the candidates from it', async () => {
+    const images = await settle(mockProvider.generateImage('A red fox', { aspectRatio: '16:9', numberOfImages: 3 }));
+    const again = await settle(mockProvider.generateImage('A red fox', { aspectRatio: '16:9' }));
+
+    expect(images.map(image => image.seed)).toEqual([images[0].seed, images[0].seed + 1, images[0].seed + 2]);
+    expect(again[0]).toEqual(images[0]);
+  });
+
+  it('sizes the image by aspect ratio and writes the prompt on it', async () => {
+    const [image] = await settle(mockProvider.generateImage('Fish & chips', { aspectRatio: '9:16', seed: 1 }));
+    const svg = decodeSvg(image.url);
+
+    expect(image.url).toMatch(/^data:image\/svg\+xml;base64,/);
+    expect(svg).toContain('width="576" height="1024"');
+    expect(svg).toContain('Fish &amp; chips');
+  });
+});
+
+describe('mockProvider text tools', () => {
+  it('transcribes audio without a network', async () => {
+    expect(await settle(mockProvider.transcribeAudio({ mimeType: 'audio/webm', data: '' }))).toBe('Mock transcription of a audio/webm clip.');
+  });
+
+  it('enhances a prompt the same way every time', async () => {
+    const options = { target: 'image' as const, style: 'watercolor' };
+    const enhanced = await settle(mockProvider.enhancePrompt('a quiet harbor, ', options));
+
+    expect(enhanced).toMatch(/^a quiet harbor, watercolor, /);
+    expect(await settle(mockProvider.enhancePrompt('a quiet harbor, ', options))).toBe(enhanced);
+  });
+});
+
+describe('geminiProvider without an API key', () => {
+  beforeEach(() => {
+    vi.stubEnv('API_KEY', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('can be created, and fails only when called', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(geminiProvider.id).toBe('gemini');
+    expect(() => geminiProvider.createChat(chatOptions())).toThrow('API_KEY environment variable not set');
+    await expect(geminiProvider.generateImage('A red fox', { aspectRatio: '1:1' })).rejects.toThrow('Failed to communicate with the image generation service.');
+    expect(consoleError).toHaveBeenCalledWith(expect.any(String), new Error('API_KEY environment variable not set'));
+  });
+});
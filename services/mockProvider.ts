@@ -0,0 +1,320 @@
+import type { AIProvider, AspectRatio, ChatOptions, ChatSession, ChatStreamChunk, FunctionCall, EditedImageResponse, GeneratedImage, ImageEditOptions, ImageGenerationOptions, ImageOutputFormat, InlineData, PromptEnhanceOptions, SendMessageOptions, SourceImage, VideoGenerationOptions, VideoOperationStatus } from './aiProvider';
+import type { MessageGrounding, MessagePart } from '../types';
+import { loadImage } from './imageProcessing';
+
+// An offline provider that never touches the network. Every response is derived from its
+// inputs, so the same prompt always produces the same reply, image or video.
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const hueFor = (value: string, offset = 0) => (hashString(value) + offset) % 360;
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const toBase64 = (value: string) => {
+  const bytes = new TextEncoder().encode(value);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const svgDataUrl = (svg: string) => `data:image/svg+xml;base64,${toBase64(svg)}`;
+
+const truncate = (value: string, length: number) => (value.length > length ? `${value.slice(0, length)}…` : value);
+
+const dimensions: Record<AspectRatio, [number, number]> = {
+  '1:1': [1024, 1024],
+  '16:9': [1024, 576],
+  '9:16': [576, 1024],
+};
+
+// A canned search-grounded answer, already converted to a `MessageGrounding` the way the
+// Gemini provider converts the API's metadata, so citations can be exercised offline. The sentences below are the cited stretches of the reply.
+const groundedSentences = [
+  'Search grounding lets a reply cite the web pages it is based on.',
+  'Each cited sentence is followed by the numbers of its sources.',
+];
+
+const recordedGrounding = (query: string): MessageGrounding => ({
+  sources: [
+    { uri: 'https://example.com/docs/search-grounding', title: 'example.com' },
+    { uri: 'https://example.org/guides/citing-sources', title: 'example.org' },
+  ],
+  citations: [
+    { text: groundedSentences[0], sourceIndices: [0] },
+    { text: groundedSentences[1], sourceIndices: [0, 1] },
+  ],
+  queries: [query || 'search grounding'],
+});
+
+// Picks a function call for a message by keyword, the way a model might, so the tool-call
+// loop can be exercised offline. Only declared functions are called.
+const pickFunctionCall = (text: string, declared: string[]): Omit<FunctionCall, 'id'> | null => {
+  const expression = text.match(/[\d.(][\d\s.+\-*/%^()]*[+\-*/%^][\d\s.+\-*/%^()]*[\d.)]/)?.[0];
+  const candidates: [string, boolean, Record<string, unknown>][] = [
+    ['calculator', !!expression, { expression }],
+    ['get_current_datetime', /\b(time|date|today)\b/i.test(text), {}],
+    ['edit_image', /\bedit\b/i.test(text), { instruction: text }],
+    ['generate_image', /\b(draw|generate|create|make)\b.*\b(image|picture|drawing)\b/i.test(text), { prompt: text }],
+  ];
+  const match = candidates.find(([name, matches]) => matches && declared.includes(name));
+  return match ? { name: match[0], args: match[2] } : null;
+};
+
+const streamWords = async function* (reply: string, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+  for (const word of reply.split(/(?<= )/)) {
+    await wait(30);
+    if (signal?.aborted) return;
+    yield { text: word };
+  }
+};
+
+const createChat = ({ history, tools = [], functions = [] }: ChatOptions): ChatSession => {
+  let turn = history.filter(m => m.role === 'user').length;
+  let callCount = 0;
+
+  return {
+    sendMessageStream: async (parts: MessagePart[], options?: SendMessageOptions) => {
+      const responses = parts.flatMap(part => (part.functionResponse ? [part.functionResponse] : []));
+      // Function results continue the current turn with a reply that reports them.
+      if (responses.length > 0) {
+        const reply = responses.map(({ name, response }) => (response.error
+          ? `The ${name} tool failed: ${response.error}`
+          : `The ${name} tool returned ${JSON.stringify(response.output)}.`)).join(' ');
+        return streamWords(reply, options?.signal);
+      }
+
+      turn += 1;
+      const text = parts.filter(part => !part.document).map(part => part.text ?? '').join(' ').trim();
+      const attachments = parts.filter(part => part.inlineData && !part.document).length;
+      const documents = parts.flatMap(part => (part.document ? [part.document] : []));
+      const isGrounded = tools.includes('googleSearch');
+      // Like the real API, built-in tools leave no room for function declarations.
+      const call = tools.length > 0 ? null : pickFunctionCall(text, functions.map(f => f.name));
+      const reply = [
+        `This is mock reply #${turn}.`,
+        text ? `You said: "${truncate(text, 200)}".` : 'You sent no text.',
+        attachments ? `I received ${attachments} attachment${attachments === 1 ? '' : 's'}.` : '',
+        documents.length ? `I read ${documents.map(document => `"${document.name}"${document.excerpt ? ` (${document.excerpt.included} of ${document.excerpt.total} sections)` : ''}`).join(', ')}.` : '',
+        ...(isGrounded ? groundedSentences : []),
+        call ? `Let me use the ${call.name} tool.` : '',
+      ].filter(Boolean).join(' ');
+
+      return (async function* () {
+        yield* streamWords(reply, options?.signal);
+        if (options?.signal?.aborted) return;
+        // Like the real API, the grounding metadata arrives with the last chunk.
+        if (isGrounded) yield { text: '', grounding: recordedGrounding(truncate(text, 60)) };
+        if (call) yield { text: '', functionCalls: [{ ...call, id: `mock-call-${++callCount}` }] };
+      })();
+    },
+  };
+};
+
+const renderImage = (prompt: string, aspectRatio: AspectRatio, seed: number): string => {
+  const [width, height] = dimensions[aspectRatio];
+  const key = `${prompt}#${seed}`;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+    <stop offset="0" stop-color="hsl(${hueFor(key)}, 70%, 55%)"/>
+    <stop offset="1" stop-color="hsl(${hueFor(key, 140)}, 70%, 35%)"/>
+  </linearGradient></defs>
+  <rect width="100%" height="100%" fill="url(#g)"/>
+  <text x="50%" y="50%" fill="white" font-family="sans-serif" font-size="${Math.round(width / 24)}" text-anchor="middle">${escapeXml(truncate(prompt, 40))}</text>
+</svg>`;
+  return svgDataUrl(svg);
+};
+
+const rasterize = async (svgUrl: string, format: ImageOutputFormat): Promise<string> => {
+  const image = await loadImage(svgUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  canvas.getContext('2d')!.drawImage(image, 0, 0);
+  return canvas.toDataURL(format);
+};
+
+// Without an explicit seed, one is derived from the prompt so results stay reproducible.
+const generateImage = async (prompt: string, options: ImageGenerationOptions): Promise<GeneratedImage[]> => {
+  await wait(400);
+  const baseSeed = options.seed ?? hashString(prompt) % 1000000;
+  const promptText = options.negativePrompt?.trim() ? `${prompt} (avoid: ${options.negativePrompt.trim()})` : prompt;
+  return Promise.all(Array.from({ length: options.numberOfImages ?? 1 }, async (_, index) => {
+    const seed = baseSeed + index;
+    const url = renderImage(promptText, options.aspectRatio, seed);
+    return { url: options.outputFormat ? await rasterize(url, options.outputFormat) : url, seed };
+  }));
+};
+
+// The tint covers the whole target image; with a mask, the caller composites it into the selected
+// area. Reference images are inset along the bottom edge. The result keeps the target's dimensions
+// so it lines up with the mask.
+const editImage = async (prompt: string, images: SourceImage[], options: ImageEditOptions = {}): Promise<EditedImageResponse> => {
+  await wait(400);
+  const targetIndex = options.targetIndex ?? 0;
+  const image = images[targetIndex];
+  const source = await loadImage(`data:${image.mimeType};base64,${image.data}`);
+  const width = source.naturalWidth || 1024;
+  const height = source.naturalHeight || 1024;
+  const references = images.filter((_, index) => index !== targetIndex);
+  const insetSize = Math.round(Math.min(width, height) / 5);
+  const insets = references.map((reference, index) => {
+    const x = width - (index + 1) * (insetSize + 8);
+    return `<image x="${x}" y="${height - insetSize - 8}" width="${insetSize}" height="${insetSize}" xlink:href="data:${reference.mimeType};base64,${reference.data}"/>`;
+  }).join('\n  ');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <image width="${width}" height="${height}" preserveAspectRatio="none" xlink:href="data:${image.mimeType};base64,${image.data}"/>
+  <rect width="100%" height="100%" fill="hsl(${hueFor(prompt)}, 80%, 50%)" fill-opacity="0.25"/>
+  ${insets}
+</svg>`;
+  const target = options.mask ? ' to the selected area' : '';
+  const referenceNote = references.length > 0 ? ` using ${references.length} reference image${references.length > 1 ? 's' : ''}` : '';
+  return { imageUrl: svgDataUrl(svg), text: `Mock edit applied${target}${referenceNote}: "${truncate(prompt, 80)}".` };
+};
+
+const VIDEO_FPS = 30;
+
+// Records one clip in real time. With a start image, the clip slowly zooms into it.
+const recordVideo = async (caption: string, hue: number, image: HTMLImageElement | null, options: VideoGenerationOptions): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = options.aspectRatio === '9:16' ? 360 : 640;
+  canvas.height = options.aspectRatio === '9:16' ? 640 : 360;
+  const context = canvas.getContext('2d')!;
+  const recorder = new MediaRecorder(canvas.captureStream(VIDEO_FPS), { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+
+  recorder.start();
+  const frames = (options.durationSeconds ?? 5) * VIDEO_FPS;
+  for (let frame = 0; frame < frames; frame++) {
+    if (image) {
+      const zoom = 1 + (frame / frames) * 0.2;
+      const scale = Math.max(canvas.width / image.naturalWidth, canvas.height / image.naturalHeight) * zoom;
+      const width = image.naturalWidth * scale;
+      const height = image.naturalHeight * scale;
+      context.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+    } else {
+      context.fillStyle = `hsl(${(hue + frame * 3) % 360}, 70%, 45%)`;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.fillStyle = 'white';
+    context.font = '24px sans-serif';
+    context.textAlign = 'center';
+    context.fillText(truncate(caption, 40), canvas.width / 2, canvas.height - 32);
+    await wait(1000 / VIDEO_FPS);
+  }
+  recorder.stop();
+  await stopped;
+
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+// Pending mock operations live in localStorage, like a server would keep them, so a job can be
+// resumed after a reload. The clip is only recorded once the simulated render time has passed.
+const MOCK_OPERATIONS_KEY = 'nexus-mock-video-operations';
+const MOCK_RENDER_MS = 8000;
+
+interface MockVideoOperation {
+  prompt: string;
+  options: VideoGenerationOptions;
+  startedAt: number;
+}
+
+const readOperations = (): Record<string, MockVideoOperation> => {
+  try {
+    return JSON.parse(localStorage.getItem(MOCK_OPERATIONS_KEY) || '{}');
+  } catch (error) {
+    console.error("Could not read mock video operations from localStorage", error);
+    return {};
+  }
+};
+
+const writeOperations = (operations: Record<string, MockVideoOperation>) => {
+  localStorage.setItem(MOCK_OPERATIONS_KEY, JSON.stringify(operations));
+};
+
+const startVideoGeneration = async (prompt: string, options: VideoGenerationOptions): Promise<string> => {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error("The mock video provider needs MediaRecorder support.");
+  }
+  await wait(200);
+  const name = `mock-operations/${Date.now()}-${hashString(prompt).toString(36)}`;
+  writeOperations({ ...readOperations(), [name]: { prompt, options, startedAt: Date.now() } });
+  return name;
+};
+
+const getVideoGenerationStatus = async (operationName: string): Promise<VideoOperationStatus> => {
+  const operation = readOperations()[operationName];
+  if (!operation) {
+    return { done: true, error: "The mock video operation no longer exists." };
+  }
+  const elapsed = Date.now() - operation.startedAt;
+  if (elapsed < MOCK_RENDER_MS) {
+    return { done: false, progressPercent: Math.round((elapsed / MOCK_RENDER_MS) * 100) };
+  }
+
+  const { prompt, options } = operation;
+  const image = options.image ? await loadImage(`data:${options.image.mimeType};base64,${options.image.data}`) : null;
+  const caption = options.negativePrompt?.trim() ? `${prompt} (avoid: ${options.negativePrompt.trim()})` : prompt;
+  const videos: Blob[] = [];
+  for (let index = 0; index < (options.numberOfVideos ?? 1); index++) {
+    videos.push(await recordVideo(caption, hueFor(`${prompt}#${index}`), image, options));
+  }
+  await cancelVideoGeneration(operationName);
+  return { done: true, videos };
+};
+
+const cancelVideoGeneration = async (operationName: string): Promise<void> => {
+  const { [operationName]: _removed, ...remaining } = readOperations();
+  writeOperations(remaining);
+};
+
+const transcribeAudio = async (audio: InlineData): Promise<string> => {
+  await wait(200);
+  return `Mock transcription of a ${audio.mimeType} clip.`;
+};
+
+const enhancePrompt = async (prompt: string, { target, style }: PromptEnhanceOptions): Promise<string> => {
+  await wait(400);
+  return [
+    prompt.trim().replace(/[.,\s]+$/, ''),
+    style,
+    target === 'video' ? 'slow dolly-in camera move, smooth natural motion' : 'balanced composition, rule of thirds',
+    'soft golden-hour light, rich detail, atmospheric mood',
+  ].filter(Boolean).join(', ');
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  name: 'Offline Mock',
+  models: {
+    chat: 'mock-chat',
+    image: 'mock-image',
+    imageEdit: 'mock-image-edit',
+    video: 'mock-video',
+    transcription: 'mock-transcription',
+    text: 'mock-text',
+  },
+  chatModels: ['mock-chat'],
+  supportsImageSeed: true,
+  createChat,
+  generateImage,
+  editImage,
+  videoPollIntervalMs: 2000,
+  startVideoGeneration,
+  getVideoGenerationStatus,
+  cancelVideoGeneration,
+  transcribeAudio,
+  enhancePrompt,
+};
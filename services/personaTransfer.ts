@@ -0,0 +1,150 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import type { ChatToolId, Persona } from '../types';
+
+export const PERSONA_FILE_FORMAT = 'nexus-personas';
+export const PERSONA_FILE_VERSION = 1;
+
+// Shared personas travel in the link fragment, which never reaches a server: `#persona=<data>`.
+const SHARE_HASH_PREFIX = '#persona=';
+
+export const createPersonaId = () => `custom-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const serializePersonas = (personas: Persona[]): string =>
+  JSON.stringify({ format: PERSONA_FILE_FORMAT, version: PERSONA_FILE_VERSION, exportedAt: new Date().toISOString(), personas }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkVersion = (version: unknown) => {
+  if (typeof version !== 'number' || version > PERSONA_FILE_VERSION) {
+    throw new Error(`The persona was exported by a newer version of Nexus AI (format version ${version}).`);
+  }
+};
+
+export const CHAT_TOOL_IDS: ChatToolId[] = ['googleSearch', 'codeExecution'];
+
+export const MAX_STARTERS = 6;
+
+const numberIn = (value: unknown, min: number, max: number, integer = false): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max && (!integer || Number.isInteger(value))
+    ? value
+    : undefined;
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * The optional settings of a stored or imported persona. Personas saved before these settings
+ * existed simply have none; values that are out of range or of the wrong type are dropped.
+ */
+const readPersonaSettings = (persona: Record<string, unknown>): Omit<Persona, 'id' | 'name' | 'instruction' | 'welcomeMessage'> => {
+  const storedTools: unknown[] = Array.isArray(persona.tools) ? persona.tools : [];
+  const storedStarters: unknown[] = Array.isArray(persona.starters) ? persona.starters : [];
+  const tools = CHAT_TOOL_IDS.filter(tool => storedTools.includes(tool));
+  const starters = storedStarters
+    .map(nonEmptyString)
+    .filter((starter): starter is string => starter !== undefined)
+    .slice(0, MAX_STARTERS);
+  const settings = {
+    model: nonEmptyString(persona.model),
+    temperature: numberIn(persona.temperature, 0, 2),
+    topP: numberIn(persona.topP, 0, 1),
+    maxOutputTokens: numberIn(persona.maxOutputTokens, 1, 65536, true),
+    thinkingBudget: numberIn(persona.thinkingBudget, 0, 32768, true),
+    tools: tools.length > 0 ? tools : undefined,
+    starters: starters.length > 0 ? starters : undefined,
+    avatar: nonEmptyString(persona.avatar)?.slice(0, 8),
+    voiceName: nonEmptyString(persona.voiceName),
+  };
+  // Unset settings are left out entirely, so saved personas stay compact.
+  return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+};
+
+/** Brings a persona saved by an older version up to the current shape, keeping everything valid. */
+export const migratePersona = (persona: unknown, id: string): Persona | null => {
+  if (!isRecord(persona) || typeof persona.name !== 'string' || typeof persona.instruction !== 'string') return null;
+  return {
+    id,
+    name: persona.name,
+    instruction: persona.instruction,
+    welcomeMessage: typeof persona.welcomeMessage === 'string' ? persona.welcomeMessage : '',
+    ...readPersonaSettings(persona),
+  };
+};
+
+const requiredText = (persona: Record<string, unknown>, field: 'name' | 'instruction' | 'welcomeMessage', label: string): string => {
+  const value = persona[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${label} is missing its ${field === 'welcomeMessage' ? 'welcome message' : field}.`);
+  }
+  return value;
+};
+
+const validatePersona = (value: unknown, label: string): Persona => {
+  const persona = isRecord(value) ? value : {};
+  const name = requiredText(persona, 'name', label);
+  const instruction = requiredText(persona, 'instruction', label);
+  const welcomeMessage = requiredText(persona, 'welcomeMessage', label);
+  return {
+    id: typeof persona.id === 'string' && persona.id ? persona.id : createPersonaId(),
+    name: name.trim(),
+    instruction,
+    welcomeMessage,
+    ...readPersonaSettings(persona),
+  };
+};
+
+/** Reads an exported persona file, throwing an Error that describes the first problem found. */
+export const parsePersonaFile = (json: string): Persona[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== PERSONA_FILE_FORMAT || !Array.isArray(data.personas)) {
+    throw new Error("The file is not a Nexus AI persona export.");
+  }
+  checkVersion(data.version);
+  const personas: unknown[] = data.personas;
+  if (personas.length === 0) {
+    throw new Error("The file does not contain any personas.");
+  }
+  return personas.map((persona, index) => validatePersona(persona, `Persona ${index + 1}`));
+};
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+/** A link to this page that carries the persona, compressed, in its fragment. */
+export const buildPersonaShareUrl = (persona: Persona): string => {
+  const payload = JSON.stringify({ v: PERSONA_FILE_VERSION, persona });
+  const url = new URL(window.location.href);
+  url.hash = `${SHARE_HASH_PREFIX.slice(1)}${toBase64Url(deflateSync(strToU8(payload)))}`;
+  return url.toString();
+};
+
+export const hasSharedPersona = (hash: string): boolean => hash.startsWith(SHARE_HASH_PREFIX);
+
+/** Decodes the persona in a share link's fragment, throwing when the link is damaged. */
+export const parseSharedPersona = (hash: string): Persona => {
+  let data: unknown;
+  try {
+    data = JSON.parse(strFromU8(inflateSync(fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)))));
+  } catch {
+    data = null;
+  }
+  if (!isRecord(data)) {
+    throw new Error("The shared persona link is incomplete or damaged.");
+  }
+  checkVersion(data.v);
+  return validatePersona(data.persona, 'The shared persona');
+};
@@ -0,0 +1,59 @@
+export interface PromptStyle {
+  id: string;
+  label: string;
+  /** How the style reads in a prompt; passed to the model when enhancing. */
+  description: string;
+}
+
+export const PROMPT_STYLES: PromptStyle[] = [
+  { id: 'cinematic', label: 'Cinematic', description: 'cinematic film still, dramatic lighting, shallow depth of field, anamorphic lens, rich color grading' },
+  { id: 'product', label: 'Product Shot', description: 'professional studio product photography, clean seamless backdrop, softbox lighting, crisp detail' },
+  { id: 'anime', label: 'Anime', description: 'anime illustration, clean line art, cel shading, vibrant colors, expressive characters' },
+  { id: 'photoreal', label: 'Photorealistic', description: 'photorealistic photograph, natural lighting, true-to-life textures, sharp focus' },
+  { id: 'watercolor', label: 'Watercolor', description: 'watercolor painting, soft washes, visible paper texture, gentle bleeding edges' },
+  { id: '3d-render', label: '3D Render', description: '3D render, global illumination, physically based materials, octane-style lighting' },
+];
+
+export const getPromptStyle = (id?: string | null): PromptStyle | undefined =>
+  PROMPT_STYLES.find(style => style.id === id);
+
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/** A word-level diff from `before` to `after`; whitespace stays attached to the word before it. */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = before.match(/\S+\s*/g) ?? [];
+  const b = after.match(/\S+\s*/g) ?? [];
+  const same = (x: string, y: string) => x.trim() === y.trim();
+
+  // lengths[i][j] is the longest common subsequence of a[i..] and b[j..].
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && same(a[i], b[j])) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  return segments;
+};
@@ -0,0 +1,76 @@
+import type { SavedPrompt } from '../types';
+
+export const PROMPT_LIBRARY_FORMAT = 'nexus-prompt-library';
+export const PROMPT_LIBRARY_VERSION = 1;
+
+export interface PromptVariable {
+  name: string;
+  defaultValue: string;
+}
+
+// `{{name}}` or `{{name|default value}}`.
+const VARIABLE_PATTERN = /\{\{\s*([^{}|]+?)\s*(?:\|([^{}]*))?\}\}/g;
+
+/** The distinct placeholders in a template, in the order they first appear. */
+export const extractVariables = (text: string): PromptVariable[] => {
+  const variables = new Map<string, PromptVariable>();
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    const name = match[1];
+    if (!variables.has(name)) variables.set(name, { name, defaultValue: match[2]?.trim() ?? '' });
+  }
+  return [...variables.values()];
+};
+
+/** Replaces every placeholder with its value, falling back to the placeholder's default. */
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (_, name: string, defaultValue?: string) => values[name] || defaultValue?.trim() || '');
+
+export const createPromptId = () => `prompt-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const serializePromptLibrary = (prompts: SavedPrompt[]): string =>
+  JSON.stringify({ format: PROMPT_LIBRARY_FORMAT, version: PROMPT_LIBRARY_VERSION, exportedAt: new Date().toISOString(), prompts }, null, 2);
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Reads an exported prompt library, throwing an Error that describes the first problem found. */
+export const parsePromptLibrary = (json: string): SavedPrompt[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== PROMPT_LIBRARY_FORMAT || !Array.isArray(data.prompts)) {
+    throw new Error("The file is not a Nexus AI prompt library export.");
+  }
+  if (typeof data.version !== 'number' || data.version > PROMPT_LIBRARY_VERSION) {
+    throw new Error(`The file was exported by a newer version of Nexus AI (format version ${data.version}).`);
+  }
+  const now = Date.now();
+  const prompts: unknown[] = data.prompts;
+  return prompts.map((value, index): SavedPrompt => {
+    const prompt = isRecord(value) ? value : {};
+    const { title, text, folder, tags } = prompt;
+    if (typeof title !== 'string' || !title.trim() || typeof text !== 'string' || !text.trim()) {
+      throw new Error(`Prompt ${index + 1} needs a title and text.`);
+    }
+    if (tags !== undefined && !isStringArray(tags)) {
+      throw new Error(`The tags of "${title}" must be a list of strings.`);
+    }
+    if (folder !== undefined && typeof folder !== 'string') {
+      throw new Error(`The folder of "${title}" must be a string.`);
+    }
+    return {
+      id: typeof prompt.id === 'string' && prompt.id ? prompt.id : createPromptId(),
+      title: title.trim(),
+      text,
+      folder: typeof folder === 'string' ? folder.trim() : '',
+      tags: isStringArray(tags) ? tags : [],
+      createdAt: typeof prompt.createdAt === 'number' ? prompt.createdAt : now,
+      updatedAt: typeof prompt.updatedAt === 'number' ? prompt.updatedAt : now,
+    };
+  });
+};
@@ -3,6 +3,15 @@ export enum Tab {
   Video,
   Chat,
   ImageEditor,
+  Library,
+}
+
+export interface DocumentInfo {
+    name: string;
+    mimeType: string;
+    size: number;
+    /** Set when the text was too long to send whole and only some sections were included. */
+    excerpt?: { included: number; total: number };
 }
 
 export interface MessagePart {
@@ -11,20 +20,121 @@ export interface MessagePart {
         mimeType: string;
         data: string;
     };
+    /** Marks a part as an attached document, shown as a chip rather than its contents. */
+    document?: DocumentInfo;
+    /**
+     * The asset holding this part's file: the image or PDF itself, or a text document's full text.
+     * Saved conversations keep only this id, and the file is loaded back from the asset store.
+     */
+    assetId?: string;
+    /** The result of a function tool call, sent back to the model within a turn. */
+    functionResponse?: {
+        id?: string;
+        name: string;
+        response: Record<string, unknown>;
+    };
+}
+
+/** A web page a search-grounded reply drew on. */
+export interface GroundingSource {
+  uri: string;
+  title: string;
+}
+
+/** A stretch of a grounded reply and the sources backing it, as indexes into `sources`. */
+export interface GroundingCitation {
+  text: string;
+  sourceIndices: number[];
+}
+
+export interface MessageGrounding {
+  sources: GroundingSource[];
+  citations: GroundingCitation[];
+  /** The web searches the model ran. */
+  queries: string[];
+}
+
+/** A function tool the model called while writing a reply, as shown in the transcript. */
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'done' | 'error';
+  /** What the tool reported back to the model. */
+  result?: Record<string, unknown>;
+  /** Images the tool produced; `assetId` works as on message parts. */
+  images?: { mimeType: string; data: string; assetId?: string }[];
 }
 
 export interface Message {
   role: 'user' | 'model';
   parts: MessagePart[];
+  /** Set on replies grounded with web search. */
+  grounding?: MessageGrounding;
+  /** Function tools called while writing this reply, in call order. */
+  toolCalls?: ToolCallRecord[];
+}
+
+export interface MessageNode {
+  id: string;
+  message: Message;
+  parentId: string | null;
+  childIds: string[];
+  /** The child shown on the active path; alternatives stay in `childIds` as sibling branches. */
+  selectedChildId: string | null;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  personaId: string;
+  /** Every message ever sent or received, as a tree rooted at the persona's welcome message. */
+  nodes: Record<string, MessageNode>;
+  rootId: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A reusable prompt from the prompt library. `text` may contain `{{variable}}` placeholders. */
+export interface SavedPrompt {
+  id: string;
+  title: string;
+  text: string;
+  /** Empty when the prompt isn't filed in a folder. */
+  folder: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
 }
 
 export type PersonaType = string;
 
-export interface Persona {
+/** Built-in model tools a persona can turn on. */
+export type ChatToolId = 'googleSearch' | 'codeExecution';
+
+/** Sampling settings; anything unset is left to the model's default. */
+export interface ChatGenerationConfig {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  /** Tokens the model may spend thinking before it answers; 0 turns thinking off. */
+  thinkingBudget?: number;
+}
+
+export interface Persona extends ChatGenerationConfig {
   id: string;
   name: string;
   instruction: string;
   welcomeMessage: string;
+  /** The chat model; the provider's default is used when unset or not offered by the current provider. */
+  model?: string;
+  tools?: ChatToolId[];
+  /** Suggested first messages, shown as chips in a conversation that hasn't started. */
+  starters?: string[];
+  /** An emoji shown beside the persona's replies. */
+  avatar?: string;
+  /** The name of a browser speech synthesis voice for text-to-speech. */
+  voiceName?: string;
 }
 
 export const defaultPersonas: Record<string, Persona> = {
@@ -33,23 +143,33 @@ export const defaultPersonas: Record<string, Persona> = {
     name: 'Nexus (Default)',
     instruction: 'You are Nexus, an advanced AI assistant. Be helpful, clear, and concise. You can analyze images and text with great detail.',
     welcomeMessage: 'Hello! I’m Nexus. How can I assist you today?',
+    avatar: '🤖',
+    starters: ['What can you help me with?', 'Describe the image I’m about to upload', 'Summarize a long article for me'],
   },
   Professional: {
     id: 'Professional',
     name: 'Professional',
     instruction: 'You are a professional assistant. Use formal language, be respectful, and provide structured responses.',
     welcomeMessage: 'Good day. How may I be of service?',
+    avatar: '💼',
+    temperature: 0.4,
+    starters: ['Draft a polite follow-up email', 'Outline a project status report', 'Review my meeting agenda'],
   },
   Friendly: {
     id: 'Friendly',
     name: 'Friendly',
     instruction: 'You are a warm and friendly assistant. Be cheerful, conversational, and engaging.',
     welcomeMessage: 'Hey there! 😊 What’s on your mind?',
+    avatar: '😊',
+    starters: ['Recommend a book for the weekend', 'Help me plan a birthday surprise', 'Tell me something fun to learn today'],
   },
   Witty: {
     id: 'Witty',
     name: 'Witty',
     instruction: 'You are a witty and clever assistant. Use humor, wordplay, and clever phrasing.',
     welcomeMessage: 'Well hello! Ready for some banter and brilliance?',
+    avatar: '🎭',
+    temperature: 1.3,
+    starters: ['Roast my to-do list', 'Explain taxes with puns', 'Give me a clever team name'],
   },
 };